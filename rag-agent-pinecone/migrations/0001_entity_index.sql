@@ -0,0 +1,12 @@
+-- Secondary indexes over brain entities: one row per (entity, term).
+-- Apply with `npx wrangler d1 migrations apply rag-brain`.
+CREATE TABLE IF NOT EXISTS entity_index (
+  tenant TEXT NOT NULL,      -- organization id, '' for the default tenant
+  field TEXT NOT NULL,       -- type | category | tag | user | status
+  value TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  PRIMARY KEY (tenant, field, value, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS entity_index_by_entity
+  ON entity_index (tenant, entity_id);
@@ -0,0 +1,33 @@
+-- Entity metadata mirrored from KV for filtered, sorted and counted queries.
+-- Content stays in KV; `metadata` holds the rest as JSON (embedding excluded).
+CREATE TABLE IF NOT EXISTS entity_metadata (
+  tenant TEXT NOT NULL,      -- organization id, '' for the default tenant
+  id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  category TEXT,
+  status TEXT,
+  user_id TEXT,
+  organization_id TEXT,
+  created_at INTEGER,
+  updated_at INTEGER,
+  expires_at INTEGER,
+  stored_at INTEGER NOT NULL, -- newer writes win
+  version INTEGER,
+  size INTEGER,
+  tags TEXT NOT NULL DEFAULT '[]',
+  metadata TEXT NOT NULL DEFAULT '{}',
+  PRIMARY KEY (tenant, id)
+);
+
+CREATE INDEX IF NOT EXISTS entity_metadata_type
+  ON entity_metadata (tenant, type, id);
+CREATE INDEX IF NOT EXISTS entity_metadata_category
+  ON entity_metadata (tenant, category, id);
+CREATE INDEX IF NOT EXISTS entity_metadata_status
+  ON entity_metadata (tenant, status, id);
+CREATE INDEX IF NOT EXISTS entity_metadata_user
+  ON entity_metadata (tenant, user_id, id);
+CREATE INDEX IF NOT EXISTS entity_metadata_created
+  ON entity_metadata (tenant, created_at);
+CREATE INDEX IF NOT EXISTS entity_metadata_updated
+  ON entity_metadata (tenant, updated_at);
@@ -0,0 +1,7 @@
+-- Every record (entities, revisions, stats, jobs, cache) when
+-- STORAGE_BACKEND = "d1". Keys keep their KV layout, tenant prefix included.
+CREATE TABLE IF NOT EXISTS kv_store (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  expires_at INTEGER -- epoch ms; NULL never expires
+);
@@ -0,0 +1,10 @@
+-- Analytics counters, one row per counter, changed with `value = value + ?`
+-- so concurrent writers add up. Seeded by a background recount job.
+CREATE TABLE IF NOT EXISTS brain_stats (
+  tenant TEXT NOT NULL,      -- organization id, '' for the default tenant
+  metric TEXT NOT NULL,      -- total | size | type | category | status | indexing
+                             -- | created | updated | deleted | lastIndexed | seededAt
+  key TEXT NOT NULL DEFAULT '', -- the type, category, ... or activity bucket
+  value INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (tenant, metric, key)
+);
@@ -0,0 +1,7 @@
+-- Trash listed oldest deletion first and purged in deletedAt order, a page at
+-- a time (a missing deletedAt counts as 0). Queries must spell the expression
+-- exactly like this to use the index.
+CREATE INDEX IF NOT EXISTS entity_metadata_trash
+  ON entity_metadata (
+    tenant, IFNULL(json_extract(metadata, '$.deletedAt'), 0), id
+  ) WHERE status = 'deleted';
@@ -1,35 +1,281 @@
 // src/index.ts - Full RAG Brain API with CRUD + Query
-import { Env } from "./types";
+import {
+  Env,
+  ApiKeyScope,
+  AuthPrincipal,
+  IssueApiKeyRequest,
+  JobMessage,
+  ReindexRequest,
+} from "./types";
+import { schemas } from "./types/schemas";
+import {
+  FieldError,
+  ParsedBody,
+  parseBody,
+  validate,
+} from "./utils/validation";
+import { buildOpenApiDocument } from "./utils/openapi";
+import { AuthService, hasScope } from "./utils/auth";
+import { RateLimiter } from "./utils/rateLimit";
 import { RAGAgent } from "./rag/agent";
 import { RAGBrainAgent } from "./rag/brain";
+import { MAX_JOB_ATTEMPTS } from "./rag/jobs";
+import { getMaintenanceReport, runMaintenance } from "./rag/maintenance";
+import { QueryError } from "./rag/metadata";
 import {
   BrainData,
+  CreateRequest,
+  CRUDResult,
   QueryRequest,
   BulkCreateRequest,
+  BulkUpdateRequest,
   BulkDeleteRequest,
+  DataImport,
+  EntityFilters,
+  EntityQuery,
+  EntityStatus,
 } from "./types";
 
-export default {
+// Durable Object classes are bound from the main module
+export { RateLimitCounter } from "./utils/rateLimit";
+
+/** Routes reachable without an API key */
+function isPublicPath(pathname: string): boolean {
+  return (
+    pathname === "/" ||
+    pathname === "/health" ||
+    pathname === "/docs" ||
+    pathname.startsWith("/docs/")
+  );
+}
+
+/** Scope an API key needs for a route; admin implies write implies read */
+function requiredScope(method: string, pathname: string): ApiKeyScope {
+  if (
+    pathname.startsWith("/admin/") ||
+    pathname === "/brain/analytics" ||
+    pathname === "/brain/trash/purge"
+  ) {
+    return "admin";
+  }
+  if (
+    method === "GET" ||
+    pathname === "/query" ||
+    pathname === "/brain/read" ||
+    pathname === "/brain/query"
+  ) {
+    return "read";
+  }
+  return "write";
+}
+
+/** Strong ETag for an entity version */
+function etagFor(version: number): string {
+  return `"v${version}"`;
+}
+
+/**
+ * Version named by If-Match: undefined when absent or "*", null when it
+ * isn't a single ETag produced by etagFor.
+ */
+function parseIfMatch(request: Request): number | undefined | null {
+  const header = request.headers.get("If-Match")?.trim();
+  if (!header || header === "*") return undefined;
+
+  const match = header.match(/^(?:W\/)?"v(\d+)"$/);
+  return match ? Number(match[1]) : null;
+}
+
+function corsHeadersFor(request: Request, env: Env): Record<string, string> {
+  const allowed = (env.CORS_ALLOWED_ORIGINS || "*")
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean);
+  const origin = request.headers.get("Origin") || "";
+  const allowOrigin = allowed.includes("*")
+    ? "*"
+    : allowed.includes(origin)
+    ? origin
+    : allowed[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers":
+      "Content-Type, Authorization, X-Organization-Id, If-Match",
+    "Access-Control-Expose-Headers":
+      "ETag, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset",
+    ...(allowOrigin !== "*" && { Vary: "Origin" }),
+  };
+}
+
+/** Accept a DataImport, a DataExport JSON document, or an NDJSON export */
+async function parseImportBody(
+  request: Request,
+  params: URLSearchParams
+): Promise<ParsedBody<DataImport>> {
+  const contentType = request.headers.get("Content-Type") || "";
+  let body: DataImport;
+
+  if (contentType.includes("ndjson")) {
+    const lines = (await request.text())
+      .split("\n")
+      .filter((line) => line.trim());
+    const entities: any[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(lines[i]);
+      } catch {
+        return {
+          ok: false,
+          errors: [{ path: `/lines/${i}`, message: "Line is not valid JSON" }],
+        };
+      }
+      // First line of an NDJSON export is its header
+      if (i === 0 && parsed && parsed.exportedAt && !parsed.content) continue;
+      entities.push(parsed);
+    }
+    body = { entities };
+    const errors = validate(body, schemas.DataImport);
+    if (errors.length) return { ok: false, errors };
+  } else {
+    const parsed = await parseBody<DataImport>(request, "DataImport");
+    if (!parsed.ok) return parsed;
+    body = parsed.value;
+  }
+
+  const flag = (name: string) =>
+    params.has(name) ? params.get(name) === "true" : undefined;
+  const batchSize = Number(params.get("batchSize")) || undefined;
+
+  return {
+    ok: true,
+    value: {
+      entities: body.entities,
+      options: {
+        ...body.options,
+        ...(flag("skipExisting") !== undefined && {
+          skipExisting: flag("skipExisting"),
+        }),
+        ...(flag("updateExisting") !== undefined && {
+          updateExisting: flag("updateExisting"),
+        }),
+        ...(flag("preserveIds") !== undefined && {
+          preserveIds: flag("preserveIds"),
+        }),
+        ...(batchSize && { batchSize }),
+      },
+    },
+  };
+}
+
+/** CreateRequest options from query params (?backgroundIndex=false&skipIndexing=true) */
+function parseCreateOptions(params: URLSearchParams): CreateRequest["options"] {
+  const flag = (name: string) =>
+    params.has(name) ? params.get(name) === "true" : undefined;
+  return {
+    skipIndexing: flag("skipIndexing"),
+    backgroundIndex: flag("backgroundIndex"),
+  };
+}
+
+/** Read EntityFilters from query params (tags comma-separated, dates as ms or ISO) */
+function parseEntityFilters(params: URLSearchParams): EntityFilters {
+  const toTime = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const n = Number(value);
+    const t = Number.isFinite(n) ? n : Date.parse(value);
+    return Number.isNaN(t) ? undefined : t;
+  };
+
+  const start = toTime(params.get("start"));
+  const end = toTime(params.get("end"));
+  const tags = params
+    .get("tags")
+    ?.split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+  return {
+    type: params.get("type") || undefined,
+    category: params.get("category") || undefined,
+    userId: params.get("userId") || undefined,
+    status: (params.get("status") as EntityStatus) || undefined,
+    tags: tags && tags.length ? tags : undefined,
+    dateRange:
+      start !== undefined || end !== undefined
+        ? { start: start ?? 0, end: end ?? Number.MAX_SAFE_INTEGER }
+        : undefined,
+    textSearch: params.get("textSearch") || undefined,
+    includeTrashed: params.get("includeTrashed") === "true" || undefined,
+  };
+}
+
+const API_VERSION = "2.0.0";
+
+const PATCH_FORMATS =
+  "application/merge-patch+json, application/json-patch+json";
+
+/**
+ * The API router; the default export wraps it with rate limiting and passes
+ * in the caller it authenticated (undefined: authenticate here)
+ */
+const router = {
   async fetch(
     request: Request,
     env: Env,
-    _ctx: ExecutionContext
+    ctx: ExecutionContext,
+    authenticated?: AuthPrincipal | null
   ): Promise<Response> {
     const url = new URL(request.url);
 
-    const indexName = "conversation-history";
-    const openaiApiKey = "your-openai-api-key-here";
-
-    const corsHeaders = {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-    };
+    const corsHeaders = corsHeadersFor(request, env);
 
     if (request.method === "OPTIONS") {
       return new Response(null, { headers: corsHeaders });
     }
 
+    // 409 for stale versions; ETag tracks whichever entity is returned
+    const crudResponse = (res: CRUDResult) =>
+      new Response(JSON.stringify(res, null, 2), {
+        status: res.metadata?.conflict ? 409 : 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          ...(res.data && { ETag: etagFor(res.data.metadata.version) }),
+        },
+      });
+
+    const malformedIfMatch = () =>
+      new Response(
+        JSON.stringify(
+          {
+            success: false,
+            message: 'If-Match must be a single ETag like "v3"',
+          },
+          null,
+          2
+        ),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+
+    const validationFailed = (errors: FieldError[]) =>
+      new Response(
+        JSON.stringify(
+          { success: false, message: "Request validation failed", errors },
+          null,
+          2
+        ),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+
     try {
       console.log(`🌐 ${request.method} ${url.pathname}`);
 
@@ -37,37 +283,430 @@ export default {
       // Health check
       // ----------------------
       if (url.pathname === "/health") {
+        const health = await new RAGBrainAgent(env).healthCheck();
+        // Degraded still serves requests; the body says what failed
+        const status = health.status === "unhealthy" ? 503 : 200;
+        return new Response(
+          JSON.stringify({ ...health, version: API_VERSION }, null, 2),
+          {
+            status,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+              "Cache-Control": "no-store",
+            },
+          }
+        );
+      }
+
+      // ----------------------
+      // Authentication
+      // ----------------------
+      const auth = new AuthService(env);
+      let principal: AuthPrincipal | null = null;
+
+      if (!isPublicPath(url.pathname)) {
+        principal =
+          authenticated !== undefined
+            ? authenticated
+            : await auth.authenticate(request);
+        if (!principal) {
+          return new Response(
+            JSON.stringify(
+              { success: false, message: "Missing or invalid API key" },
+              null,
+              2
+            ),
+            {
+              status: 401,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+                "WWW-Authenticate": 'Bearer realm="rag-brain"',
+              },
+            }
+          );
+        }
+
+        const scope = requiredScope(request.method, url.pathname);
+        if (!hasScope(principal, scope)) {
+          return new Response(
+            JSON.stringify(
+              {
+                success: false,
+                message: `API key lacks the "${scope}" scope`,
+              },
+              null,
+              2
+            ),
+            {
+              status: 403,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+      }
+
+      // Initialize agents
+      // (legacyAgent kept for compatibility—even if unused, it's harmless)
+      const legacyAgent = new RAGAgent(env);
+      // Keys bound to an organization always act in it; unbound (platform)
+      // admins pick a tenant with X-Organization-Id
+      const organizationId =
+        principal?.organizationId ??
+        (request.headers.get("X-Organization-Id") || undefined);
+      const brainAgent = new RAGBrainAgent(
+        env,
+        organizationId,
+        principal?.keyId,
+        ctx
+      );
+
+      // ----------------------
+      // /admin/keys endpoints
+      // ----------------------
+      if (url.pathname === "/admin/keys" && principal) {
+        // Organization-bound admins only manage their own organization's keys
+        const orgScope = principal.organizationId;
+
+        if (request.method === "GET") {
+          const keys = await auth.listKeys(orgScope);
+          return new Response(
+            JSON.stringify({ success: true, keys }, null, 2),
+            {
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (request.method === "POST") {
+          const parsed = await parseBody<IssueApiKeyRequest>(
+            request,
+            "IssueApiKeyRequest"
+          );
+          if (!parsed.ok) return validationFailed(parsed.errors);
+          if (orgScope && parsed.value.organizationId !== orgScope) {
+            return new Response(
+              JSON.stringify(
+                {
+                  success: false,
+                  message: "Cannot issue keys for another organization",
+                },
+                null,
+                2
+              ),
+              {
+                status: 403,
+                headers: {
+                  ...corsHeaders,
+                  "Content-Type": "application/json",
+                },
+              }
+            );
+          }
+          const issued = await auth.issueKey(parsed.value, principal.keyId);
+          return new Response(
+            JSON.stringify(
+              {
+                success: true,
+                message: "Store this key now; it cannot be shown again",
+                ...issued,
+              },
+              null,
+              2
+            ),
+            {
+              status: 201,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (request.method === "DELETE") {
+          const keyId = url.searchParams.get("id");
+          const revoked = keyId ? await auth.revokeKey(keyId, orgScope) : null;
+          return new Response(
+            JSON.stringify(
+              revoked
+                ? { success: true, message: "API key revoked", record: revoked }
+                : { success: false, message: "API key not found" },
+              null,
+              2
+            ),
+            {
+              status: revoked ? 200 : 404,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response("Method not allowed", {
+          status: 405,
+          headers: corsHeaders,
+        });
+      }
+
+      // ----------------------
+      // /admin/tenants endpoint
+      // ----------------------
+      if (url.pathname === "/admin/tenants" && principal) {
+        if (request.method !== "DELETE") {
+          return new Response("Method not allowed", {
+            status: 405,
+            headers: corsHeaders,
+          });
+        }
+
+        const tenant = url.searchParams.get("organizationId");
+        if (!tenant || principal.organizationId) {
+          return new Response(
+            JSON.stringify(
+              {
+                success: false,
+                message: tenant
+                  ? "Only platform administrators can delete tenants"
+                  : "organizationId parameter required",
+              },
+              null,
+              2
+            ),
+            {
+              status: tenant ? 403 : 400,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        // Revoke first so nothing writes to the tenant while it's deleted
+        const revokedKeys: string[] = [];
+        for (const key of await auth.listKeys(tenant)) {
+          if (key.revokedAt) continue;
+          await auth.revokeKey(key.id, tenant);
+          revokedKeys.push(key.id);
+        }
+        const job = await new RAGBrainAgent(
+          env,
+          undefined,
+          principal.keyId,
+          ctx
+        ).startTenantDeletion(tenant);
+
         return new Response(
           JSON.stringify(
             {
-              status: "healthy",
-              timestamp: Date.now(),
-              services: {
-                storage: "ok",
-                vectorDB: indexName ? "ok" : "missing",
-                embedding: openaiApiKey ? "ok" : "missing",
-                cache: "ok",
+              success: true,
+              message: `Deleting tenant ${tenant}; progress via /brain/jobs/${job.id}`,
+              job,
+              revokedKeys,
+            },
+            null,
+            2
+          ),
+          {
+            status: 202,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      // ----------------------
+      // /admin/maintenance endpoint (reports of the scheduled runs)
+      // ----------------------
+      if (url.pathname === "/admin/maintenance" && principal) {
+        // Organization-bound admins only see and run their own tenant
+        const orgScope = principal.organizationId;
+
+        if (request.method === "GET") {
+          const report = await getMaintenanceReport(
+            env,
+            url.searchParams.get("runId") || undefined
+          );
+          const visible =
+            report && orgScope
+              ? {
+                  ...report,
+                  tenants: report.tenants.filter(
+                    (t) => t.organizationId === orgScope
+                  ),
+                }
+              : report;
+          return new Response(
+            JSON.stringify(
+              visible
+                ? { success: true, report: visible }
+                : { success: false, message: "No maintenance report found" },
+              null,
+              2
+            ),
+            {
+              status: visible ? 200 : 404,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (request.method === "POST") {
+          const job = await runMaintenance(env, {
+            trigger: "manual",
+            ...(orgScope && { organizationIds: [orgScope] }),
+            ctx,
+          });
+          return new Response(
+            JSON.stringify(
+              {
+                success: true,
+                message: `Maintenance run ${job.metadata?.runId}: progress via /brain/jobs/${job.id}, report via /admin/maintenance?runId=${job.metadata?.runId} when done`,
+                job,
               },
-              version: "2.0.0",
+              null,
+              2
+            ),
+            {
+              status: 202,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response("Method not allowed", {
+          status: 405,
+          headers: corsHeaders,
+        });
+      }
+
+      // ----------------------
+      // /admin/reindex endpoint (embedding model migration)
+      // ----------------------
+      if (url.pathname === "/admin/reindex") {
+        if (request.method === "GET") {
+          const state = await brainAgent.getVectorIndex();
+          return new Response(
+            JSON.stringify({ success: true, state }, null, 2),
+            {
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (request.method === "POST") {
+          const parsed = await parseBody<ReindexRequest>(
+            request,
+            "ReindexRequest"
+          );
+          if (!parsed.ok) return validationFailed(parsed.errors);
+          const { model, deletePrevious } = parsed.value;
+          const started = await brainAgent.startReindex(model, {
+            deletePrevious,
+          });
+          return new Response(
+            JSON.stringify(
+              started.error
+                ? {
+                    success: false,
+                    message: started.error,
+                    state: started.state,
+                  }
+                : {
+                    success: true,
+                    message: `Reindexing with ${model}; follow /brain/jobs/${started.job?.id}`,
+                    job: started.job,
+                    state: started.state,
+                  },
+              null,
+              2
+            ),
+            {
+              status: started.error ? 409 : 202,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (request.method === "DELETE") {
+          const state = await brainAgent.cancelReindex();
+          return new Response(
+            JSON.stringify(
+              state
+                ? { success: true, message: "Reindex cancelled", state }
+                : { success: false, message: "No reindex in progress" },
+              null,
+              2
+            ),
+            {
+              status: state ? 200 : 404,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response("Method not allowed", {
+          status: 405,
+          headers: corsHeaders,
+        });
+      }
+
+      // ----------------------
+      // /admin/indexes/rebuild endpoint (secondary index backfill)
+      // ----------------------
+      if (
+        url.pathname === "/admin/indexes/rebuild" &&
+        request.method === "POST"
+      ) {
+        const job = await brainAgent.startIndexRebuild();
+        return new Response(
+          JSON.stringify(
+            {
+              success: true,
+              message: `Rebuilding ${job.metadata?.store} indexes; follow /brain/jobs/${job.id}`,
+              job,
             },
             null,
             2
           ),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          {
+            status: 202,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
         );
       }
 
-      // Initialize agents
-      // (legacyAgent kept for compatibility—even if unused, it's harmless)
-      const legacyAgent = new RAGAgent(env);
-      const brainAgent = new RAGBrainAgent(env);
+      // ----------------------
+      // /admin/reconcile endpoint (KV ↔ vector store consistency)
+      // ----------------------
+      if (url.pathname === "/admin/reconcile" && request.method === "POST") {
+        const fix = url.searchParams.get("fix") === "true";
+        const started = await brainAgent.startReconcile({ fix });
+        return new Response(
+          JSON.stringify(
+            started.error
+              ? { success: false, message: started.error }
+              : {
+                  success: true,
+                  message: `${
+                    fix ? "Checking and repairing" : "Checking"
+                  } the vector index; report via /brain/jobs/${
+                    started.job?.id
+                  }`,
+                  job: started.job,
+                },
+            null,
+            2
+          ),
+          {
+            status: started.error ? 409 : 202,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
 
       // ----------------------
       // /query (root) endpoint
       // ----------------------
       if (url.pathname === "/query" && request.method === "POST") {
         try {
-          const readData = (await request.json()) as QueryRequest;
+          const parsed = await parseBody<QueryRequest>(request, "QueryRequest");
+          if (!parsed.ok) return validationFailed(parsed.errors);
+          const readData = parsed.value;
 
           // Direct ID lookup path
           if (readData.options && Array.isArray(readData.options.ids)) {
@@ -149,63 +788,364 @@ export default {
                 headers: corsHeaders,
               });
             }
-            const data = (await request.json()) as BrainData;
-            const res = await brainAgent.create(data);
-            return new Response(JSON.stringify(res, null, 2), {
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            });
+            const parsed = await parseBody<BrainData>(request, "BrainData");
+            if (!parsed.ok) return validationFailed(parsed.errors);
+            const data = parsed.value;
+            const res = await brainAgent.create(
+              data,
+              parseCreateOptions(url.searchParams)
+            );
+            // 202 while indexing continues in the background
+            return new Response(JSON.stringify(res, null, 2), {
+              status: res.metadata?.conflict
+                ? 409
+                : res.metadata?.jobId
+                ? 202
+                : 200,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          // WRITE (alias of create)
+          case "write": {
+            if (request.method !== "POST") {
+              return new Response("Method not allowed", {
+                status: 405,
+                headers: corsHeaders,
+              });
+            }
+            const parsed = await parseBody<BrainData>(request, "BrainData");
+            if (!parsed.ok) return validationFailed(parsed.errors);
+            const data = parsed.value;
+            const res = await brainAgent.create(
+              data,
+              parseCreateOptions(url.searchParams)
+            );
+            // 202 while indexing continues in the background
+            return new Response(JSON.stringify(res, null, 2), {
+              status: res.metadata?.conflict
+                ? 409
+                : res.metadata?.jobId
+                ? 202
+                : 200,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          // READ
+          case "read": {
+            if (request.method !== "POST") {
+              return new Response("Method not allowed", {
+                status: 405,
+                headers: corsHeaders,
+              });
+            }
+            const parsed = await parseBody<QueryRequest>(
+              request,
+              "QueryRequest"
+            );
+            if (!parsed.ok) return validationFailed(parsed.errors);
+            const data = parsed.value;
+
+            // If options.ids present, do the lightweight ID lookup summary
+            if (data.options && Array.isArray(data.options.ids)) {
+              const docs = await Promise.all(
+                data.options.ids.map((docId) => brainAgent.getById(docId))
+              );
+              const topics = docs
+                .filter((d) => d.success && d.data?.metadata)
+                .map((d) => (d.data?.metadata as any)?.topic ?? "Unknown");
+
+              return new Response(
+                JSON.stringify(
+                  {
+                    success: true,
+                    strategy: "id_lookup",
+                    query: data.query,
+                    answer: topics.length
+                      ? `Topics: ${topics.join(", ")}`
+                      : "No topics found",
+                    sources: data.options.ids,
+                    confidence: 1,
+                  },
+                  null,
+                  2
+                ),
+                {
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                  },
+                }
+              );
+            }
+
+            const res = await brainAgent.read(data.query, data.options);
+            return new Response(JSON.stringify(res, null, 2), {
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          // UPDATE
+          case "update": {
+            if (request.method !== "PUT" || !id) {
+              return new Response(
+                JSON.stringify(
+                  { success: false, message: "Missing id or wrong method" },
+                  null,
+                  2
+                ),
+                {
+                  status: 400,
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                  },
+                }
+              );
+            }
+            const ifMatch = parseIfMatch(request);
+            if (ifMatch === null) return malformedIfMatch();
+            const parsed = await parseBody<
+              Partial<BrainData> & { expectedVersion?: number }
+            >(request, "UpdateBody");
+            if (!parsed.ok) return validationFailed(parsed.errors);
+            const { expectedVersion, ...data } = parsed.value;
+            const res = await brainAgent.update(id, data, {
+              expectedVersion: ifMatch ?? expectedVersion,
+            });
+            if (res.metadata?.errors) {
+              return validationFailed(res.metadata.errors);
+            }
+            return crudResponse(res);
+          }
+
+          // DELETE
+          case "delete": {
+            if (request.method !== "DELETE" || !id) {
+              return new Response(
+                JSON.stringify(
+                  { success: false, message: "Missing id or wrong method" },
+                  null,
+                  2
+                ),
+                {
+                  status: 400,
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                  },
+                }
+              );
+            }
+            const ifMatch = parseIfMatch(request);
+            if (ifMatch === null) return malformedIfMatch();
+            const softDelete = url.searchParams.get("soft") === "true";
+            const res = await brainAgent.delete(id, {
+              softDelete,
+              expectedVersion: ifMatch,
+            });
+            return crudResponse(res);
+          }
+
+          // TRASH
+          case "trash": {
+            // /brain/trash/purge  (POST)
+            if (subPath === "purge" && request.method === "POST") {
+              const days = url.searchParams.get("olderThanDays");
+              const olderThanDays =
+                days !== null && days !== "" ? Number(days) : undefined;
+              if (
+                olderThanDays !== undefined &&
+                !(Number.isFinite(olderThanDays) && olderThanDays >= 0)
+              ) {
+                return validationFailed([
+                  {
+                    path: "/olderThanDays",
+                    message: "Must be a number of days, 0 or more",
+                  },
+                ]);
+              }
+              // One page per request; pass the cursor back for the next
+              const cursor = url.searchParams.get("cursor") || undefined;
+              const res = await brainAgent.purgeTrash(olderThanDays, cursor);
+              return new Response(JSON.stringify(res, null, 2), {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              });
+            }
+
+            // /brain/trash  (GET)
+            if (!subPath && request.method === "GET") {
+              const limit = Number(url.searchParams.get("limit")) || 100;
+              const cursor = url.searchParams.get("cursor") || undefined;
+              try {
+                const res = await brainAgent.listTrash(limit, cursor);
+                return new Response(JSON.stringify(res, null, 2), {
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                  },
+                });
+              } catch (error) {
+                if (!(error instanceof QueryError)) throw error;
+                return validationFailed([
+                  { path: error.path, message: error.message },
+                ]);
+              }
+            }
+
+            return new Response(
+              JSON.stringify(
+                { success: false, message: "Unknown trash route" },
+                null,
+                2
+              ),
+              {
+                status: 404,
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              }
+            );
+          }
+
+          // RESTORE
+          case "restore": {
+            if (request.method !== "POST" || !id) {
+              return new Response(
+                JSON.stringify(
+                  { success: false, message: "Missing id or wrong method" },
+                  null,
+                  2
+                ),
+                {
+                  status: 400,
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                  },
+                }
+              );
+            }
+            const ifMatch = parseIfMatch(request);
+            if (ifMatch === null) return malformedIfMatch();
+            const res = await brainAgent.restore(id, {
+              expectedVersion: ifMatch,
+            });
+            return crudResponse(res);
+          }
+
+          // GET BY ID
+          case "get": {
+            if (request.method !== "GET" || !id) {
+              return new Response(
+                JSON.stringify(
+                  { success: false, message: "Missing id or wrong method" },
+                  null,
+                  2
+                ),
+                {
+                  status: 400,
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                  },
+                }
+              );
+            }
+            const res = await brainAgent.getById(id);
+            return crudResponse(res);
           }
 
-          // WRITE (alias of create)
-          case "write": {
-            if (request.method !== "POST") {
-              return new Response("Method not allowed", {
-                status: 405,
-                headers: corsHeaders,
-              });
+          // ENTITY RESOURCE: GET or PATCH /brain/entity/:id
+          case "entity": {
+            const entityId = subPath ? decodeURIComponent(subPath) : "";
+            if (!entityId || parts.length > 3) {
+              return new Response(
+                JSON.stringify({ error: "Not found" }, null, 2),
+                {
+                  status: 404,
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                  },
+                }
+              );
             }
-            const data = (await request.json()) as BrainData;
-            const res = await brainAgent.create(data);
-            return new Response(JSON.stringify(res, null, 2), {
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            });
-          }
 
-          // READ
-          case "read": {
-            if (request.method !== "POST") {
+            if (request.method === "GET") {
+              return crudResponse(await brainAgent.getById(entityId));
+            }
+
+            if (request.method !== "PATCH") {
               return new Response("Method not allowed", {
                 status: 405,
-                headers: corsHeaders,
+                headers: { ...corsHeaders, Allow: "GET, PATCH" },
               });
             }
-            const data = (await request.json()) as QueryRequest;
 
-            // If options.ids present, do the lightweight ID lookup summary
-            if (data.options && Array.isArray(data.options.ids)) {
-              const docs = await Promise.all(
-                data.options.ids.map((docId) => brainAgent.getById(docId))
+            const contentType = request.headers.get("Content-Type") || "";
+            const format = contentType.includes("application/merge-patch+json")
+              ? "merge"
+              : contentType.includes("application/json-patch+json")
+              ? "json"
+              : null;
+            if (!format) {
+              return new Response(
+                JSON.stringify(
+                  {
+                    success: false,
+                    message: `Unsupported patch format; use ${PATCH_FORMATS}`,
+                  },
+                  null,
+                  2
+                ),
+                {
+                  status: 415,
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                    "Accept-Patch": PATCH_FORMATS,
+                  },
+                }
               );
-              const topics = docs
-                .filter((d) => d.success && d.data?.metadata)
-                .map((d) => (d.data?.metadata as any)?.topic ?? "Unknown");
+            }
+
+            const ifMatch = parseIfMatch(request);
+            if (ifMatch === null) return malformedIfMatch();
+            const parsed = await parseBody<unknown>(
+              request,
+              format === "merge" ? "MergePatch" : "JsonPatch"
+            );
+            if (!parsed.ok) return validationFailed(parsed.errors);
+
+            const res = await brainAgent.patch(entityId, format, parsed.value, {
+              expectedVersion: ifMatch,
+            });
+            if (res.metadata?.errors) {
+              return validationFailed(res.metadata.errors);
+            }
+            return crudResponse(res);
+          }
+
+          // BACKGROUND JOBS: GET /brain/jobs/:id, POST /brain/jobs/:id/retry
+          case "jobs": {
+            const jobId = subPath ? decodeURIComponent(subPath) : "";
+            const action = parts[3] || "";
+            const isStatus = request.method === "GET" && !action;
+            const isRetry = request.method === "POST" && action === "retry";
 
+            if (!jobId || !(isStatus || isRetry)) {
               return new Response(
                 JSON.stringify(
                   {
-                    success: true,
-                    strategy: "id_lookup",
-                    query: data.query,
-                    answer: topics.length
-                      ? `Topics: ${topics.join(", ")}`
-                      : "No topics found",
-                    sources: data.options.ids,
-                    confidence: 1,
+                    success: false,
+                    message:
+                      "Use GET /brain/jobs/:id or POST /brain/jobs/:id/retry",
                   },
                   null,
                   2
                 ),
                 {
+                  status: 400,
                   headers: {
                     ...corsHeaders,
                     "Content-Type": "application/json",
@@ -214,15 +1154,52 @@ export default {
               );
             }
 
-            const res = await brainAgent.read(data.query, data.options);
-            return new Response(JSON.stringify(res, null, 2), {
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            });
+            if (isStatus) {
+              const job = await brainAgent.getJob(jobId);
+              return new Response(
+                JSON.stringify(
+                  job
+                    ? { success: true, job }
+                    : { success: false, message: `Job ${jobId} not found` },
+                  null,
+                  2
+                ),
+                {
+                  status: job ? 200 : 404,
+                  headers: {
+                    ...corsHeaders,
+                    "Content-Type": "application/json",
+                    "Cache-Control": "no-store",
+                  },
+                }
+              );
+            }
+
+            const retry = await brainAgent.retryJob(jobId);
+            return new Response(
+              JSON.stringify(
+                !retry
+                  ? { success: false, message: `Job ${jobId} not found` }
+                  : retry.retried
+                  ? { success: true, message: "Job requeued", job: retry.job }
+                  : {
+                      success: false,
+                      message: `Only failed jobs can be retried (status: ${retry.job.status})`,
+                      job: retry.job,
+                    },
+                null,
+                2
+              ),
+              {
+                status: !retry ? 404 : retry.retried ? 202 : 409,
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              }
+            );
           }
 
-          // UPDATE
-          case "update": {
-            if (request.method !== "PUT" || !id) {
+          // VERSION HISTORY
+          case "history": {
+            if (request.method !== "GET" || !id) {
               return new Response(
                 JSON.stringify(
                   { success: false, message: "Missing id or wrong method" },
@@ -238,19 +1215,28 @@ export default {
                 }
               );
             }
-            const data = (await request.json()) as Partial<BrainData>;
-            const res = await brainAgent.update(id, data);
-            return new Response(JSON.stringify(res, null, 2), {
+            const res = await brainAgent.getHistory(id);
+            return new Response(JSON.stringify({ id, ...res }, null, 2), {
+              status: res.success ? 200 : 404,
               headers: { ...corsHeaders, "Content-Type": "application/json" },
             });
           }
 
-          // DELETE
-          case "delete": {
-            if (request.method !== "DELETE" || !id) {
+          case "version":
+          case "revert": {
+            const version = Number(url.searchParams.get("v") || NaN);
+            const method = path === "revert" ? "POST" : "GET";
+            if (
+              request.method !== method ||
+              !id ||
+              !Number.isInteger(version)
+            ) {
               return new Response(
                 JSON.stringify(
-                  { success: false, message: "Missing id or wrong method" },
+                  {
+                    success: false,
+                    message: "Missing id, integer v, or wrong method",
+                  },
                   null,
                   2
                 ),
@@ -263,18 +1249,37 @@ export default {
                 }
               );
             }
-            const res = await brainAgent.delete(id);
+            if (path === "revert") {
+              const ifMatch = parseIfMatch(request);
+              if (ifMatch === null) return malformedIfMatch();
+              const res = await brainAgent.revert(id, version, {
+                expectedVersion: ifMatch,
+              });
+              return crudResponse(res);
+            }
+            const res = await brainAgent.getVersion(id, version);
             return new Response(JSON.stringify(res, null, 2), {
               headers: { ...corsHeaders, "Content-Type": "application/json" },
             });
           }
 
-          // GET BY ID
-          case "get": {
-            if (request.method !== "GET" || !id) {
+          case "diff": {
+            const from = Number(url.searchParams.get("from") || NaN);
+            const to = url.searchParams.has("to")
+              ? Number(url.searchParams.get("to"))
+              : undefined;
+            if (
+              request.method !== "GET" ||
+              !id ||
+              !Number.isInteger(from) ||
+              (to !== undefined && !Number.isInteger(to))
+            ) {
               return new Response(
                 JSON.stringify(
-                  { success: false, message: "Missing id or wrong method" },
+                  {
+                    success: false,
+                    message: "Missing id, integer from/to, or wrong method",
+                  },
                   null,
                   2
                 ),
@@ -287,7 +1292,146 @@ export default {
                 }
               );
             }
-            const res = await brainAgent.getById(id);
+            const diff = await brainAgent.diffVersions(id, from, to);
+            return new Response(
+              JSON.stringify(
+                diff
+                  ? { success: true, ...diff }
+                  : { success: false, message: "Entity or version not found" },
+                null,
+                2
+              ),
+              {
+                status: diff ? 200 : 404,
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              }
+            );
+          }
+
+          // ANALYTICS
+          case "analytics": {
+            if (request.method !== "GET") {
+              return new Response("Method not allowed", {
+                status: 405,
+                headers: corsHeaders,
+              });
+            }
+            const rebuild = url.searchParams.get("rebuild") === "true";
+            const res = await brainAgent.getAnalytics(rebuild);
+            return new Response(JSON.stringify(res, null, 2), {
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+                "Cache-Control": "no-store",
+              },
+            });
+          }
+
+          // LIST (filters, sorting, counting; cursor-paged)
+          case "list": {
+            if (request.method !== "GET") {
+              return new Response("Method not allowed", {
+                status: 405,
+                headers: corsHeaders,
+              });
+            }
+            const limit = Number(url.searchParams.get("limit")) || 100;
+            const order = url.searchParams.get("sortOrder");
+            try {
+              const res = await brainAgent.listEntities(
+                {
+                  ...parseEntityFilters(url.searchParams),
+                  limit,
+                  sortBy: url.searchParams.get("sortBy") || undefined,
+                  sortOrder:
+                    order === "asc" || order === "desc" ? order : undefined,
+                  count: url.searchParams.get("count") === "true" || undefined,
+                },
+                url.searchParams.get("cursor") || undefined
+              );
+              return new Response(JSON.stringify(res, null, 2), {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              });
+            } catch (error) {
+              if (!(error instanceof QueryError)) throw error;
+              return validationFailed([
+                { path: error.path, message: error.message },
+              ]);
+            }
+          }
+
+          // SEARCH (metadata conditions, sorting and counting)
+          case "search": {
+            if (request.method !== "POST") {
+              return new Response("Method not allowed", {
+                status: 405,
+                headers: corsHeaders,
+              });
+            }
+            const parsed = await parseBody<EntityQuery>(request, "EntityQuery");
+            if (!parsed.ok) return validationFailed(parsed.errors);
+            const { cursor, ...query } = parsed.value;
+            try {
+              const res = await brainAgent.listEntities(query, cursor);
+              return new Response(JSON.stringify(res, null, 2), {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              });
+            } catch (error) {
+              if (!(error instanceof QueryError)) throw error;
+              return validationFailed([
+                { path: error.path, message: error.message },
+              ]);
+            }
+          }
+
+          // EXPORT
+          case "export": {
+            if (request.method !== "GET") {
+              return new Response("Method not allowed", {
+                status: 405,
+                headers: corsHeaders,
+              });
+            }
+            const format =
+              url.searchParams.get("format") === "ndjson" ? "ndjson" : "json";
+            const chunks = brainAgent.exportData(
+              parseEntityFilters(url.searchParams),
+              format
+            );
+            const encoder = new TextEncoder();
+            const body = new ReadableStream<Uint8Array>({
+              async pull(controller) {
+                const { value, done } = await chunks.next();
+                if (done) controller.close();
+                else controller.enqueue(encoder.encode(value));
+              },
+              async cancel() {
+                await chunks.return(undefined);
+              },
+            });
+            return new Response(body, {
+              headers: {
+                ...corsHeaders,
+                "Content-Type":
+                  format === "ndjson"
+                    ? "application/x-ndjson"
+                    : "application/json",
+                "Content-Disposition": `attachment; filename="brain-export-${Date.now()}.${format}"`,
+              },
+            });
+          }
+
+          // IMPORT
+          case "import": {
+            if (request.method !== "POST") {
+              return new Response("Method not allowed", {
+                status: 405,
+                headers: corsHeaders,
+              });
+            }
+            const parsed = await parseImportBody(request, url.searchParams);
+            if (!parsed.ok) return validationFailed(parsed.errors);
+            const res = await brainAgent.importData(parsed.value);
             return new Response(JSON.stringify(res, null, 2), {
               headers: { ...corsHeaders, "Content-Type": "application/json" },
             });
@@ -297,40 +1441,12 @@ export default {
           case "bulk": {
             // /brain/bulk/create  (POST)
             if (subPath === "create" && request.method === "POST") {
-              const data = (await request.json()) as BulkCreateRequest;
-
-              if (!data || !Array.isArray(data.items)) {
-                return new Response(
-                  JSON.stringify(
-                    { success: false, message: "Invalid items array" },
-                    null,
-                    2
-                  ),
-                  {
-                    status: 400,
-                    headers: {
-                      ...corsHeaders,
-                      "Content-Type": "application/json",
-                    },
-                  }
-                );
-              }
-
-              if (!Array.isArray(data.items)) {
-                return new Response(
-                  JSON.stringify({
-                    success: false,
-                    message: "Invalid items array",
-                  }),
-                  {
-                    status: 400,
-                    headers: {
-                      ...corsHeaders,
-                      "Content-Type": "application/json",
-                    },
-                  }
-                );
-              }
+              const parsed = await parseBody<BulkCreateRequest>(
+                request,
+                "BulkCreateRequest"
+              );
+              if (!parsed.ok) return validationFailed(parsed.errors);
+              const data = parsed.value;
 
               const items: BrainData[] = data.items.map((item) => ({
                 id: String(item.id || crypto.randomUUID()),
@@ -339,7 +1455,27 @@ export default {
                 metadata:
                   typeof item.metadata === "object" ? item.metadata : {},
               }));
-              const res = await brainAgent.bulkCreate(items);
+              const res = await brainAgent.bulkCreate(items, data.options);
+              return new Response(JSON.stringify(res, null, 2), {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              });
+            }
+
+            // /brain/bulk/update  (POST)
+            if (subPath === "update" && request.method === "POST") {
+              const parsed = await parseBody<BulkUpdateRequest>(
+                request,
+                "BulkUpdateRequest"
+              );
+              if (!parsed.ok) return validationFailed(parsed.errors);
+              const data = parsed.value;
+
+              const updates = data.updates.map((u) => ({
+                id: u.id,
+                data: typeof u.data === "object" && u.data ? u.data : {},
+                expectedVersion: u.expectedVersion,
+              }));
+              const res = await brainAgent.bulkUpdate(updates, data.options);
               return new Response(JSON.stringify(res, null, 2), {
                 headers: { ...corsHeaders, "Content-Type": "application/json" },
               });
@@ -347,26 +1483,14 @@ export default {
 
             // /brain/bulk/delete  (POST)
             if (subPath === "delete" && request.method === "POST") {
-              const data = (await request.json()) as BulkDeleteRequest;
-
-              if (!data || !Array.isArray(data.ids)) {
-                return new Response(
-                  JSON.stringify(
-                    { success: false, message: "Invalid ids array" },
-                    null,
-                    2
-                  ),
-                  {
-                    status: 400,
-                    headers: {
-                      ...corsHeaders,
-                      "Content-Type": "application/json",
-                    },
-                  }
-                );
-              }
+              const parsed = await parseBody<BulkDeleteRequest>(
+                request,
+                "BulkDeleteRequest"
+              );
+              if (!parsed.ok) return validationFailed(parsed.errors);
+              const data = parsed.value;
 
-              const res = await brainAgent.bulkDelete(data.ids);
+              const res = await brainAgent.bulkDelete(data.ids, data.options);
               return new Response(JSON.stringify(res, null, 2), {
                 headers: { ...corsHeaders, "Content-Type": "application/json" },
               });
@@ -398,25 +1522,82 @@ export default {
       // ----------------------
       // API documentation
       // ----------------------
+      if (url.pathname === "/docs/openapi.json") {
+        const spec = buildOpenApiDocument(url.origin, API_VERSION);
+        return new Response(JSON.stringify(spec, null, 2), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
       if (url.pathname === "/docs" || url.pathname === "/") {
         const apiDocs = {
           name: "RAG Brain Agent API",
-          version: "2.0.0",
+          version: API_VERSION,
           endpoints: {
             query: "POST /query",
             brain: {
-              create: "POST /brain/create",
+              create:
+                "POST /brain/create  (202 + jobId while indexing in background; ?backgroundIndex=false&skipIndexing=true)",
               write: "POST /brain/write",
+              job: "GET /brain/jobs/:id  (progress, status, error)",
+              retryJob: "POST /brain/jobs/:id/retry  (failed jobs only)",
               read: "POST /brain/read  (alias: POST /brain/query)",
-              update: "PUT /brain/update?id=...",
-              delete: "DELETE /brain/delete?id=...",
+              update:
+                'PUT /brain/update?id=...  (If-Match: "vN" or expectedVersion; 409 if stale)',
+              delete:
+                "DELETE /brain/delete?id=...  (&soft=true moves to trash)",
+              trash: "GET /brain/trash?limit=&cursor=",
+              restore: "POST /brain/restore?id=...  (If-Match; 409 if stale)",
+              purgeTrash:
+                "POST /brain/trash/purge  (?olderThanDays=N&cursor=..., one page per call)",
               get: "GET /brain/get?id=...",
+              patch:
+                "PATCH /brain/entity/:id  (merge-patch+json or json-patch+json; If-Match)",
+              history: "GET /brain/history?id=...",
+              version: "GET /brain/version?id=...&v=N",
+              diff: "GET /brain/diff?id=...&from=N  (&to=M, default current)",
+              revert: "POST /brain/revert?id=...&v=N  (If-Match; 409 if stale)",
               bulkCreate: "POST /brain/bulk/create",
+              bulkUpdate: "POST /brain/bulk/update",
               bulkDelete: "POST /brain/bulk/delete",
+              list: "GET /brain/list?type=&category=&userId=&status=&tags=a,b&sortBy=&sortOrder=&count=&limit=&cursor=",
+              search:
+                'POST /brain/search  ({ "where": [{ "field": "priority", "op": "in", "value": ["high"] }], "sortBy": "updatedAt", "count": true })',
+              export:
+                "GET /brain/export?type=&category=&userId=&tags=a,b&start=&end=&format=json|ndjson",
+              import:
+                "POST /brain/import  (DataImport, DataExport or NDJSON; ?preserveIds=&skipExisting=&updateExisting=)",
+              analytics:
+                "GET /brain/analytics  (?rebuild=true recounts in a job)",
+            },
+            health: "GET /health  (200 healthy or degraded, 503 unhealthy)",
+            admin: {
+              listKeys: "GET /admin/keys",
+              issueKey: "POST /admin/keys",
+              revokeKey: "DELETE /admin/keys?id=...",
+              deleteTenant:
+                "DELETE /admin/tenants?organizationId=...  (202; progress via /brain/jobs/:id)",
+              reindexState: "GET /admin/reindex",
+              reindex:
+                'POST /admin/reindex  ({ "model": "@cf/...", "openai/..." or "hash/384" }; progress via /brain/jobs/:id)',
+              cancelReindex: "DELETE /admin/reindex",
+              rebuildIndexes: "POST /admin/indexes/rebuild",
+              reconcile:
+                "POST /admin/reconcile  (?fix=true repairs; report in the job's metadata.report)",
+              maintenanceReport:
+                "GET /admin/maintenance  (?runId=..., default latest)",
+              runMaintenance:
+                "POST /admin/maintenance  (starts a job; report via GET when done)",
             },
-            health: "GET /health",
             docs: "GET /docs",
+            openapi: "GET /docs/openapi.json",
           },
+          authentication:
+            "Authorization: Bearer <api key> (scopes: read, write, admin)",
+          tenancy:
+            "Data is partitioned per organization; platform admins select one with X-Organization-Id",
+          rateLimits:
+            "Per route and API key (client IP without a valid key); 429 with Retry-After when exceeded, X-RateLimit-* headers on every response",
         };
 
         return new Response(JSON.stringify(apiDocs, null, 2), {
@@ -450,3 +1631,95 @@ export default {
     }
   },
 };
+
+export default {
+  /** Cron trigger: expiry, scheduled publishing, index repair, cache cleanup */
+  async scheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    ctx.waitUntil(
+      runMaintenance(env, { trigger: "cron", cron: controller.cron, ctx })
+    );
+  },
+
+  /**
+   * Background jobs from INDEX_QUEUE: failures are retried by the queue and
+   * long jobs re-enqueue themselves after each step.
+   */
+  async queue(
+    batch: MessageBatch<JobMessage>,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    for (const message of batch.messages) {
+      const { jobId, organizationId } = message.body;
+      const brain = new RAGBrainAgent(env, organizationId, undefined, ctx);
+      const job = await brain.runJob(
+        jobId,
+        message.attempts >= MAX_JOB_ATTEMPTS
+      );
+
+      if (job?.status === "pending") {
+        message.retry({ delaySeconds: 30 * message.attempts });
+        continue;
+      }
+      if (job?.status === "running") {
+        await env.INDEX_QUEUE?.send(message.body);
+      }
+      message.ack();
+    }
+  },
+
+  async fetch(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<Response> {
+    // Authenticate first so callers are limited per key, not per token sent
+    const principal =
+      request.method === "OPTIONS"
+        ? null
+        : await new AuthService(env).authenticate(request);
+    const limiter = new RateLimiter(env);
+    const decision = await limiter.check(request, principal);
+
+    if (decision && !decision.allowed) {
+      console.log(`🚦 Rate limited ${new URL(request.url).pathname}`);
+      return new Response(
+        JSON.stringify(
+          {
+            success: false,
+            message: "Too many requests",
+            retryAfter: Number(limiter.headers(decision)["Retry-After"]),
+          },
+          null,
+          2
+        ),
+        {
+          status: 429,
+          headers: {
+            ...corsHeadersFor(request, env),
+            ...limiter.headers(decision),
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const response = await router.fetch(request, env, ctx, principal);
+    if (!decision) return response;
+
+    ctx.waitUntil(limiter.record(decision, response.status));
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(limiter.headers(decision))) {
+      headers.set(name, value);
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  },
+};
@@ -5,31 +5,32 @@ import {
   QueryResult,
   SearchResult,
   AgentTool,
+  EmbeddingOptions,
 } from "../types";
 import { EmbeddingService } from "./embeddings";
-import { PineconeService } from "./pinecone";
+import { chunkingConfig } from "./chunking";
+import { VectorStore, createVectorStore, pineconeFromEnv } from "./vectors";
 import { StorageService } from "./storage";
 import { CacheService } from "../utils/cache";
 
 export class RAGAgent {
   private embedding: EmbeddingService;
-  private pinecone: PineconeService;
+  private chunking: EmbeddingOptions;
+  private vectors: VectorStore;
   private storage: StorageService;
   private cache: CacheService;
 
   constructor(env: Env) {
     this.embedding = new EmbeddingService(env);
-    this.pinecone = new PineconeService({
-      PINECONE_API_KEY: env.PINECONE_API_KEY,
-      PINECONE_ENVIRONMENT: env.PINECONE_ENVIRONMENT,
-      PINECONE_INDEX_NAME: "conversation-history",
-      PINECONE_INDEX_URL: env.PINECONE_INDEX_URL,
-    });
+    const chunking = chunkingConfig(env);
+    this.chunking = chunking.conversation ?? chunking["*"];
+    // The legacy endpoints have no KV fallback, so default to Pinecone
+    this.vectors = createVectorStore(env) ?? pineconeFromEnv(env);
     this.storage = new StorageService(env);
     this.cache = new CacheService(env);
   }
 
-  /** Store conversation in KV + Pinecone */
+  /** Store conversation in KV + the vector store */
   async write(
     data: ConversationData
   ): Promise<{ success: boolean; message: string }> {
@@ -40,40 +41,32 @@ export class RAGAgent {
       await this.storage.store(data);
       console.log("✅ Stored in KV");
 
-      // Chunk + embed + push into Pinecone
-      const chunks = this.embedding.chunkText(data.content);
+      // Chunk + embed + push into the vector store
+      const chunks = this.embedding.chunkText(data.content, this.chunking);
       console.log("📄 Created chunks:", chunks.length);
 
-      const vectors = await Promise.all(
-        chunks.map(async (chunk, i) => {
-          const chunkId = `${data.id}_chunk_${i}`;
-          console.log(
-            `🧠 Generating embedding for chunk ${i}:`,
-            chunk.substring(0, 100)
-          );
-          const embedding = await this.embedding.generateEmbedding(chunk);
-          console.log(
-            `📊 Embedding dimensions for chunk ${i}:`,
-            embedding.length
-          );
-
-          return {
-            id: chunkId,
-            values: embedding,
-            metadata: {
-              originalId: data.id,
-              content: chunk,
-              chunkIndex: i,
-              totalChunks: chunks.length,
-              ...data.metadata,
-            },
-          };
-        })
+      const embeddings = await this.embedding.generateMultipleEmbeddings(
+        chunks.map((chunk) => chunk.text)
       );
+      console.log("📊 Embedding dimensions:", embeddings[0]?.length);
+
+      const vectors = chunks.map((chunk, i) => ({
+        id: `${data.id}_chunk_${i}`,
+        values: embeddings[i],
+        metadata: {
+          originalId: data.id,
+          content: chunk.text,
+          chunkIndex: i,
+          totalChunks: chunks.length,
+          chunkStart: chunk.start,
+          chunkEnd: chunk.end,
+          ...data.metadata,
+        },
+      }));
 
-      console.log("🚀 Upserting to Pinecone...");
-      await this.pinecone.upsert(vectors);
-      console.log("✅ Successfully stored in Pinecone");
+      console.log(`🚀 Upserting to ${this.vectors.kind}...`);
+      await this.vectors.upsert(vectors);
+      console.log(`✅ Successfully stored in ${this.vectors.kind}`);
 
       return { success: true, message: "Data stored successfully" };
     } catch (error) {
@@ -82,7 +75,7 @@ export class RAGAgent {
     }
   }
 
-  /** Query Pinecone + cache results */
+  /** Query the vector store + cache results */
   async query(query: string, options: QueryOptions = {}): Promise<QueryResult> {
     try {
       const cacheKey = `query:${btoa(query)}:${JSON.stringify(options)}`;
@@ -105,16 +98,16 @@ export class RAGAgent {
         filter.conversationId = options.conversationId;
       console.log("🔧 Filter:", filter);
 
-      // Pinecone search
-      console.log("🎯 Starting Pinecone search...");
-      const searchResult = await this.pinecone.query(queryEmbedding, {
+      // Vector search
+      console.log(`🎯 Starting ${this.vectors.kind} search...`);
+      const searchResult = await this.vectors.query(queryEmbedding, {
         topK: options.limit || 10,
         filter: Object.keys(filter).length ? filter : undefined,
         includeMetadata: true,
       });
 
       console.log(
-        "🎯 Pinecone raw response:",
+        "🎯 Vector store raw response:",
         JSON.stringify(searchResult, null, 2)
       );
       console.log("🎯 Number of matches:", searchResult.matches?.length || 0);
@@ -183,11 +176,11 @@ export class RAGAgent {
     return this.storage.retrieve(id);
   }
 
-  /** Delete from KV + Pinecone */
+  /** Delete from KV + the vector store */
   async delete(id: string): Promise<{ success: boolean; message: string }> {
     try {
       await this.storage.delete(id);
-      await this.pinecone.deleteByFilter({ originalId: id });
+      await this.vectors.deleteByFilter({ originalId: id });
 
       return { success: true, message: "Data deleted successfully" };
     } catch (error) {
@@ -219,8 +212,8 @@ export class RAGAgent {
       // Embed the query
       const queryEmbedding = await this.embedding.generateEmbedding(query);
 
-      // Search Pinecone for matches
-      const searchResult = await this.pinecone.query(queryEmbedding, {
+      // Search the vector store for matches
+      const searchResult = await this.vectors.query(queryEmbedding, {
         topK: 20,
         includeMetadata: true,
       });
@@ -0,0 +1,307 @@
+// src/rag/backends.ts - Key/value stores behind entities, revisions, stats, jobs and cache
+import { Env } from "../types";
+import { D1IndexStore, KVIndexStore, SecondaryIndexStore } from "./indexes";
+
+export type StorageBackendKind = "kv" | "d1" | "memory";
+
+export interface PutOptions {
+  /** Seconds until the key expires (KV rejects anything under 60) */
+  expirationTtl?: number;
+}
+
+/** A page of keys in ascending order; no cursor means the listing is done */
+export interface KeyPage {
+  keys: string[];
+  cursor?: string;
+}
+
+/**
+ * Where the brain keeps its records. Values are opaque strings under
+ * tenant-prefixed keys; every backend also supplies the secondary indexes
+ * that go with it.
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: PutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: {
+    prefix: string;
+    cursor?: string;
+    limit?: number;
+  }): Promise<KeyPage>;
+  /** Secondary indexes for one tenant */
+  indexes(
+    organizationId: string | undefined,
+    tenantPrefix: string
+  ): SecondaryIndexStore;
+}
+
+/** Shared by every agent in the isolate, like KV would be */
+let sharedMemoryBackend: MemoryStorageBackend | null = null;
+
+/**
+ * Backend named by STORAGE_BACKEND ("kv" by default, "d1" or "memory").
+ * "d1" needs the BRAIN_DB binding, and so does "kv" unless ALLOW_KV_INDEXES
+ * accepts indexes and stats counters that concurrent writers can clobber.
+ */
+export function createStorageBackend(env: Env): StorageBackend {
+  const kind = (env.STORAGE_BACKEND || "kv").toLowerCase();
+  switch (kind) {
+    case "kv":
+      if (!env.BRAIN_DB && env.ALLOW_KV_INDEXES !== "true") {
+        throw new Error(
+          'STORAGE_BACKEND "kv" needs the BRAIN_DB binding for its indexes ' +
+            'and stats; set ALLOW_KV_INDEXES = "true" to accept best-effort ' +
+            "KV ones"
+        );
+      }
+      return new KVStorageBackend(env);
+    case "d1":
+      if (!env.BRAIN_DB) {
+        throw new Error(
+          'STORAGE_BACKEND is "d1" but the BRAIN_DB binding is missing'
+        );
+      }
+      return new D1StorageBackend(env.BRAIN_DB);
+    case "memory":
+      sharedMemoryBackend ??= new MemoryStorageBackend();
+      return sharedMemoryBackend;
+    default:
+      throw new Error(
+        `Unknown STORAGE_BACKEND "${env.STORAGE_BACKEND}" (use kv, d1 or memory)`
+      );
+  }
+}
+
+// =====================================================
+// WORKERS KV
+// =====================================================
+
+/**
+ * The original layout. Secondary indexes live in D1 when BRAIN_DB is bound,
+ * since KV's JSON arrays can be clobbered by concurrent writers; the KV
+ * arrays are only used when ALLOW_KV_INDEXES opts in.
+ */
+export class KVStorageBackend implements StorageBackend {
+  readonly kind = "kv";
+
+  constructor(private env: Env) {}
+
+  get(key: string): Promise<string | null> {
+    return this.env.RAG_CACHE.get(key);
+  }
+
+  put(key: string, value: string, options?: PutOptions): Promise<void> {
+    return this.env.RAG_CACHE.put(key, value, options);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.env.RAG_CACHE.delete(key);
+  }
+
+  async list(options: {
+    prefix: string;
+    cursor?: string;
+    limit?: number;
+  }): Promise<KeyPage> {
+    const page = await this.env.RAG_CACHE.list(options);
+    return {
+      keys: page.keys.map((key) => key.name),
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  }
+
+  indexes(
+    organizationId: string | undefined,
+    tenantPrefix: string
+  ): SecondaryIndexStore {
+    return this.env.BRAIN_DB
+      ? new D1IndexStore(this.env.BRAIN_DB, organizationId ?? "")
+      : new KVIndexStore(this, tenantPrefix);
+  }
+}
+
+// =====================================================
+// D1
+// =====================================================
+
+/** Applied once per database; mirrors migrations/0003_kv_store.sql */
+const D1_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS kv_store (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    expires_at INTEGER
+  )`,
+];
+
+const schemaReady = new WeakMap<D1Database, Promise<unknown>>();
+
+/** Smallest string after every key that starts with `prefix` */
+function prefixEnd(prefix: string): string | null {
+  if (!prefix) return null;
+  const last = prefix.charCodeAt(prefix.length - 1);
+  return prefix.slice(0, -1) + String.fromCharCode(last + 1);
+}
+
+/**
+ * Every key in one table, so writes are immediately visible everywhere
+ * (KV takes up to a minute). Expired rows are hidden from reads and cleared
+ * when a listing starts.
+ */
+export class D1StorageBackend implements StorageBackend {
+  readonly kind = "d1";
+
+  constructor(private db: D1Database) {}
+
+  private ready(): Promise<unknown> {
+    let ready = schemaReady.get(this.db);
+    if (!ready) {
+      ready = this.db
+        .batch(D1_SCHEMA.map((sql) => this.db.prepare(sql)))
+        .catch((error) => {
+          schemaReady.delete(this.db);
+          throw error;
+        });
+      schemaReady.set(this.db, ready);
+    }
+    return ready;
+  }
+
+  async get(key: string): Promise<string | null> {
+    await this.ready();
+    const row = await this.db
+      .prepare(
+        "SELECT value FROM kv_store WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)"
+      )
+      .bind(key, Date.now())
+      .first<{ value: string }>();
+    return row?.value ?? null;
+  }
+
+  async put(key: string, value: string, options?: PutOptions): Promise<void> {
+    await this.ready();
+    const expiresAt = options?.expirationTtl
+      ? Date.now() + options.expirationTtl * 1000
+      : null;
+    await this.db
+      .prepare(
+        `INSERT INTO kv_store (key, value, expires_at) VALUES (?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET
+           value = excluded.value, expires_at = excluded.expires_at`
+      )
+      .bind(key, value, expiresAt)
+      .run();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ready();
+    await this.db.prepare("DELETE FROM kv_store WHERE key = ?").bind(key).run();
+  }
+
+  async list(options: {
+    prefix: string;
+    cursor?: string;
+    limit?: number;
+  }): Promise<KeyPage> {
+    await this.ready();
+    const limit = options.limit ?? 1000;
+    const end = prefixEnd(options.prefix);
+    const range = end ? "key >= ? AND key < ?" : "key >= ?";
+    const bounds = end ? [options.prefix, end] : [options.prefix];
+    const now = Date.now();
+
+    if (!options.cursor) {
+      await this.db
+        .prepare(`DELETE FROM kv_store WHERE ${range} AND expires_at <= ?`)
+        .bind(...bounds, now)
+        .run();
+    }
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT key FROM kv_store
+         WHERE ${range} AND key > ? AND (expires_at IS NULL OR expires_at > ?)
+         ORDER BY key LIMIT ?`
+      )
+      .bind(...bounds, options.cursor ?? "", now, limit + 1)
+      .all<{ key: string }>();
+
+    const keys = results.slice(0, limit).map((row) => row.key);
+    return {
+      keys,
+      cursor: results.length > limit ? keys[keys.length - 1] : undefined,
+    };
+  }
+
+  indexes(organizationId: string | undefined): SecondaryIndexStore {
+    return new D1IndexStore(this.db, organizationId ?? "");
+  }
+}
+
+// =====================================================
+// IN-MEMORY (tests, local dev)
+// =====================================================
+
+/**
+ * A sorted-on-demand map in this process. Nothing persists and nothing is
+ * shared between isolates, so it only suits tests and single-process runs.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly kind = "memory";
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(key: string, value: string, options?: PutOptions): Promise<void> {
+    this.entries.set(key, {
+      value,
+      expiresAt: options?.expirationTtl
+        ? Date.now() + options.expirationTtl * 1000
+        : undefined,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options: {
+    prefix: string;
+    cursor?: string;
+    limit?: number;
+  }): Promise<KeyPage> {
+    const limit = options.limit ?? 1000;
+    const now = Date.now();
+    const matching = [...this.entries]
+      .filter(
+        ([key, entry]) =>
+          key.startsWith(options.prefix) &&
+          (!options.cursor || key > options.cursor) &&
+          !(entry.expiresAt && entry.expiresAt <= now)
+      )
+      .map(([key]) => key)
+      .sort();
+
+    const keys = matching.slice(0, limit);
+    return {
+      keys,
+      cursor: matching.length > limit ? keys[keys.length - 1] : undefined,
+    };
+  }
+
+  indexes(
+    _organizationId: string | undefined,
+    tenantPrefix: string
+  ): SecondaryIndexStore {
+    return new KVIndexStore(this, tenantPrefix);
+  }
+}
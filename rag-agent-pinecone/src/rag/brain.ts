@@ -1,6 +1,6 @@
-// src/rag/brain.ts - Enhanced RAG Brain Agent (hybrid: Pinecone or KV-only)
+// src/rag/brain.ts - Enhanced RAG Brain Agent (hybrid: vector store or KV-only)
 // - Full CRUD
-// - Semantic search (Pinecone if configured, otherwise in-memory cosine search)
+// - Semantic search (vector store if configured, otherwise in-memory cosine search)
 // - Chunked indexing, caching, analytics, bulk ops
 
 import {
@@ -13,97 +13,299 @@ import {
   BrainData,
   BrainQueryOptions,
   BrainEntity,
+  BrainMetadata,
   CRUDResult,
+  BatchResult,
+  BrainAnalytics,
+  CreateRequest,
+  UpdateRequest,
+  BulkCreateRequest,
+  BulkUpdateRequest,
+  BulkDeleteRequest,
+  DataExport,
+  DataImport,
+  EntityFilters,
+  EntityQuery,
+  EntityRevision,
+  VersionDiff,
+  HealthCheck,
+  ProbeResult,
+  JobStatus,
+  VectorIndexState,
+  MaintenanceReport,
+  TenantMaintenanceReport,
+  ConsistencyIssue,
+  ConsistencyReport,
+  EmbeddingOptions,
 } from "../types";
-import { EmbeddingService } from "./embeddings";
-import { StorageService } from "./storage";
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  EmbeddingService,
+  defaultEmbeddingModel,
+} from "./embeddings";
+import { TextChunk, chunkingConfig } from "./chunking";
+import { StorageService, isTrashed, tenantKeyPrefix } from "./storage";
+import { StorageBackend, createStorageBackend } from "./backends";
+import { JobService, MAX_JOB_ATTEMPTS } from "./jobs";
 import { CacheService } from "../utils/cache";
-
-// Optional Pinecone import; guard all calls if it's not configured
-// If you don't have this file, keep the import and mode will fall back automatically.
-import { PineconeService } from "./pinecone";
+import { diffFields, diffLines } from "../utils/diff";
+import {
+  JsonPatchOperation,
+  PatchError,
+  applyJsonPatch,
+  applyMergePatch,
+} from "../utils/patch";
+import { FieldError, validate } from "../utils/validation";
+import { schemas } from "../types/schemas";
+
+// Vector store is optional; guard all calls if it's not configured
+import {
+  VectorDeleteResult,
+  VectorRecord,
+  VectorStore,
+  cosineSimilarity,
+  createVectorStore,
+} from "./vectors";
 
 // ---------- utils ----------
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length || a.length === 0) return 0;
-  let dot = 0;
-  let na = 0;
-  let nb = 0;
-  for (let i = 0; i < a.length; i++) {
-    const x = a[i];
-    const y = b[i];
-    dot += x * y;
-    na += x * x;
-    nb += y * y;
-  }
-  const denom = Math.sqrt(na) * Math.sqrt(nb);
-  return denom === 0 ? 0 : dot / denom;
+/** Metadata owned by the storage and indexing layers, never taken from clients */
+const SYSTEM_METADATA_KEYS = [
+  "createdAt",
+  "updatedAt",
+  "version",
+  "previousVersion",
+  "embedding",
+  "indexed",
+  "indexedAt",
+  "indexError",
+  "createdBy",
+  "updatedBy",
+  "revertedFrom",
+  "embeddingModel",
+  "embeddingProvider",
+  "embeddingDimensions",
+  "storedAt",
+  "storageKey",
+  "size",
+  "deletedAt",
+  "statusBeforeDelete",
+];
+
+/** Vector metadata that belongs to a chunk rather than to its entity */
+const CHUNK_METADATA_KEYS = [
+  "content",
+  "chunkIndex",
+  "totalChunks",
+  "chunkStart",
+  "chunkEnd",
+  "embeddingModel",
+  "embeddingProvider",
+  "embeddingDimensions",
+];
+
+/** The client-editable part of an entity after an update or patch */
+interface EntityChange {
+  content: string;
+  type: string;
+  metadata: BrainMetadata;
+  /** Set when the change restores an older version */
+  revertedFrom?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 25;
+const MAX_CREATE_BATCH_SIZE = 100; // items stored before one embedding pass
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_PURGE_BATCH = 100; // trashed entities hard-deleted per page
+const EXPORT_FORMAT_VERSION = "1.0";
+const HEALTH_PROBE_TIMEOUT_MS = 3000;
+const HEALTH_CACHE_MS = 5000; // public probes reuse a recent result
+const REINDEX_PAGE_SIZE = 50;
+const RECONCILE_PAGE_SIZE = 50;
+const MAX_PREFILTER_IDS = 1000; // beyond this, vector metadata filters instead
+const SEMANTIC_GENERATION_KEY = "semantic-generation";
+const MAX_REPORTED_ISSUES = 200;
+const VECTOR_FETCH_BATCH = 100;
+
+/** Recent health results per tenant, shared by requests in this isolate */
+const healthResults = new Map<
+  string,
+  { expiresAt: number; result: Promise<HealthCheck> }
+>();
+
+/** One run of a job; unfinished jobs continue from the returned metadata */
+interface JobStep {
+  done: boolean;
+  progress?: number;
+  metadata?: Record<string, any>;
+}
+
+/** Where a tenant's maintenance is; each phase pages with its own cursor */
+type MaintenancePhase = "scan" | "indexes" | "cache" | "trash" | "done";
+
+/** An entity split into the chunks that become its vectors */
+interface ChunkedEntity {
+  entity: BrainEntity;
+  chunks: TextChunk[];
+}
+
+/** Run a dependency probe with a deadline, reporting latency either way */
+async function runProbe(
+  probe: () => Promise<string | void>,
+  timeoutMs: number
+): Promise<ProbeResult> {
+  const start = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const detail = await Promise.race([
+      probe(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+          timeoutMs
+        );
+      }),
+    ]);
+    return {
+      status: "ok",
+      latency: Date.now() - start,
+      ...(detail ? { detail } : {}),
+    };
+  } catch (error) {
+    return {
+      status: "error",
+      latency: Date.now() - start,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Fold per-item results into a BatchResult; `labels` name each item in errors */
+function summarizeBatch(
+  operation: string,
+  results: CRUDResult[],
+  labels: string[]
+): BatchResult {
+  const errors: string[] = [];
+  results.forEach((r, i) => {
+    if (!r.success) errors.push(`${labels[i] ?? i}: ${r.message}`);
+  });
+  const successful = results.length - errors.length;
+
+  return {
+    success: errors.length === 0,
+    message: `Bulk ${operation}: ${successful}/${results.length} succeeded`,
+    results,
+    summary: {
+      total: results.length,
+      successful,
+      failed: errors.length,
+      errors,
+    },
+  };
 }
 
-function hasPinecone(env: Env): boolean {
-  return Boolean(env.PINECONE_API_KEY && env.PINECONE_INDEX_URL);
+/** Stores injected into RAGBrainAgent in place of the configured ones */
+export interface BrainServices {
+  storage?: StorageBackend;
+  /** null turns vector search off (KV doc-level search only) */
+  vectors?: VectorStore | null;
 }
 
 export class RAGBrainAgent {
-  private embedding: EmbeddingService;
   private storage: StorageService;
   private cache: CacheService;
-  private pinecone?: PineconeService; // only if configured
-
-  constructor(private env: Env) {
-    this.embedding = new EmbeddingService(env);
-    this.storage = new StorageService(env);
-    this.cache = new CacheService(env);
-
-    if (hasPinecone(env)) {
-      this.pinecone = new PineconeService({
-        PINECONE_API_KEY: env.PINECONE_API_KEY,
-        PINECONE_ENVIRONMENT: env.PINECONE_ENVIRONMENT,
-        PINECONE_INDEX_NAME: "conversation-history",
-        PINECONE_INDEX_URL: env.PINECONE_INDEX_URL,
-      });
-    }
+  private jobs: JobService;
+  private vectorStore: VectorStore | null; // null: KV doc-level search only
+  private namespace?: string; // the tenant's original vector namespace
+  private indexState?: Promise<VectorIndexState>;
+  private embedders = new Map<string, EmbeddingService>();
+  private chunking: Record<string, EmbeddingOptions>; // per entity type
+
+  /**
+   * @param organizationId Tenant to operate in (from the caller's API key).
+   * Entities, indexes, stats and cache live under a per-organization key
+   * prefix and vectors in a per-organization vector namespace. Unset means
+   * the default tenant (unprefixed keys, default namespace).
+   * @param actor API key id recorded as createdBy/updatedBy on writes
+   * @param ctx Keeps in-process background jobs alive when no queue is bound
+   * @param services Stores to use instead of the configured ones
+   * (STORAGE_BACKEND, VECTOR_STORE), e.g. in-memory ones to run offline
+   */
+  constructor(
+    private env: Env,
+    private organizationId?: string,
+    private actor?: string,
+    private ctx?: ExecutionContext,
+    private services: BrainServices = {}
+  ) {
+    const backend = services.storage ?? createStorageBackend(env);
+    this.chunking = chunkingConfig(env);
+    this.storage = new StorageService(env, organizationId, backend);
+    this.cache = new CacheService(
+      env,
+      tenantKeyPrefix(organizationId),
+      backend
+    );
+    this.jobs = new JobService(env, organizationId, backend);
+    this.vectorStore =
+      services.vectors !== undefined
+        ? services.vectors
+        : createVectorStore(env);
+    this.namespace = organizationId;
   }
 
   // =====================================================
   // ENHANCED CRUD OPERATIONS
   // =====================================================
 
-  /** CREATE - Store any type of data with intelligent indexing */
-  async create(data: BrainData): Promise<CRUDResult> {
+  /**
+   * CREATE - Store any type of data with intelligent indexing. Indexing runs
+   * as a background job unless disabled (options or BACKGROUND_INDEXING).
+   */
+  async create(
+    data: BrainData,
+    options: CreateRequest["options"] = {}
+  ): Promise<CRUDResult> {
     try {
       console.log("🧠 BRAIN CREATE:", data.id, "Type:", data.type);
 
-      if (!data.id || !data.content || !data.type) {
-        return {
-          success: false,
-          message: "Missing required fields: id, content, type",
-          data: null,
-        };
-      }
+      const invalid = this.validateCreate(data);
+      if (invalid) return invalid;
 
-      const enrichedData: BrainEntity = {
-        ...data,
-        metadata: {
-          ...data.metadata,
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-          version: 1,
-          indexed: false,
-        },
-      };
+      const enrichedData = this.enrichNew(data);
 
-      await this.storage.storeBrainData(enrichedData);
+      const conflict = await this.storeNew(enrichedData);
+      if (conflict) return conflict;
       console.log("✅ Stored in KV");
 
-      await this.indexContent(enrichedData);
+      const background =
+        !options.skipIndexing &&
+        (options.backgroundIndex ?? this.env.BACKGROUND_INDEXING !== "false");
+
+      let job: JobStatus | undefined;
+      if (background) {
+        job = await this.startJob("indexing", {
+          entityId: enrichedData.id,
+          version: enrichedData.metadata.version,
+        });
+      } else if (!options.skipIndexing) {
+        await this.indexContent(enrichedData);
+      }
       await this.clearRelatedCaches(data.type, data.metadata?.category);
 
       return {
         success: true,
-        message: "Data created and indexed successfully",
+        message: options.skipIndexing
+          ? "Data created (indexing skipped)"
+          : job
+          ? "Data created; indexing in background"
+          : "Data created and indexed successfully",
         data: enrichedData,
+        metadata: { operation: "create", ...(job && { jobId: job.id }) },
       };
     } catch (error) {
       console.error("❌ Brain CREATE error:", error);
@@ -116,6 +318,69 @@ export class RAGBrainAgent {
     }
   }
 
+  private validateCreate(data: BrainData): CRUDResult | null {
+    if (!data.id || !data.content || !data.type) {
+      return {
+        success: false,
+        message: "Missing required fields: id, content, type",
+        data: null,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Store a new entity unless its id is taken (trash included): creating
+   * over it would restart its version at 1 and overwrite its history.
+   * Returns the 409-style result when it is.
+   */
+  private async storeNew(entity: BrainEntity): Promise<CRUDResult | null> {
+    return this.storage.withEntityLock(entity.id, async () => {
+      const existing = await this.storage.retrieveBrainData(entity.id);
+      if (existing) {
+        return {
+          success: false,
+          message: `Data with ID ${entity.id} already exists${
+            isTrashed(existing) ? " (in the trash)" : ""
+          }; update it instead`,
+          data: isTrashed(existing) ? null : existing,
+          metadata: {
+            operation: "create",
+            conflict: true,
+            version: existing.metadata.version,
+          },
+        };
+      }
+      await this.storage.storeBrainData(entity);
+      return null;
+    });
+  }
+
+  /** Attach system-managed fields to a brand new entity */
+  private enrichNew(data: BrainData): BrainEntity {
+    return {
+      ...data,
+      metadata: {
+        ...this.stampOrganization(data.metadata),
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        version: 1,
+        indexed: false,
+        createdBy: this.actor,
+        updatedBy: this.actor,
+      },
+    };
+  }
+
+  /** Entities always carry the tenant they are stored under */
+  private stampOrganization(
+    metadata: BrainData["metadata"]
+  ): BrainData["metadata"] {
+    return this.organizationId
+      ? { ...metadata, organizationId: this.organizationId }
+      : { ...metadata };
+  }
+
   /** GET BY ID - exact fetch from KV */
   async getById(id: string): Promise<CRUDResult> {
     try {
@@ -127,6 +392,13 @@ export class RAGBrainAgent {
           data: null,
         };
       }
+      if (isTrashed(entity)) {
+        return {
+          success: false,
+          message: `Data with ID ${id} is in the trash`,
+          data: null,
+        };
+      }
       return {
         success: true,
         message: "Data retrieved successfully",
@@ -152,7 +424,7 @@ export class RAGBrainAgent {
       // Strategy 1: Direct ID
       if (typeof query === "object" && query.id) {
         const direct = await this.storage.retrieveBrainData(query.id);
-        if (direct) {
+        if (direct && !isTrashed(direct)) {
           return {
             answer: `Found direct match for ID: ${query.id}`,
             sources: [
@@ -171,7 +443,7 @@ export class RAGBrainAgent {
 
       // Strategy 2: Type filter
       if (typeof query === "object" && query.type) {
-        const typeResults = await this.storage.listByType(
+        const { entities: typeResults } = await this.storage.listByType(
           query.type,
           options.limit || 10
         );
@@ -208,40 +480,154 @@ export class RAGBrainAgent {
     }
   }
 
-  /** UPDATE - Modify existing data with versioning */
-  async update(id: string, updates: Partial<BrainData>): Promise<CRUDResult> {
-    try {
-      console.log("🧠 BRAIN UPDATE:", id);
-      const existing = await this.storage.retrieveBrainData(id);
-      if (!existing) {
-        return {
-          success: false,
-          message: `Data with ID ${id} not found`,
-          data: null,
-        };
-      }
-
-      const updatedData: BrainEntity = {
-        ...existing,
-        ...updates,
-        id,
+  /**
+   * UPDATE - Modify existing data with versioning. With `expectedVersion`
+   * the write only happens if that is still the current version.
+   */
+  async update(
+    id: string,
+    updates: Partial<BrainData>,
+    options: UpdateRequest["options"] &
+      Pick<UpdateRequest, "expectedVersion"> = {}
+  ): Promise<CRUDResult> {
+    console.log("🧠 BRAIN UPDATE:", id);
+
+    return this.commitChange(
+      id,
+      (existing) => ({
+        content: updates.content ?? existing.content,
+        type: updates.type ?? existing.type,
         metadata: {
           ...existing.metadata,
-          ...updates.metadata,
-          updatedAt: Date.now(),
-          version: (existing.metadata?.version || 1) + 1,
-          previousVersion: existing.metadata?.version || 1,
+          ...this.stripSystemMetadata(updates.metadata),
         },
-      };
+      }),
+      options
+    );
+  }
+
+  /**
+   * PATCH - RFC 7396 merge patch ("merge") or RFC 6902 JSON Patch ("json")
+   * applied to { content, type, metadata }. System metadata can't be patched.
+   */
+  async patch(
+    id: string,
+    format: "merge" | "json",
+    patch: unknown,
+    options: Pick<UpdateRequest, "expectedVersion"> = {}
+  ): Promise<CRUDResult> {
+    console.log("🧠 BRAIN PATCH:", id, format);
+
+    return this.commitChange(
+      id,
+      (existing) => {
+        const document = {
+          content: existing.content,
+          type: existing.type,
+          metadata: this.stripSystemMetadata(existing.metadata),
+        };
+
+        let patched: any;
+        try {
+          patched =
+            format === "merge"
+              ? applyMergePatch(document, patch)
+              : applyJsonPatch(document, patch as JsonPatchOperation[]);
+        } catch (error) {
+          if (!(error instanceof PatchError)) throw error;
+          return this.invalidPatch([
+            { path: error.path, message: error.message },
+          ]);
+        }
+
+        const errors = validate(patched, schemas.BrainDataUpdate);
+        for (const field of ["content", "type"]) {
+          if (patched?.[field] === undefined) {
+            errors.push({ path: `/${field}`, message: "Cannot be removed" });
+          }
+        }
+        for (const key of Object.keys(patched?.metadata ?? {})) {
+          if (SYSTEM_METADATA_KEYS.includes(key)) {
+            errors.push({
+              path: `/metadata/${key}`,
+              message: "Managed by the system",
+            });
+          }
+        }
+        if (errors.length) {
+          return this.invalidPatch(
+            errors.map((e) => ({
+              ...e,
+              message: `Patched entity: ${e.message}`,
+            }))
+          );
+        }
 
-      await this.storage.storeBrainData(updatedData);
+        const system = Object.fromEntries(
+          Object.entries(existing.metadata).filter(([key]) =>
+            SYSTEM_METADATA_KEYS.includes(key)
+          )
+        );
+        return {
+          content: patched.content,
+          type: patched.type,
+          metadata: { ...patched.metadata, ...system },
+        };
+      },
+      options
+    );
+  }
+
+  private invalidPatch(errors: FieldError[]): CRUDResult {
+    return {
+      success: false,
+      message: "Patch could not be applied",
+      data: null,
+      metadata: { errors },
+    };
+  }
+
+  /**
+   * Shared write path for update and patch: build the next state under the
+   * entity lock, then re-index on content change (or refresh the vectors'
+   * metadata when only indexed fields changed) and clear caches for both
+   * the old and new type/category.
+   */
+  private async commitChange(
+    id: string,
+    change: (existing: BrainEntity) => EntityChange | CRUDResult,
+    options: UpdateRequest["options"] &
+      Pick<UpdateRequest, "expectedVersion"> & { restore?: boolean } = {}
+  ): Promise<CRUDResult> {
+    try {
+      const outcome = await this.storage.withEntityLock(id, () =>
+        this.writeUpdate(
+          id,
+          change,
+          options.expectedVersion,
+          Boolean(options.restore)
+        )
+      );
+      if ("success" in outcome) return outcome;
+      const { existing, updatedData } = outcome;
 
-      if (updates.content && updates.content !== existing.content) {
-        console.log("📝 Content changed, re-indexing...");
+      const contentChanged = updatedData.content !== existing.content;
+      if (contentChanged || options.reindex) {
+        console.log(
+          contentChanged
+            ? "📝 Content changed, re-indexing..."
+            : "📝 Re-index requested..."
+        );
         await this.deleteFromIndex(id);
         await this.indexContent(updatedData);
+      } else if (this.vectorFieldsChanged(existing, updatedData)) {
+        await this.refreshVectorMetadata(updatedData).catch((error) =>
+          // Reconcile finds and repairs vectors left behind
+          console.error(`❌ Vector metadata refresh failed for ${id}:`, error)
+        );
       }
 
+      await this.clearRelatedCaches(existing.type, existing.metadata?.category);
       await this.clearRelatedCaches(
         updatedData.type,
         updatedData.metadata?.category
@@ -250,6 +636,10 @@ export class RAGBrainAgent {
         success: true,
         message: "Data updated successfully",
         data: updatedData,
+        metadata: {
+          operation: "update",
+          version: updatedData.metadata.version,
+        },
       };
     } catch (error) {
       console.error("❌ Brain UPDATE error:", error);
@@ -262,12 +652,180 @@ export class RAGBrainAgent {
     }
   }
 
-  /** DELETE - Remove data from all storage layers */
-  async delete(id: string): Promise<CRUDResult> {
+  /**
+   * Read, check and store one change; callers hold the entity lock. Only a
+   * restore may (and must) start from a trashed entity.
+   */
+  private async writeUpdate(
+    id: string,
+    change: (existing: BrainEntity) => EntityChange | CRUDResult,
+    expectedVersion?: number,
+    restore = false
+  ): Promise<CRUDResult | { existing: BrainEntity; updatedData: BrainEntity }> {
+    const existing = await this.storage.retrieveBrainData(id);
+    if (!existing) {
+      return {
+        success: false,
+        message: `Data with ID ${id} not found`,
+        data: null,
+      };
+    }
+    const conflict = this.versionConflict(existing, expectedVersion);
+    if (conflict) return conflict;
+    if (isTrashed(existing) !== restore) {
+      return {
+        success: false,
+        message: restore
+          ? `Data with ID ${id} is not in the trash`
+          : `Data with ID ${id} is in the trash; restore it first`,
+        data: null,
+      };
+    }
+
+    const next = change(existing);
+    if ("success" in next) return next;
+    if (next.metadata?.status === "deleted") {
+      return {
+        success: false,
+        message: "Entities are moved to the trash with DELETE",
+        data: null,
+        metadata: {
+          errors: [
+            { path: "/metadata/status", message: "Use DELETE to trash" },
+          ],
+        },
+      };
+    }
+
+    const updatedData: BrainEntity = {
+      ...existing,
+      id,
+      content: next.content,
+      type: next.type,
+      metadata: {
+        ...next.metadata,
+        // An entity never moves between organizations
+        ...(this.organizationId && {
+          organizationId: existing.metadata?.organizationId,
+        }),
+        createdAt: existing.metadata.createdAt,
+        updatedAt: Date.now(),
+        updatedBy: this.actor,
+        version: (existing.metadata?.version || 1) + 1,
+        previousVersion: existing.metadata?.version || 1,
+        revertedFrom: next.revertedFrom,
+      },
+    };
+
+    await this.storage.storeBrainData(updatedData);
+    return { existing, updatedData };
+  }
+
+  /** A 409-style result carrying the current entity, or null if not stale */
+  private versionConflict(
+    current: BrainEntity,
+    expectedVersion?: number
+  ): CRUDResult | null {
+    if (
+      expectedVersion === undefined ||
+      current.metadata.version === expectedVersion
+    ) {
+      return null;
+    }
+    return {
+      success: false,
+      message: `Version conflict: expected ${expectedVersion}, current is ${current.metadata.version}`,
+      data: current,
+      metadata: { conflict: true, version: current.metadata.version },
+    };
+  }
+
+  /**
+   * DELETE - Remove data from all storage layers, or move it to the trash.
+   * With `expectedVersion` nothing happens unless that version is current.
+   */
+  async delete(
+    id: string,
+    options: { softDelete?: boolean; expectedVersion?: number } = {}
+  ): Promise<CRUDResult> {
+    return this.storage.withEntityLock(id, () =>
+      this.removeEntity(id, options)
+    );
+  }
+
+  private async removeEntity(
+    id: string,
+    options: { softDelete?: boolean; expectedVersion?: number }
+  ): Promise<CRUDResult> {
     try {
-      console.log("🧠 BRAIN DELETE:", id);
+      console.log("🧠 BRAIN DELETE:", id, options.softDelete ? "(soft)" : "");
 
       const existing = await this.storage.retrieveBrainData(id);
+
+      if (options.expectedVersion !== undefined) {
+        if (!existing) {
+          return {
+            success: false,
+            message: `Data with ID ${id} not found`,
+            data: null,
+          };
+        }
+        const conflict = this.versionConflict(
+          existing,
+          options.expectedVersion
+        );
+        if (conflict) return conflict;
+      }
+
+      if (options.softDelete) {
+        if (!existing) {
+          return {
+            success: false,
+            message: `Data with ID ${id} not found`,
+            data: null,
+          };
+        }
+        if (isTrashed(existing)) {
+          return {
+            success: true,
+            message: "Data is already in the trash",
+            data: existing,
+            metadata: { operation: "delete", softDelete: true },
+          };
+        }
+
+        // Keep the KV record (and its embedding) but drop the vectors so
+        // semantic search can't surface it until restored. A new version, so
+        // writes based on the live entity fail once it is restored.
+        const deletedAt = Date.now();
+        const trashed: BrainEntity = {
+          ...existing,
+          metadata: {
+            ...existing.metadata,
+            status: "deleted",
+            statusBeforeDelete: existing.metadata?.status,
+            deletedAt,
+            updatedAt: deletedAt,
+            updatedBy: this.actor,
+            version: (existing.metadata?.version || 1) + 1,
+            previousVersion: existing.metadata?.version || 1,
+          },
+        };
+        await this.storage.storeBrainData(trashed);
+        await this.deleteFromIndex(id);
+        await this.clearRelatedCaches(
+          existing.type,
+          existing.metadata?.category
+        );
+
+        return {
+          success: true,
+          message: "Data moved to trash",
+          data: trashed,
+          metadata: { operation: "delete", softDelete: true },
+        };
+      }
+
       await this.storage.deleteBrainData(id);
       await this.deleteFromIndex(id);
 
@@ -295,125 +853,833 @@ export class RAGBrainAgent {
   }
 
   // =====================================================
-  // INTELLIGENT SEARCH & ANALYSIS
+  // VERSION HISTORY
   // =====================================================
 
-  /** Hybrid semantic search: Pinecone (if available) OR KV-only cosine search */
-  private async semanticSearch(
-    query: string,
-    options: BrainQueryOptions
-  ): Promise<QueryResult> {
-    const cacheKey = `semantic:${btoa(query)}:${JSON.stringify(options)}`;
-    const cached = await this.cache.get<QueryResult>(cacheKey);
-    if (cached) {
-      console.log("💾 Returning cached semantic search");
-      return { ...cached, strategy: "cached_semantic" };
+  /** List every kept version plus the current one, oldest first */
+  async getHistory(id: string): Promise<{
+    success: boolean;
+    message?: string;
+    versions: EntityRevision[];
+  }> {
+    const current = await this.storage.retrieveBrainData(id);
+    if (!current) {
+      return {
+        success: false,
+        message: `Data with ID ${id} not found`,
+        versions: [],
+      };
     }
 
-    // 1) Build query embedding
-    const queryEmbedding = await this.embedding.generateEmbedding(query);
-
-    // 2) If Pinecone is configured, use it
-    if (this.pinecone) {
-      const filter: Record<string, any> = {};
-      if (options.type) filter.type = options.type;
-      if (options.category) filter.category = options.category;
-      if (options.userId) filter.userId = options.userId;
-      if (options.dateRange) {
-        filter.createdAt = {
-          $gte: options.dateRange.start,
-          $lte: options.dateRange.end,
-        };
-      }
-
-      const searchResult = await this.pinecone.query(queryEmbedding, {
-        topK: options.limit || 10,
-        filter: Object.keys(filter).length ? filter : undefined,
-        includeMetadata: true,
-      });
-
-      const threshold = options.threshold ?? 0.3;
-      const sources: SearchResult[] = (searchResult.matches || [])
-        .filter((m: any) => m.score >= threshold)
-        .map((m: any) => ({
-          id: m.metadata?.originalId || m.id,
-          content: m.metadata?.content || "",
-          score: m.score,
-          metadata: options.includeMetadata ? m.metadata : undefined,
-        }));
-
-      const answer = await this.generateIntelligentAnswer(
-        query,
-        sources,
-        options
-      );
+    const revisions = await this.storage.listRevisions(id);
+    return {
+      success: true,
+      versions: [
+        ...revisions.map((r) => this.describeRevision(r, false)),
+        this.describeRevision(current, true),
+      ],
+    };
+  }
 
-      const result: QueryResult = {
-        answer,
-        sources,
-        confidence: sources[0]?.score ?? 0,
-        strategy: "semantic_search_pinecone",
-        metadata: {
-          totalMatches: searchResult.matches?.length || 0,
-          filteredMatches: sources.length,
-          threshold,
-          processingTime: Date.now(),
-        },
+  /** GET VERSION - one past (or the current) version of an entity */
+  async getVersion(id: string, version: number): Promise<CRUDResult> {
+    const current = await this.storage.retrieveBrainData(id);
+    const entity = current && (await this.findVersion(current, version));
+    if (!entity) {
+      return {
+        success: false,
+        message: `Version ${version} of ${id} not found`,
+        data: null,
       };
-
-      await this.cache.set(cacheKey, result, 300);
-      return result;
     }
+    return {
+      success: true,
+      message: "Version retrieved successfully",
+      data: entity,
+      metadata: { operation: "read", version },
+    };
+  }
 
-    // 3) KV-only fallback: fetch candidates & compute cosine similarity
-    console.log("🧩 Pinecone not configured — using KV-only semantic search");
-    const candidates = await this.storage.getEntities({
-      type: options.type,
-      category: options.category,
-      ids: options.ids,
-    });
+  /** DIFF - changed metadata fields and a line diff of content; `to` defaults to current */
+  async diffVersions(
+    id: string,
+    from: number,
+    to?: number
+  ): Promise<VersionDiff | null> {
+    const current = await this.storage.retrieveBrainData(id);
+    if (!current) return null;
+
+    const target = to ?? current.metadata.version;
+    const [before, after] = await Promise.all([
+      this.findVersion(current, from),
+      this.findVersion(current, target),
+    ]);
+    if (!before || !after) return null;
+
+    const volatile = [
+      "updatedAt",
+      "updatedBy",
+      "version",
+      "previousVersion",
+      "revertedFrom",
+      "embedding",
+      "indexed",
+      "indexedAt",
+      "indexError",
+      "storedAt",
+      "storageKey",
+      "size",
+    ];
 
-    // Ensure each candidate has an embedding (store in metadata.embedding)
-    const enriched = [];
-    for (const c of candidates) {
-      let emb = c.metadata?.embedding as number[] | undefined;
+    return {
+      id,
+      from: this.describeRevision(before, before === current),
+      to: this.describeRevision(after, after === current),
+      fields: [
+        ...diffFields({ type: before.type }, { type: after.type }),
+        ...diffFields(before.metadata, after.metadata, volatile),
+      ],
+      content: diffLines(before.content, after.content),
+    };
+  }
 
-      if (!emb) {
-        // Chunk content; use the first chunk embedding as a doc-level embedding for quick search
-        const chunks = this.embedding.chunkText(c.content);
-        const firstChunk = chunks[0] ?? c.content;
-        emb = await this.embedding.generateEmbedding(firstChunk);
+  /**
+   * REVERT - make an old version current again (as a new version) and
+   * re-index. With `expectedVersion` nothing happens unless it is current.
+   */
+  async revert(
+    id: string,
+    version: number,
+    options: Pick<UpdateRequest, "expectedVersion"> = {}
+  ): Promise<CRUDResult> {
+    console.log("🧠 BRAIN REVERT:", id, "to version", version);
+
+    // Revisions never change once written, so this can be read unlocked
+    let snapshot: BrainEntity | null;
+    try {
+      snapshot = await this.storage.getRevision(id, version);
+    } catch (error) {
+      console.error("❌ Brain REVERT error:", error);
+      const msg = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        message: `Failed to revert: ${msg}`,
+        data: null,
+      };
+    }
 
-        // persist back for next time
-        const updated: BrainEntity = {
-          ...c,
+    const result = await this.commitChange(
+      id,
+      (existing) => {
+        if (existing.metadata.version === version) {
+          return {
+            success: false,
+            message: `Version ${version} is already current`,
+            data: null,
+          };
+        }
+        if (!snapshot) {
+          return {
+            success: false,
+            message: `Version ${version} of ${id} not found`,
+            data: null,
+          };
+        }
+        return {
+          content: snapshot.content,
+          type: snapshot.type,
           metadata: {
-            ...c.metadata,
-            embedding: emb,
-            indexed: true,
-            indexedAt: Date.now(),
+            ...this.stripSystemMetadata(snapshot.metadata),
+            createdBy: existing.metadata.createdBy,
+            indexed: false,
           },
+          revertedFrom: version,
         };
-        await this.storage.storeBrainData(updated);
-        enriched.push(updated);
-      } else {
-        enriched.push(c);
-      }
-    }
+      },
+      { ...options, reindex: true }
+    );
+    if (!result.success) return result;
+    return {
+      ...result,
+      message: `Reverted to version ${version}`,
+      metadata: { ...result.metadata, revertedFrom: version },
+    };
+  }
 
-    // Score
-    const scored = enriched
-      .map((e) => {
-        const docEmb = (e.metadata?.embedding as number[]) || [];
-        const score = cosineSimilarity(queryEmbedding, docEmb);
-        return { entity: e, score };
-      })
-      .sort((a, b) => b.score - a.score);
+  /** The current entity if `version` is current, otherwise the kept revision */
+  private async findVersion(
+    current: BrainEntity,
+    version: number
+  ): Promise<BrainEntity | null> {
+    if (current.metadata.version === version) return current;
+    return this.storage.getRevision(current.id, version);
+  }
 
-    const threshold = options.threshold ?? 0.25; // slightly lower for doc-level cosine
-    const topN = (
-      options.limit && options.limit > 0 ? options.limit : 10
-    ) as number;
+  private describeRevision(
+    entity: BrainEntity,
+    current: boolean
+  ): EntityRevision {
+    return {
+      version: entity.metadata.version,
+      updatedAt: entity.metadata.updatedAt,
+      updatedBy: entity.metadata.updatedBy,
+      author: entity.metadata.author,
+      size: entity.metadata.size,
+      current,
+    };
+  }
+
+  // =====================================================
+  // TRASH
+  // =====================================================
+
+  /**
+   * RESTORE - Bring a soft-deleted entity back as a new version and
+   * re-index it. With `expectedVersion` nothing happens unless it is current.
+   */
+  async restore(
+    id: string,
+    options: Pick<UpdateRequest, "expectedVersion"> = {}
+  ): Promise<CRUDResult> {
+    console.log("🧠 BRAIN RESTORE:", id);
+
+    const result = await this.commitChange(
+      id,
+      (existing) => {
+        const {
+          deletedAt: _deletedAt,
+          statusBeforeDelete,
+          ...metadata
+        } = existing.metadata;
+        return {
+          content: existing.content,
+          type: existing.type,
+          metadata: { ...metadata, status: statusBeforeDelete },
+        };
+      },
+      { ...options, reindex: true, restore: true }
+    );
+    if (!result.success) return result;
+    return { ...result, message: "Data restored from trash" };
+  }
+
+  /**
+   * One page of soft-deleted entities along with when they become eligible
+   * for purge. Pass the returned cursor to continue.
+   */
+  async listTrash(limit = 100, cursor?: string) {
+    const retentionMs = this.trashRetentionDays() * 24 * 60 * 60 * 1000;
+    const page = await this.storage.listTrash(limit, cursor, { count: true });
+
+    return {
+      success: true,
+      count: page.entities.length,
+      ...(page.total !== undefined && { total: page.total }),
+      retentionDays: this.trashRetentionDays(),
+      items: page.entities.map((entity) => ({
+        ...entity,
+        purgeAfter: (entity.metadata.deletedAt || 0) + retentionMs,
+      })),
+      cursor: page.cursor,
+    };
+  }
+
+  /**
+   * PURGE - Hard-delete one page of entities trashed longer than the
+   * retention window; pass the returned cursor to continue
+   */
+  async purgeTrash(
+    retentionDays: number = this.trashRetentionDays(),
+    cursor?: string
+  ): Promise<BatchResult & { cursor?: string }> {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    console.log(`🗑️ Purging trashed entities older than ${retentionDays}d`);
+
+    const batch = await this.purgeTrashBatch(cutoff, cursor);
+    return {
+      ...summarizeBatch(
+        "purge",
+        batch.results,
+        batch.results.map((result) => result.metadata!.id as string)
+      ),
+      cursor: batch.cursor,
+    };
+  }
+
+  /**
+   * Hard-delete one page of entities trashed at or before `cutoff`; the
+   * cursor continues with the next page, undefined when none are left.
+   */
+  private async purgeTrashBatch(
+    cutoff: number,
+    cursor?: string
+  ): Promise<{ results: CRUDResult[]; cursor?: string }> {
+    const page = await this.storage.listTrash(TRASH_PURGE_BATCH, cursor, {
+      deletedBefore: cutoff,
+    });
+
+    const results: CRUDResult[] = [];
+    for (const entity of page.entities) {
+      const res = await this.delete(entity.id);
+      results.push({ ...res, metadata: { ...res.metadata, id: entity.id } });
+    }
+    return { results, cursor: page.cursor };
+  }
+
+  // =====================================================
+  // MAINTENANCE
+  // =====================================================
+
+  /**
+   * Start a maintenance run over the given tenants (undefined is the default
+   * tenant) as a job that works through one page of one tenant per step, or
+   * return the run this agent already has going. The report is stored for
+   * GET /admin/maintenance when the job completes.
+   */
+  async startMaintenance(options: {
+    tenants: (string | undefined)[];
+    trigger: MaintenanceReport["trigger"];
+    cron?: string;
+    purgeTrash?: boolean;
+  }): Promise<JobStatus> {
+    const runningId = await this.storage.getMaintenanceJobId();
+    const running = runningId ? await this.jobs.get(runningId) : null;
+    if (running?.status === "pending" || running?.status === "running") {
+      console.log(`🧰 Maintenance already running (job ${running.id})`);
+      return running;
+    }
+
+    const startedAt = Date.now();
+    const job = await this.jobs.create("maintenance", {
+      task: "maintenance",
+      runId: `${startedAt}-${crypto.randomUUID().slice(0, 8)}`,
+      trigger: options.trigger,
+      cron: options.cron,
+      startedAt,
+      purgeTrash: Boolean(options.purgeTrash),
+      // JSON arrays can't hold undefined
+      tenants: options.tenants.map((tenant) => tenant ?? null),
+      tenantIndex: 0,
+      phase: "scan",
+      reports: [],
+    });
+    await this.storage.setMaintenanceJobId(job.id);
+    console.log(
+      `🧰 Maintenance (${options.trigger}) for ${options.tenants.length} tenants started (job ${job.id})`
+    );
+    return this.dispatchJob(job);
+  }
+
+  /**
+   * One page of the current tenant's maintenance. Finished tenants' reports
+   * accumulate in the job metadata until the last one, when the run's
+   * report is stored.
+   */
+  private async runMaintenanceStep(job: JobStatus): Promise<JobStep> {
+    const meta = job.metadata || {};
+    const tenants: Array<string | null> = meta.tenants || [];
+    const index: number = meta.tenantIndex || 0;
+    const organizationId = tenants[index] ?? undefined;
+    const tenant =
+      organizationId === this.organizationId
+        ? this
+        : new RAGBrainAgent(
+            this.env,
+            organizationId,
+            "maintenance",
+            this.ctx,
+            this.services
+          );
+
+    const start = Date.now();
+    const report: TenantMaintenanceReport = meta.report ?? {
+      ...(organizationId && { organizationId }),
+      expiredPurged: [],
+      published: [],
+      indexEntriesScanned: 0,
+      danglingIdsPruned: 0,
+      orphanVectorsRemoved: 0,
+      cacheEntriesDropped: 0,
+      ...(meta.purgeTrash && { trashPurged: 0 }),
+      statsRebuilt: false,
+      errors: [],
+      durationMs: 0,
+    };
+    const next = await tenant.maintenancePage(meta.phase, meta.cursor, report, {
+      startedAt: meta.startedAt,
+      purgeTrash: meta.purgeTrash,
+    });
+    report.durationMs += Date.now() - start;
+    const progress = Math.min(
+      99,
+      10 + Math.round((index / Math.max(tenants.length, 1)) * 90)
+    );
+
+    if (next.phase !== "done") {
+      return {
+        done: false,
+        progress,
+        metadata: { phase: next.phase, cursor: next.cursor, report },
+      };
+    }
+
+    console.log(
+      `🧰 Maintenance ${organizationId ?? "default"}: ${
+        report.expiredPurged.length
+      } expired, ${report.published.length} published, ${
+        report.danglingIdsPruned
+      } index ids pruned, ${report.cacheEntriesDropped} cache entries dropped`
+    );
+    const reports: TenantMaintenanceReport[] = [
+      ...(meta.reports || []),
+      report,
+    ];
+    if (index + 1 < tenants.length) {
+      return {
+        done: false,
+        progress,
+        metadata: {
+          tenantIndex: index + 1,
+          phase: "scan",
+          cursor: undefined,
+          report: undefined,
+          reports,
+        },
+      };
+    }
+
+    const sum = (pick: (r: TenantMaintenanceReport) => number) =>
+      reports.reduce((total, r) => total + pick(r), 0);
+    const summary: MaintenanceReport = {
+      runId: meta.runId,
+      trigger: meta.trigger,
+      ...(meta.cron && { cron: meta.cron }),
+      startedAt: meta.startedAt,
+      completedAt: Date.now(),
+      tenants: reports,
+      totals: {
+        expiredPurged: sum((r) => r.expiredPurged.length),
+        published: sum((r) => r.published.length),
+        danglingIdsPruned: sum((r) => r.danglingIdsPruned),
+        orphanVectorsRemoved: sum((r) => r.orphanVectorsRemoved),
+        cacheEntriesDropped: sum((r) => r.cacheEntriesDropped),
+        trashPurged: sum((r) => r.trashPurged || 0),
+        errors: sum((r) => r.errors.length),
+      },
+    };
+    await this.storage.saveMaintenanceReport(summary);
+
+    console.log(
+      `✅ Maintenance ${summary.runId} done in ${
+        summary.completedAt - summary.startedAt
+      }ms (${summary.totals.errors} errors)`
+    );
+    return {
+      done: true,
+      metadata: {
+        phase: "done",
+        cursor: undefined,
+        report: undefined,
+        reports: undefined,
+        totals: summary.totals,
+      },
+    };
+  }
+
+  /**
+   * One page of this tenant's maintenance, phase by phase: scan (purge
+   * expired entities from KV and vectors, publish entities whose
+   * scheduledFor passed), indexes (prune dangling ids), cache (drop expired
+   * entries) and optionally trash (purge past the retention window). A page
+   * that fails is recorded in the report and its phase is skipped, so the
+   * rest still run. Returns where the next step picks up.
+   */
+  private async maintenancePage(
+    phase: MaintenancePhase,
+    cursor: string | undefined,
+    report: TenantMaintenanceReport,
+    run: { startedAt: number; purgeTrash?: boolean }
+  ): Promise<{ phase: MaintenancePhase; cursor?: string }> {
+    const phases: MaintenancePhase[] = [
+      "scan",
+      "indexes",
+      "cache",
+      ...(run.purgeTrash ? (["trash"] as const) : []),
+      "done",
+    ];
+    const following = phases[phases.indexOf(phase) + 1] ?? "done";
+
+    try {
+      let next: string | undefined;
+      switch (phase) {
+        case "scan":
+          next = await this.maintainEntityPage(cursor, report, run.startedAt);
+          break;
+
+        case "indexes": {
+          const pruned = await this.storage.pruneIndexPage(cursor);
+          report.indexEntriesScanned += pruned.entriesScanned;
+          report.danglingIdsPruned += pruned.idsRemoved;
+
+          // Entities that expired through their KV TTL left vectors and
+          // counters
+          for (const id of pruned.missingIds) {
+            report.orphanVectorsRemoved += await this.deleteFromIndex(id);
+          }
+          if (pruned.missingIds.length && !report.statsRebuilt) {
+            await this.startStatsRebuild();
+            report.statsRebuilt = true;
+          }
+          next = pruned.cursor;
+          break;
+        }
+
+        case "cache": {
+          const purged = await this.cache.purgeExpiredPage(cursor);
+          report.cacheEntriesDropped += purged.dropped;
+          next = purged.cursor;
+          break;
+        }
+
+        case "trash": {
+          const cutoff =
+            run.startedAt - this.trashRetentionDays() * 24 * 60 * 60 * 1000;
+          const batch = await this.purgeTrashBatch(cutoff, cursor);
+          for (const result of batch.results) {
+            if (result.success) {
+              report.trashPurged = (report.trashPurged || 0) + 1;
+            } else {
+              report.errors.push(
+                `trash: ${result.metadata?.id}: ${result.message}`
+              );
+            }
+          }
+          next = batch.cursor;
+          break;
+        }
+      }
+      return next ? { phase, cursor: next } : { phase: following };
+    } catch (error) {
+      console.error(`❌ Maintenance step ${phase} failed:`, error);
+      const msg = error instanceof Error ? error.message : String(error);
+      report.errors.push(`${phase}: ${msg}`);
+      return { phase: following };
+    }
+  }
+
+  /**
+   * Purge the expired entities on one page of stored entities and publish
+   * the ones due; returns the cursor of the next page
+   */
+  private async maintainEntityPage(
+    cursor: string | undefined,
+    report: TenantMaintenanceReport,
+    now: number
+  ): Promise<string | undefined> {
+    const page = await this.storage.listStoredEntityPage(cursor);
+
+    for (const entity of page.entities) {
+      if (entity.metadata?.expiresAt && entity.metadata.expiresAt < now) {
+        await this.storage.deleteBrainData(entity.id);
+        await this.deleteFromIndex(entity.id);
+        await this.clearRelatedCaches(entity.type, entity.metadata?.category);
+        report.expiredPurged.push(entity.id);
+      } else if (this.isDueForPublishing(entity, now)) {
+        const res = await this.commitChange(entity.id, (existing) =>
+          this.isDueForPublishing(existing, now)
+            ? {
+                content: existing.content,
+                type: existing.type,
+                metadata: {
+                  ...existing.metadata,
+                  status: "active",
+                  publishedAt: Date.now(),
+                },
+              }
+            : { success: false, message: "No longer due", data: null }
+        );
+        if (res.success) report.published.push(entity.id);
+      }
+    }
+    return page.cursor;
+  }
+
+  /** Drafts (or status-less entities) whose scheduledFor time has come */
+  private isDueForPublishing(entity: BrainEntity, now: number): boolean {
+    const { scheduledFor, publishedAt, status } = entity.metadata ?? {};
+    return (
+      Boolean(scheduledFor && scheduledFor <= now) &&
+      !publishedAt &&
+      (!status || status === "draft")
+    );
+  }
+
+  private trashRetentionDays(): number {
+    const days = Number(this.env.TRASH_RETENTION_DAYS);
+    return Number.isFinite(days) && days >= 0
+      ? days
+      : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  /**
+   * Start a job that indexes every stored entity under its current type,
+   * category, tags, user and status (e.g. after BRAIN_DB is first bound).
+   */
+  async startIndexRebuild(): Promise<JobStatus> {
+    const job = await this.startJob("maintenance", {
+      task: "rebuild-indexes",
+      store: this.storage.indexStoreKind(),
+      total: (await this.storage.getBrainStats()).totalEntities,
+      indexed: 0,
+    });
+    console.log(`🗂️ Index rebuild started (job ${job.id})`);
+    return job;
+  }
+
+  private async runIndexRebuildStep(job: JobStatus): Promise<JobStep> {
+    const meta = job.metadata || {};
+    const page = await this.storage.rebuildIndexPage(meta.cursor);
+    const indexed = (meta.indexed || 0) + page.indexed;
+
+    if (page.cursor) {
+      const total = Math.max(meta.total || 0, indexed);
+      return {
+        done: false,
+        progress: Math.min(99, Math.round((indexed / total) * 100)),
+        metadata: { cursor: page.cursor, indexed },
+      };
+    }
+    console.log(`✅ Rebuilt secondary indexes for ${indexed} entities`);
+    // D1 counters are recounted from the metadata mirror just rebuilt
+    await this.startStatsRebuild();
+    return { done: true, metadata: { cursor: undefined, indexed } };
+  }
+
+  /**
+   * Start a job that recounts the analytics counters, or return the one
+   * already running. Counters are seeded this way, never inside a request.
+   */
+  async startStatsRebuild(): Promise<JobStatus> {
+    const runningId = await this.storage.getStatsJobId();
+    const running = runningId ? await this.jobs.get(runningId) : null;
+    if (running?.status === "pending" || running?.status === "running") {
+      return running;
+    }
+
+    const job = await this.jobs.create("maintenance", {
+      task: "rebuild-stats",
+      counted: 0,
+    });
+    await this.storage.setStatsJobId(job.id);
+    console.log(`📊 Stats rebuild started (job ${job.id})`);
+    return this.dispatchJob(job);
+  }
+
+  private async runStatsRebuildStep(job: JobStatus): Promise<JobStep> {
+    const meta = job.metadata || {};
+    const page = await this.storage.rebuildStatsPage(meta.cursor, meta.partial);
+    const counted = (meta.counted || 0) + page.counted;
+
+    if (page.cursor) {
+      return {
+        done: false,
+        progress: job.progress,
+        metadata: { cursor: page.cursor, partial: page.partial, counted },
+      };
+    }
+    return {
+      done: true,
+      metadata: { cursor: undefined, partial: undefined, counted },
+    };
+  }
+
+  // =====================================================
+  // INTELLIGENT SEARCH & ANALYSIS
+  // =====================================================
+
+  /**
+   * One page of entities matching metadata filters and conditions (id order
+   * unless sorted). Throws QueryError for unusable fields or operators.
+   */
+  async listEntities(query: EntityQuery = {}, cursor?: string) {
+    const page = await this.storage.searchEntityPage(query, cursor);
+    return {
+      success: true,
+      count: page.entities.length,
+      ...(page.total !== undefined && { total: page.total }),
+      items: page.entities,
+      cursor: page.cursor,
+    };
+  }
+
+  /**
+   * Ids passing the query options' metadata filters, from the metadata
+   * store; undefined when there are no filters, no store, or too many.
+   */
+  private async prefilterCandidates(
+    options: BrainQueryOptions
+  ): Promise<string[] | undefined> {
+    const filters: EntityQuery = {
+      type: options.type,
+      category: options.category,
+      userId: options.userId,
+      status: options.status as EntityQuery["status"],
+      tags: options.tags,
+      dateRange: options.dateRange,
+    };
+    if (!Object.values(filters).some((value) => value !== undefined)) {
+      return undefined;
+    }
+    const ids = await this.storage.prefilterIds(filters, MAX_PREFILTER_IDS);
+    return ids ?? undefined;
+  }
+
+  /** Hybrid semantic search: vector store (if configured) OR KV-only cosine search */
+  private async semanticSearch(
+    query: string,
+    options: BrainQueryOptions
+  ): Promise<QueryResult> {
+    // Scores are only comparable within one model, so it keys the cache too
+    const index = await this.vectorIndex();
+    const embedder = this.embedderFor(index.model);
+    const generation = await this.semanticGeneration();
+    const cacheKey = `semantic:${generation}:${index.model}:${btoa(
+      query
+    )}:${JSON.stringify(options)}`;
+    const cached = await this.cache.get<QueryResult>(cacheKey);
+    if (cached) {
+      console.log("💾 Returning cached semantic search");
+      return { ...cached, strategy: "cached_semantic" };
+    }
+
+    // 1) Build query embedding
+    const queryEmbedding = await embedder.generateEmbedding(query);
+
+    // Filters checked against current metadata on the SQL side, when small
+    const candidateIds =
+      options.ids ?? (await this.prefilterCandidates(options));
+
+    // 2) If a vector store is configured, use it
+    if (this.vectorStore) {
+      const filter: Record<string, any> = {};
+      if (candidateIds) {
+        filter.originalId = { $in: candidateIds };
+      } else {
+        if (options.type) filter.type = options.type;
+        if (options.category) filter.category = options.category;
+        if (options.userId) filter.userId = options.userId;
+        if (options.status) filter.status = options.status;
+        // Every tag must be present; a list field matches any one element
+        if (options.tags?.length) {
+          filter.$and = options.tags.map((tag) => ({ tags: tag }));
+        }
+        if (options.dateRange) {
+          filter.createdAt = {
+            $gte: options.dateRange.start,
+            $lte: options.dateRange.end,
+          };
+        }
+      }
+
+      const searchResult =
+        candidateIds?.length === 0
+          ? { matches: [] }
+          : await this.vectorStore.query(queryEmbedding, {
+              topK: options.limit || 10,
+              filter: Object.keys(filter).length ? filter : undefined,
+              includeMetadata: true,
+              namespace: this.activeNamespace(index),
+            });
+
+      const threshold = options.threshold ?? 0.3;
+      const sources: SearchResult[] = (searchResult.matches || [])
+        .filter((m: any) => m.score >= threshold)
+        .map((m: any) => ({
+          id: m.metadata?.originalId || m.id,
+          content: m.metadata?.content || "",
+          score: m.score,
+          metadata: options.includeMetadata ? m.metadata : undefined,
+        }));
+
+      const answer = await this.generateIntelligentAnswer(
+        query,
+        sources,
+        options
+      );
+
+      const result: QueryResult = {
+        answer,
+        sources,
+        confidence: sources[0]?.score ?? 0,
+        strategy: `semantic_search_${this.vectorStore.kind}`,
+        metadata: {
+          totalMatches: searchResult.matches?.length || 0,
+          filteredMatches: sources.length,
+          threshold,
+          processingTime: Date.now(),
+        },
+      };
+
+      await this.cache.set(cacheKey, result, 300);
+      return result;
+    }
+
+    // 3) KV-only fallback: fetch candidates & compute cosine similarity
+    console.log("🧩 No vector store — using KV-only semantic search");
+    const candidates =
+      candidateIds?.length === 0
+        ? []
+        : await this.storage.getEntities({
+            type: options.type,
+            category: options.category,
+            ids: candidateIds,
+          });
+
+    // Ensure each candidate has an embedding from the active model
+    // (store in metadata.embedding); untagged ones predate model tracking
+    const stale = candidates.filter(
+      (c) =>
+        !c.metadata?.embedding ||
+        (c.metadata?.embeddingModel ?? DEFAULT_EMBEDDING_MODEL) !== index.model
+    );
+    // The first chunk's embedding doubles as a doc-level one for quick search
+    const fresh = await embedder.generateMultipleEmbeddings(
+      stale.map((c) => this.chunkEntity(c, embedder).chunks[0].text)
+    );
+    const refreshed = new Map<string, BrainEntity>();
+    stale.forEach((c, i) =>
+      refreshed.set(c.id, {
+        ...c,
+        metadata: {
+          ...c.metadata,
+          embedding: fresh[i],
+          embeddingModel: index.model,
+          embeddingProvider: embedder.providerName,
+          embeddingDimensions: fresh[i].length,
+          indexed: true,
+          indexedAt: Date.now(),
+        },
+      })
+    );
+    // persist back for next time
+    await Promise.all(
+      [...refreshed.values()].map((e) => this.storage.storeBrainData(e))
+    );
+    const enriched = candidates.map((c) => refreshed.get(c.id) ?? c);
+
+    // Score
+    const scored = enriched
+      .map((e) => {
+        const docEmb = (e.metadata?.embedding as number[]) || [];
+        const score = cosineSimilarity(queryEmbedding, docEmb);
+        return { entity: e, score };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const threshold = options.threshold ?? 0.25; // slightly lower for doc-level cosine
+    const topN = (
+      options.limit && options.limit > 0 ? options.limit : 10
+    ) as number;
 
     const sources: SearchResult[] = scored
       .filter((s) => s.score >= threshold)
@@ -469,180 +1735,1863 @@ export class RAGBrainAgent {
           s.content.includes(`meeting_id_${meetingId}`)
       );
 
-      if (targetMeeting) {
-        let answer = `Meeting ${meetingId} Discussion:\n\n`;
-        answer += `What was discussed: ${targetMeeting.content}\n\n`;
+      if (targetMeeting) {
+        let answer = `Meeting ${meetingId} Discussion:\n\n`;
+        answer += `What was discussed: ${targetMeeting.content}\n\n`;
+
+        const relatedMeetings = sources.filter(
+          (s) => s.id !== targetMeeting.id
+        );
+        if (relatedMeetings.length > 0) {
+          answer += `Related meetings with similar topics:\n`;
+          relatedMeetings.slice(0, 3).forEach((meeting) => {
+            const id = meeting.id.match(/(\d+)/)?.[1] || meeting.id;
+            answer += `- Meeting ${id}: ${meeting.content.substring(
+              0,
+              100
+            )}...\n`;
+          });
+        }
+        return answer;
+      }
+    }
+
+    const context = sources.map((s) => s.content).join("\n\n");
+
+    if (options.responseStyle === "summary") {
+      return `Based on ${sources.length} relevant sources: ${context.substring(
+        0,
+        200
+      )}...`;
+    }
+
+    if (options.responseStyle === "detailed") {
+      return `Query: ${query}\n\nDetailed analysis based on ${sources.length} sources:\n\n${context}`;
+    }
+
+    return `Found ${sources.length} relevant items. Top result (${Math.round(
+      (sources[0].score || 0) * 100
+    )}% match): ${sources[0].content.substring(0, 300)}...`;
+  }
+  // =====================================================
+  // INDEXING
+  // =====================================================
+
+  /** Index content (vector store if configured; always store doc-level embedding in KV) */
+  private async indexContent(
+    data: BrainEntity,
+    onProgress?: (percent: number) => Promise<void>
+  ): Promise<void> {
+    await this.indexEntities([data], onProgress);
+  }
+
+  /**
+   * Index several entities with a single embedding pass and upsert, using the
+   * active model. While a reindex runs, vectors are also written to its
+   * namespace with the new model so the switch-over misses no changes.
+   */
+  private async indexEntities(
+    entities: BrainEntity[],
+    onProgress?: (percent: number) => Promise<void>
+  ): Promise<void> {
+    if (entities.length === 0) return;
+
+    try {
+      const index = await this.vectorIndex();
+      const embedder = this.embedderFor(index.model);
+      const chunked = entities.map((entity) =>
+        this.chunkEntity(entity, embedder)
+      );
+
+      // The vector store needs every chunk; the KV fallback only the doc-level one
+      let docEmbeddings: number[][];
+      if (this.vectorStore) {
+        docEmbeddings = await this.upsertChunkVectors(
+          chunked,
+          embedder,
+          this.activeNamespace(index)
+        );
+        console.log(`✅ Content indexed in ${this.vectorStore.kind}`);
+        await onProgress?.(60);
+
+        if (index.migration) {
+          // The target model may have a different token limit; chunk for it
+          const target = this.embedderFor(index.migration.model);
+          await this.upsertChunkVectors(
+            entities.map((entity) => this.chunkEntity(entity, target)),
+            target,
+            index.migration.namespace
+          ).catch((error) =>
+            // The reconciler repairs the target namespace; reads don't use it yet
+            console.error("❌ Reindex dual-write failed:", error)
+          );
+          await onProgress?.(90);
+        }
+      } else {
+        docEmbeddings = await embedder.generateMultipleEmbeddings(
+          chunked.map(({ chunks }) => chunks[0].text)
+        );
+        console.log("ℹ️ No vector store — stored doc-level embedding in KV");
+      }
+
+      const indexedAt = Date.now();
+      const indexed: BrainEntity[] = entities.map((entity, i) => ({
+        ...entity,
+        metadata: {
+          ...entity.metadata,
+          embedding: docEmbeddings[i],
+          embeddingModel: index.model,
+          embeddingProvider: embedder.providerName,
+          embeddingDimensions: docEmbeddings[i]?.length,
+          indexed: true,
+          indexedAt,
+          indexError: undefined,
+        },
+      }));
+
+      // Persist metadata update
+      await Promise.all(indexed.map((e) => this.persistIndexState(e)));
+    } catch (error) {
+      console.error("❌ Indexing failed:", error);
+      // Record the failure so analytics can report it and it can be retried
+      const msg = error instanceof Error ? error.message : String(error);
+      await Promise.all(
+        entities.map((entity) =>
+          this.persistIndexState({
+            ...entity,
+            metadata: { ...entity.metadata, indexed: false, indexError: msg },
+          })
+        )
+      );
+      throw error;
+    }
+  }
+
+  /** Chunk with the entity type's settings, sized for `embedder`'s model */
+  private chunkEntity(
+    entity: BrainEntity,
+    embedder: EmbeddingService
+  ): ChunkedEntity {
+    const options = this.chunking[entity.type] ?? this.chunking["*"];
+    return { entity, chunks: embedder.chunkText(entity.content, options) };
+  }
+
+  /**
+   * Embed every chunk with `embedder` and upsert the vectors, tagged with the
+   * model, into `namespace`. Returns each entity's doc-level (first chunk)
+   * embedding.
+   */
+  private async upsertChunkVectors(
+    chunked: ChunkedEntity[],
+    embedder: EmbeddingService,
+    namespace: string | undefined
+  ): Promise<number[][]> {
+    if (!this.vectorStore) throw new Error("No vector store configured");
+
+    const embeddings = await embedder.generateMultipleEmbeddings(
+      chunked.flatMap(({ chunks }) => chunks.map((chunk) => chunk.text))
+    );
+
+    const vectors: VectorRecord[] = [];
+    const docEmbeddings: number[][] = [];
+    let offset = 0;
+
+    for (const { entity, chunks } of chunked) {
+      docEmbeddings.push(embeddings[offset]);
+
+      chunks.forEach((chunk, i) => {
+        vectors.push({
+          id: `${entity.id}_chunk_${i}`,
+          values: embeddings[offset + i],
+          metadata: {
+            ...this.vectorMetadata(entity),
+            content: chunk.text,
+            chunkIndex: i,
+            totalChunks: chunks.length,
+            chunkStart: chunk.start,
+            chunkEnd: chunk.end,
+            embeddingModel: embedder.model,
+            embeddingProvider: embedder.providerName,
+            embeddingDimensions: embeddings[offset + i].length,
+          },
+        });
+      });
+      offset += chunks.length;
+    }
+
+    console.log(`📄 Created ${vectors.length} chunks for indexing`);
+    await this.vectorStore.batchUpsert(vectors, 100, namespace);
+    return docEmbeddings;
+  }
+
+  /** The entity-level part of each of its chunks' vector metadata */
+  private vectorMetadata(entity: BrainEntity): Record<string, any> {
+    const { embedding: _previous, ...metadata } = entity.metadata;
+    return {
+      ...metadata,
+      createdAt: entity.metadata?.createdAt,
+      originalId: entity.id,
+      type: entity.type,
+      category: entity.metadata?.category,
+      userId: entity.metadata?.userId,
+    };
+  }
+
+  /** Whether a change without new content still alters vector metadata */
+  private vectorFieldsChanged(before: BrainEntity, after: BrainEntity) {
+    if (before.type !== after.type) return true;
+    const changed = diffFields(
+      before.metadata,
+      after.metadata,
+      SYSTEM_METADATA_KEYS
+    );
+    return changed.length > 0;
+  }
+
+  /**
+   * Rewrite the metadata on an entity's vectors, keeping their embeddings.
+   * Missing chunks, or a reindex that also needs the target namespace
+   * written, take the full re-index path instead.
+   */
+  private async refreshVectorMetadata(entity: BrainEntity): Promise<void> {
+    if (!this.vectorStore || !entity.metadata?.indexed) return;
+
+    const index = await this.vectorIndex();
+    const namespace = this.activeNamespace(index);
+    const firstId = `${entity.id}_chunk_0`;
+    const { vectors: first } = await this.vectorStore.fetch(
+      [firstId],
+      namespace
+    );
+    const total = Number(first[firstId]?.metadata?.totalChunks) || 0;
+    const ids = Array.from(
+      { length: total },
+      (_, i) => `${entity.id}_chunk_${i}`
+    );
+
+    const vectors: VectorRecord[] = [];
+    for (let i = 0; i < ids.length; i += VECTOR_FETCH_BATCH) {
+      const batch = ids.slice(i, i + VECTOR_FETCH_BATCH);
+      const { vectors: found } = await this.vectorStore.fetch(batch, namespace);
+      for (const id of batch) {
+        if (!found[id]) continue;
+        const chunk = Object.fromEntries(
+          Object.entries(found[id].metadata ?? {}).filter(([key]) =>
+            CHUNK_METADATA_KEYS.includes(key)
+          )
+        );
+        vectors.push({
+          id,
+          values: found[id].values,
+          metadata: { ...this.vectorMetadata(entity), ...chunk },
+        });
+      }
+    }
+
+    if (index.migration || !total || vectors.length !== total) {
+      await this.deleteFromIndex(entity.id);
+      await this.indexContent(entity);
+      return;
+    }
+    await this.vectorStore.batchUpsert(vectors, 100, namespace);
+    console.log(`🏷️ Refreshed metadata on ${total} vectors of ${entity.id}`);
+  }
+
+  /**
+   * Merge indexing results into the stored entity, unless it was changed or
+   * deleted while embeddings were generated (that newer write wins).
+   */
+  private async persistIndexState(entity: BrainEntity): Promise<void> {
+    await this.storage.withEntityLock(entity.id, async () => {
+      const current = await this.storage.retrieveBrainData(entity.id);
+      if (!current || current.metadata.version !== entity.metadata.version) {
+        return;
+      }
+      const {
+        embedding,
+        embeddingModel,
+        embeddingProvider,
+        embeddingDimensions,
+        indexed,
+        indexedAt,
+        indexError,
+      } = entity.metadata;
+      await this.storage.storeBrainData({
+        ...current,
+        metadata: {
+          ...current.metadata,
+          embedding,
+          embeddingModel,
+          embeddingProvider,
+          embeddingDimensions,
+          indexed,
+          indexedAt,
+          indexError,
+        },
+      });
+    });
+  }
+
+  /**
+   * Remove content from vector index (no-op without a vector store); returns
+   * how many vectors the store reports deleted, 0 when the delete failed
+   */
+  private async deleteFromIndex(id: string): Promise<number> {
+    try {
+      if (!this.vectorStore) return 0;
+      const index = await this.vectorIndex();
+      const results = [
+        await this.deleteEntityVectors(id, this.activeNamespace(index)),
+      ];
+      if (index.migration) {
+        results.push(
+          await this.deleteEntityVectors(id, index.migration.namespace)
+        );
+      }
+      if (results.every((result) => result.complete)) {
+        console.log("✅ Removed from vector index");
+      } else {
+        console.error(`❌ Some vectors of ${id} may remain in the index`);
+      }
+      return results.reduce((sum, result) => sum + (result.deleted ?? 0), 0);
+    } catch (error) {
+      console.error("❌ Index deletion failed:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Delete an entity's chunk vectors by id: chunk 0 records how many chunks
+   * were written, which is exact even where filtered deletes are best effort
+   * (Vectorize). Without chunk 0 the filter is the fallback.
+   */
+  private async deleteEntityVectors(
+    id: string,
+    namespace: string | undefined
+  ): Promise<VectorDeleteResult> {
+    const firstId = this.chunkVectorId(id, 0);
+    const { vectors } = await this.vectorStore!.fetch([firstId], namespace);
+    const total = Number(vectors[firstId]?.metadata?.totalChunks) || 0;
+    if (!total) {
+      return this.vectorStore!.deleteByFilter({ originalId: id }, namespace);
+    }
+
+    await this.vectorStore!.deleteById(
+      Array.from({ length: total }, (_, i) => this.chunkVectorId(id, i)),
+      namespace
+    );
+    return { complete: true, deleted: total };
+  }
+
+  /**
+   * Token in every semantic search cache key. Cached results can name any
+   * entity, so each write replaces it and the old entries just expire.
+   */
+  private async semanticGeneration(): Promise<string> {
+    return (await this.cache.get<string>(SEMANTIC_GENERATION_KEY)) ?? "0";
+  }
+
+  /** Clear related caches */
+  private async clearRelatedCaches(
+    type?: string,
+    category?: string
+  ): Promise<void> {
+    if (type) await this.cache.delete(`type:${type}`);
+    if (category) await this.cache.delete(`category:${category}`);
+    // Outlives the results cached under it (300s), so they can't resurface
+    await this.cache.set(
+      SEMANTIC_GENERATION_KEY,
+      crypto.randomUUID().slice(0, 8),
+      3600
+    );
+  }
+
+  // =====================================================
+  // BACKGROUND JOBS
+  // =====================================================
+
+  async getJob(jobId: string): Promise<JobStatus | null> {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Re-run a failed job with fresh attempts; paged jobs resume from the
+   * cursor they stopped at. Null if the job doesn't exist.
+   */
+  async retryJob(
+    jobId: string
+  ): Promise<{ job: JobStatus; retried: boolean } | null> {
+    const job = await this.jobs.get(jobId);
+    if (!job) return null;
+    if (job.status !== "failed") return { job, retried: false };
+
+    const reset = await this.jobs.update(jobId, {
+      status: "pending",
+      progress: 0,
+      startedAt: undefined,
+      completedAt: undefined,
+      error: undefined,
+      metadata: { attempts: 0, retriedAt: Date.now() },
+    });
+    return { job: await this.dispatchJob(reset ?? job), retried: true };
+  }
+
+  /**
+   * Execute one step of a job (from the queue consumer or the in-process
+   * stand-in). A job left "running" has more steps to go and must be
+   * dispatched again. A failure leaves it pending for another attempt unless
+   * this is the final one, which marks it failed; failed jobs can be retried
+   * with retryJob() and long jobs resume where they stopped.
+   */
+  async runJob(jobId: string, finalAttempt = true): Promise<JobStatus | null> {
+    const job = await this.jobs.get(jobId);
+    // Queues deliver at least once; a finished job is not run again
+    if (!job || job.status === "completed" || job.status === "failed") {
+      return job;
+    }
+
+    const running = await this.jobs.update(jobId, {
+      status: "running",
+      startedAt: job.startedAt ?? Date.now(),
+      progress: job.progress || 10,
+      metadata: { attempts: (job.metadata?.attempts || 0) + 1 },
+    });
+    // Steps see the latest index state, not one cached by an earlier step
+    this.indexState = undefined;
+
+    try {
+      const step = await this.executeJob(running ?? job);
+      if (!step.done) {
+        return this.jobs.update(jobId, {
+          progress: step.progress,
+          error: undefined,
+          metadata: { ...step.metadata, attempts: 0 },
+        });
+      }
+
+      console.log(`✅ Job ${jobId} completed`);
+      return this.jobs.update(jobId, {
+        status: "completed",
+        progress: 100,
+        completedAt: Date.now(),
+        error: undefined,
+        metadata: step.metadata,
+      });
+    } catch (error) {
+      console.error(`❌ Job ${jobId} failed:`, error);
+      const msg = error instanceof Error ? error.message : String(error);
+      return this.jobs.update(jobId, {
+        status: finalAttempt ? "failed" : "pending",
+        error: msg,
+        ...(finalAttempt && { completedAt: Date.now() }),
+      });
+    }
+  }
+
+  /** Record a job and hand it to the queue (or run it in-process) */
+  private async startJob(
+    type: JobStatus["type"],
+    metadata: Record<string, any>
+  ): Promise<JobStatus> {
+    return this.dispatchJob(await this.jobs.create(type, metadata));
+  }
+
+  private async dispatchJob(job: JobStatus): Promise<JobStatus> {
+    try {
+      await this.jobs.dispatch(
+        job,
+        () => this.runJobLocally(job.id),
+        (promise) => this.ctx?.waitUntil(promise)
+      );
+      return job;
+    } catch (error) {
+      // Not queued: fail it now so it shows up as retryable
+      console.error(`❌ Could not dispatch job ${job.id}:`, error);
+      const msg = error instanceof Error ? error.message : String(error);
+      return (
+        (await this.jobs.update(job.id, {
+          status: "failed",
+          error: `Dispatch failed: ${msg}`,
+          completedAt: Date.now(),
+        })) ?? job
+      );
+    }
+  }
+
+  /** In-process stand-in for the queue: continues steps and retries failures */
+  private async runJobLocally(jobId: string): Promise<void> {
+    let attempt = 1;
+    for (;;) {
+      const job = await this.runJob(jobId, attempt >= MAX_JOB_ATTEMPTS);
+      if (job?.status === "running") {
+        attempt = 1;
+      } else if (job?.status === "pending") {
+        attempt++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private async executeJob(job: JobStatus): Promise<JobStep> {
+    if (job.type === "indexing") return this.runIndexingJob(job);
+    if (job.type === "maintenance" && job.metadata?.task === "reindex") {
+      return this.runReindexStep(job);
+    }
+    if (job.type === "maintenance" && job.metadata?.task === "reconcile") {
+      return this.runReconcileStep(job);
+    }
+    if (
+      job.type === "maintenance" &&
+      job.metadata?.task === "rebuild-indexes"
+    ) {
+      return this.runIndexRebuildStep(job);
+    }
+    if (job.type === "maintenance" && job.metadata?.task === "rebuild-stats") {
+      return this.runStatsRebuildStep(job);
+    }
+    if (job.type === "maintenance" && job.metadata?.task === "purge-vectors") {
+      return this.runVectorPurgeStep(job);
+    }
+    if (job.type === "maintenance" && job.metadata?.task === "delete-tenant") {
+      return this.runTenantDeletionStep(job);
+    }
+    if (job.type === "maintenance" && job.metadata?.task === "maintenance") {
+      return this.runMaintenanceStep(job);
+    }
+    throw new Error(`Unsupported job: ${job.type} ${job.metadata?.task ?? ""}`);
+  }
+
+  /** Index the entity's current version; metadata.indexed flips when done */
+  private async runIndexingJob(job: JobStatus): Promise<JobStep> {
+    const entity = await this.storage.retrieveBrainData(job.metadata?.entityId);
+    if (!entity || isTrashed(entity)) {
+      return { done: true, metadata: { skipped: "Entity no longer exists" } };
+    }
+    if (entity.metadata.indexed) {
+      return {
+        done: true,
+        metadata: {
+          skipped: "Already indexed",
+          version: entity.metadata.version,
+        },
+      };
+    }
+
+    await this.indexContent(entity, async (progress) => {
+      await this.jobs.update(job.id, { progress });
+    });
+    return { done: true, metadata: { version: entity.metadata.version } };
+  }
+
+  // =====================================================
+  // EMBEDDING MODEL MIGRATION
+  // =====================================================
+
+  /** The tenant's active model and namespace, and any reindex in progress */
+  async getVectorIndex(): Promise<VectorIndexState> {
+    return this.vectorIndex();
+  }
+
+  /**
+   * Re-embed every entity with `model`. With a vector store the vectors go to a
+   * fresh namespace and reads switch over in one write when the job is done;
+   * in KV-only mode reads switch at once (stale embeddings are recomputed
+   * on demand) and the job backfills the stored embeddings.
+   */
+  async startReindex(
+    model: string,
+    options: { deletePrevious?: boolean } = {}
+  ): Promise<{ job?: JobStatus; state: VectorIndexState; error?: string }> {
+    const current = await this.vectorIndex();
+    if (current.migration) {
+      return {
+        state: current,
+        error: `Reindex job ${current.migration.jobId} is already running`,
+      };
+    }
+
+    // Fail fast on models that don't exist or don't fit the vector index
+    let dimensions: number;
+    try {
+      const probe = await this.embedderFor(model).generateEmbedding("probe");
+      dimensions = probe.length;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      return { state: current, error: `Model ${model} failed: ${msg}` };
+    }
+    if (this.vectorStore) {
+      const stats = await this.vectorStore.getStats();
+      if (stats.dimension && stats.dimension !== dimensions) {
+        return {
+          state: current,
+          error: `${model} produces ${dimensions}-dimensional vectors; the ${this.vectorStore.kind} index holds ${stats.dimension}`,
+        };
+      }
+    }
+
+    const job = await this.jobs.create("maintenance", {
+      task: "reindex",
+      model,
+      dimensions,
+      deletePrevious: Boolean(options.deletePrevious),
+      mode: this.vectorStore ? "namespace" : "backfill",
+      total: (await this.storage.getBrainStats()).totalEntities,
+      processed: 0,
+    });
+
+    const next: VectorIndexState = this.vectorStore
+      ? {
+          ...current,
+          migration: {
+            jobId: job.id,
+            model,
+            namespace: this.reindexNamespace(model),
+            startedAt: Date.now(),
+          },
+        }
+      : {
+          model,
+          dimensions,
+          switchedAt: Date.now(),
+          previousModel: current.model,
+        };
+    await this.storage.saveVectorIndexState(next);
+    this.indexState = Promise.resolve(next);
+    console.log(
+      `🔁 Reindex ${current.model} → ${model} started (job ${job.id})`
+    );
+
+    return { job: await this.dispatchJob(job), state: next };
+  }
+
+  /** Abandon a reindex in progress; reads stay on the current model */
+  async cancelReindex(): Promise<VectorIndexState | null> {
+    const current = await this.vectorIndex();
+    const migration = current.migration;
+    if (!migration) return null;
+
+    const next: VectorIndexState = { ...current, migration: undefined };
+    await this.storage.saveVectorIndexState(next);
+    this.indexState = Promise.resolve(next);
+
+    await this.jobs.update(migration.jobId, {
+      status: "failed",
+      error: "Cancelled",
+      completedAt: Date.now(),
+    });
+    await this.startVectorPurge([migration.namespace]);
+    console.log(`🛑 Reindex job ${migration.jobId} cancelled`);
+    return next;
+  }
+
+  /** Re-embed one page of entities; the last page switches reads over */
+  private async runReindexStep(job: JobStatus): Promise<JobStep> {
+    const meta = job.metadata || {};
+    const index = await this.vectorIndex();
+    const embedder = this.embedderFor(meta.model);
+    const namespaceMode = meta.mode === "namespace";
+
+    if (namespaceMode && index.migration?.jobId !== job.id) {
+      throw new Error("This reindex is no longer active (cancelled?)");
+    }
+    if (!namespaceMode && index.model !== meta.model) {
+      throw new Error(`Active model changed to ${index.model}; job abandoned`);
+    }
+
+    const page = await this.storage.listEntityPage(
+      meta.cursor,
+      REINDEX_PAGE_SIZE
+    );
+    const live = page.entities.filter((entity) => !isTrashed(entity));
+
+    if (namespaceMode && live.length) {
+      const namespace = index.migration!.namespace;
+      await this.upsertChunkVectors(
+        live.map((entity) => this.chunkEntity(entity, embedder)),
+        embedder,
+        namespace
+      );
+      await this.reconcileReindexedPage(live, embedder, namespace);
+    } else if (live.length) {
+      const embeddings = await embedder.generateMultipleEmbeddings(
+        live.map((entity) => this.chunkEntity(entity, embedder).chunks[0].text)
+      );
+      await Promise.all(
+        live.map((entity, i) =>
+          this.persistIndexState({
+            ...entity,
+            metadata: {
+              ...entity.metadata,
+              embedding: embeddings[i],
+              embeddingModel: embedder.model,
+              embeddingProvider: embedder.providerName,
+              embeddingDimensions: embeddings[i].length,
+              indexed: true,
+              indexedAt: Date.now(),
+              indexError: undefined,
+            },
+          })
+        )
+      );
+    }
+
+    const processed = (meta.processed || 0) + page.entities.length;
+    if (page.cursor) {
+      const total = Math.max(meta.total || 0, processed);
+      return {
+        done: false,
+        progress: Math.min(99, Math.round((processed / total) * 100)),
+        metadata: { cursor: page.cursor, processed },
+      };
+    }
+
+    if (!namespaceMode) {
+      return { done: true, metadata: { cursor: undefined, processed } };
+    }
+
+    // Single KV write: every read after this uses the new model and namespace
+    const previousNamespace = this.activeNamespace(index);
+    const switched: VectorIndexState = {
+      model: meta.model,
+      dimensions: meta.dimensions,
+      namespace: index.migration!.namespace,
+      switchedAt: Date.now(),
+      previousModel: index.model,
+      previousNamespace,
+    };
+    await this.storage.saveVectorIndexState(switched);
+    this.indexState = Promise.resolve(switched);
+    console.log(`✅ Reads switched to ${meta.model} (${switched.namespace})`);
+
+    const purge = meta.deletePrevious
+      ? await this.startVectorPurge([previousNamespace])
+      : null;
+    return {
+      done: true,
+      metadata: {
+        cursor: undefined,
+        processed,
+        namespace: switched.namespace,
+        switchedAt: switched.switchedAt,
+        ...(purge && { purgeJobId: purge.id }),
+      },
+    };
+  }
+
+  /**
+   * Start a job emptying vector namespaces (undefined: the default one).
+   * Stores that delete asynchronously (Vectorize) can take several passes.
+   */
+  private async startVectorPurge(
+    namespaces: Array<string | undefined>
+  ): Promise<JobStatus | null> {
+    if (!this.vectorStore) return null;
+    return this.startJob("maintenance", {
+      task: "purge-vectors",
+      // JSON keeps null, not undefined, in arrays
+      namespaces: namespaces.map((namespace) => namespace ?? null),
+      deleted: 0,
+    });
+  }
+
+  private async runVectorPurgeStep(job: JobStatus): Promise<JobStep> {
+    const meta = job.metadata || {};
+    if (!this.vectorStore || !meta.namespaces?.length) {
+      return { done: true, metadata: { namespaces: [] } };
+    }
+
+    const purged = await this.purgeNextNamespace(meta.namespaces);
+    const total = meta.total || meta.namespaces.length;
+    return {
+      done: purged.namespaces.length === 0,
+      progress: Math.min(
+        99,
+        Math.round(((total - purged.namespaces.length) / total) * 100)
+      ),
+      metadata: {
+        namespaces: purged.namespaces,
+        deleted: (meta.deleted || 0) + purged.deleted,
+        total,
+      },
+    };
+  }
+
+  /**
+   * One deleteAll pass over the first of `namespaces` (null: the default
+   * one); returns those left. A pass that removes nothing yet leaves vectors
+   * behind throws, so the queue retries it after a delay instead of spinning
+   * while the store applies earlier deletes.
+   */
+  private async purgeNextNamespace(
+    namespaces: Array<string | null>
+  ): Promise<{ namespaces: Array<string | null>; deleted: number }> {
+    const [namespace, ...rest] = namespaces;
+    const result = await this.vectorStore!.deleteAll(namespace ?? undefined);
+    if (!result.complete && !result.deleted) {
+      throw new Error(
+        `Vectors remain in namespace "${namespace ?? ""}"; retrying later`
+      );
+    }
+    return {
+      namespaces: result.complete ? rest : namespaces,
+      deleted: result.deleted || 0,
+    };
+  }
+
+  /**
+   * Entities written or deleted while their page was being embedded may
+   * have just been overwritten with stale vectors; redo those from KV.
+   */
+  private async reconcileReindexedPage(
+    entities: BrainEntity[],
+    embedder: EmbeddingService,
+    namespace: string
+  ): Promise<void> {
+    const changed: BrainEntity[] = [];
+    for (const entity of entities) {
+      const current = await this.storage.retrieveBrainData(entity.id);
+      if (current?.metadata.version === entity.metadata.version) continue;
+
+      const removed = await this.deleteEntityVectors(entity.id, namespace);
+      if (!removed.complete) {
+        console.error(`❌ Stale vectors of ${entity.id} may remain`);
+      }
+      if (current && !isTrashed(current)) changed.push(current);
+    }
+
+    if (changed.length) {
+      await this.upsertChunkVectors(
+        changed.map((entity) => this.chunkEntity(entity, embedder)),
+        embedder,
+        namespace
+      );
+    }
+  }
+
+  // =====================================================
+  // CONSISTENCY (KV ↔ VECTOR STORE)
+  // =====================================================
+
+  /**
+   * Start a job comparing KV entities with the vectors in the active
+   * namespace; with `fix` every issue found is repaired as it is found.
+   */
+  async startReconcile(
+    options: { fix?: boolean } = {}
+  ): Promise<{ job?: JobStatus; error?: string }> {
+    if (!this.vectorStore) {
+      return { error: "No vector store configured; nothing to reconcile" };
+    }
+
+    const index = await this.vectorIndex();
+    const report: ConsistencyReport = {
+      namespace: this.activeNamespace(index),
+      model: index.model,
+      fix: Boolean(options.fix),
+      entitiesChecked: 0,
+      vectorsChecked: 0,
+      expectedVectors: 0,
+      orphanScan: "pending",
+      counts: {},
+      fixed: 0,
+      issues: [],
+      truncated: false,
+    };
+    const job = await this.startJob("maintenance", {
+      task: "reconcile",
+      phase: "entities",
+      total: (await this.storage.getBrainStats()).totalEntities,
+      report,
+    });
+    console.log(`🔎 Reconcile started (job ${job.id}, fix=${report.fix})`);
+    return { job };
+  }
+
+  /**
+   * One page of the check: first KV entities (missing, mismatched, stale
+   * vectors), then the namespace's vector ids (orphans).
+   */
+  private async runReconcileStep(job: JobStatus): Promise<JobStep> {
+    if (!this.vectorStore) throw new Error("No vector store configured");
+
+    const meta = job.metadata || {};
+    const report: ConsistencyReport = meta.report;
+    const index = await this.vectorIndex();
+    const namespace = this.activeNamespace(index);
+    if (namespace !== report.namespace || index.model !== report.model) {
+      throw new Error("Reads switched to another index; start a new check");
+    }
+
+    if (meta.phase === "entities") {
+      const page = await this.storage.listEntityPage(
+        meta.cursor,
+        RECONCILE_PAGE_SIZE
+      );
+      const issues = await this.checkEntityVectors(page.entities, report);
+      await this.recordIssues(report, issues, namespace);
+      report.entitiesChecked += page.entities.length;
+
+      if (page.cursor) {
+        const total = Math.max(meta.total || 0, report.entitiesChecked);
+        return {
+          done: false,
+          progress: Math.round((report.entitiesChecked / total) * 80),
+          metadata: { cursor: page.cursor, report },
+        };
+      }
+
+      const stats = await this.vectorStore.getStats(namespace);
+      report.namespaceVectorCount =
+        stats.namespaces?.[namespace ?? ""]?.vectorCount;
+      return {
+        done: false,
+        progress: 80,
+        metadata: { phase: "orphans", cursor: undefined, report },
+      };
+    }
+
+    let listed: { ids: string[]; next?: string };
+    try {
+      listed = await this.vectorStore.listIds({
+        namespace,
+        limit: 100,
+        paginationToken: meta.cursor,
+      });
+    } catch (error) {
+      // Pod-based Pinecone and Vectorize can't list ids; only stats remain
+      report.orphanScan = "unavailable";
+      report.orphanScanError =
+        error instanceof Error ? error.message : String(error);
+      return { done: true, metadata: { cursor: undefined, report } };
+    }
+
+    report.vectorsChecked += listed.ids.length;
+    await this.recordIssues(
+      report,
+      await this.findOrphanVectors(listed.ids, namespace),
+      namespace
+    );
+
+    if (listed.next) {
+      return {
+        done: false,
+        progress: 90,
+        metadata: { cursor: listed.next, report },
+      };
+    }
+    report.orphanScan = "complete";
+    const found = Object.values(report.counts).reduce(
+      (total, count) => total + (count || 0),
+      0
+    );
+    console.log(
+      `✅ Reconcile done: ${report.entitiesChecked} entities, ${found} issues, ${report.fixed} fixed`
+    );
+    return { done: true, metadata: { cursor: undefined, report } };
+  }
+
+  /** Compare each entity's expected chunks with the vectors stored for it */
+  private async checkEntityVectors(
+    entities: BrainEntity[],
+    report: ConsistencyReport
+  ): Promise<ConsistencyIssue[]> {
+    // One id past the expected chunks reveals leftovers of longer content
+    const embedder = this.embedderFor(report.model);
+    const expected = entities.map((entity) =>
+      this.chunkEntity(entity, embedder)
+    );
+    const ids = expected.flatMap(({ entity, chunks }) =>
+      Array.from({ length: chunks.length + 1 }, (_, i) =>
+        this.chunkVectorId(entity.id, i)
+      )
+    );
+    const vectors = await this.fetchVectors(ids, report.namespace);
+    report.vectorsChecked += vectors.size;
 
-        const relatedMeetings = sources.filter(
-          (s) => s.id !== targetMeeting.id
-        );
-        if (relatedMeetings.length > 0) {
-          answer += `Related meetings with similar topics:\n`;
-          relatedMeetings.slice(0, 3).forEach((meeting) => {
-            const id = meeting.id.match(/(\d+)/)?.[1] || meeting.id;
-            answer += `- Meeting ${id}: ${meeting.content.substring(
-              0,
-              100
-            )}...\n`;
+    const issues: ConsistencyIssue[] = [];
+    for (const { entity, chunks } of expected) {
+      const stored = chunks.map((_, i) =>
+        vectors.get(this.chunkVectorId(entity.id, i))
+      );
+      const extraIds = this.extraChunkIds(entity.id, chunks.length, vectors);
+      const present = stored.filter(Boolean).length;
+
+      if (isTrashed(entity)) {
+        const leftover = [
+          ...chunks
+            .map((_, i) => this.chunkVectorId(entity.id, i))
+            .filter((id) => vectors.has(id)),
+          ...extraIds,
+        ];
+        if (leftover.length) {
+          issues.push({
+            kind: "orphan_vectors",
+            id: entity.id,
+            vectorIds: leftover,
+            detail: "Entity is in the trash",
           });
         }
-        return answer;
+        continue;
+      }
+
+      report.expectedVectors += chunks.length;
+      if (present === 0 && extraIds.length === 0) {
+        issues.push({
+          kind: "missing_vectors",
+          id: entity.id,
+          detail: entity.metadata?.indexError,
+        });
+      } else if (present !== chunks.length || extraIds.length) {
+        issues.push({
+          kind: "chunk_mismatch",
+          id: entity.id,
+          ...(extraIds.length && { vectorIds: extraIds }),
+          detail: `${present} of ${chunks.length} chunks stored${
+            extraIds.length ? `, ${extraIds.length} extra` : ""
+          }`,
+        });
+      } else if (
+        stored.some(
+          (vector, i) =>
+            vector?.metadata?.content !== chunks[i].text ||
+            (vector?.metadata?.embeddingModel ?? DEFAULT_EMBEDDING_MODEL) !==
+              report.model
+        )
+      ) {
+        issues.push({
+          kind: "stale_content",
+          id: entity.id,
+          detail: "Vectors embed older content or another model",
+        });
+      } else if (!entity.metadata?.indexed) {
+        issues.push({ kind: "not_marked_indexed", id: entity.id });
       }
     }
 
-    const context = sources.map((s) => s.content).join("\n\n");
+    return issues;
+  }
 
-    if (options.responseStyle === "summary") {
-      return `Based on ${sources.length} relevant sources: ${context.substring(
-        0,
-        200
-      )}...`;
+  /** Listed vectors whose entity is gone, or that outlive its content */
+  private async findOrphanVectors(
+    vectorIds: string[],
+    namespace: string | undefined
+  ): Promise<ConsistencyIssue[]> {
+    const byEntity = new Map<string, string[]>();
+    for (const vectorId of vectorIds) {
+      const at = vectorId.lastIndexOf("_chunk_");
+      if (at <= 0) continue; // not written by this agent
+      const entityId = vectorId.slice(0, at);
+      byEntity.set(entityId, [...(byEntity.get(entityId) || []), vectorId]);
     }
 
-    if (options.responseStyle === "detailed") {
-      return `Query: ${query}\n\nDetailed analysis based on ${sources.length} sources:\n\n${context}`;
+    const issues: ConsistencyIssue[] = [];
+    for (const [id, ids] of byEntity) {
+      const entity = await this.storage.retrieveBrainData(id);
+      if (entity) {
+        // Trashed entities were covered by the entity pass
+        if (isTrashed(entity)) continue;
+        const leftover = await this.chunksPastContent(entity, ids, namespace);
+        if (leftover.length) {
+          issues.push({
+            kind: "orphan_vectors",
+            id,
+            vectorIds: leftover,
+            detail: "Chunks past the end of the entity's content",
+          });
+        }
+        continue;
+      }
+      // The legacy agent keeps conversations in the default namespace
+      if (!this.organizationId && (await this.storage.retrieve(id))) continue;
+      issues.push({
+        kind: "orphan_vectors",
+        id,
+        vectorIds: ids,
+        detail: "Entity no longer exists",
+      });
     }
-
-    return `Found ${sources.length} relevant items. Top result (${Math.round(
-      (sources[0].score || 0) * 100
-    )}% match): ${sources[0].content.substring(0, 300)}...`;
+    return issues;
   }
-  // =====================================================
-  // INDEXING
-  // =====================================================
 
-  /** Index content (Pinecone if available; always store doc-level embedding in KV) */
-  private async indexContent(data: BrainEntity): Promise<void> {
-    try {
-      // 1) Always compute and store a doc-level embedding for KV fallback
-      const docChunks = this.embedding.chunkText(data.content);
-      const docEmb = await this.embedding.generateEmbedding(
-        docChunks[0] ?? data.content
-      );
+  /**
+   * Listed chunks of a live entity beyond its current chunk count that the
+   * entity pass could not see (it only probes one chunk past the end).
+   */
+  private async chunksPastContent(
+    entity: BrainEntity,
+    vectorIds: string[],
+    namespace: string | undefined
+  ): Promise<string[]> {
+    const embedder = this.embedderFor((await this.vectorIndex()).model);
+    const expected = this.chunkEntity(entity, embedder).chunks.length;
+    const beyond = vectorIds.filter(
+      (id) => Number(id.slice(id.lastIndexOf("_chunk_") + 7)) >= expected
+    );
+    if (!beyond.length) return [];
+
+    const probed = await this.fetchVectors(
+      [
+        this.chunkVectorId(entity.id, 0),
+        this.chunkVectorId(entity.id, expected),
+      ],
+      namespace
+    );
+    const reported = new Set(this.extraChunkIds(entity.id, expected, probed));
+    return beyond.filter((id) => !reported.has(id));
+  }
 
-      let newMeta = {
-        ...data.metadata,
-        embedding: docEmb,
-        indexed: true,
-        indexedAt: Date.now(),
-      };
+  /** Chunk ids past `expected` that the stored chunk 0 or chunk n reveal */
+  private extraChunkIds(
+    entityId: string,
+    expected: number,
+    vectors: Map<string, VectorRecord>
+  ): string[] {
+    const first = vectors.get(this.chunkVectorId(entityId, 0));
+    const storedTotal = Math.max(
+      Number(first?.metadata?.totalChunks) || 0,
+      vectors.has(this.chunkVectorId(entityId, expected)) ? expected + 1 : 0
+    );
+    return Array.from({ length: Math.max(0, storedTotal - expected) }, (_, i) =>
+      this.chunkVectorId(entityId, expected + i)
+    );
+  }
 
-      // 2) If Pinecone exists, index chunk-level vectors
-      if (this.pinecone) {
-        const chunks = docChunks;
-        console.log(`📄 Created ${chunks.length} chunks for indexing`);
-
-        const vectors = [];
-        for (let i = 0; i < chunks.length; i++) {
-          const chunk = chunks[i];
-          const chunkId = `${data.id}_chunk_${i}`;
-          const emb = await this.embedding.generateEmbedding(chunk);
-          vectors.push({
-            id: chunkId,
-            values: emb,
-            metadata: {
-              ...data.metadata,
-              createdAt: data.metadata?.createdAt,
-              originalId: data.id,
-              content: chunk,
-              chunkIndex: i,
-              totalChunks: chunks.length,
-              type: data.type,
-              category: data.metadata?.category,
-              userId: data.metadata?.userId,
-            },
-          });
+  /** Count (and with fix, repair) issues; only the first few are listed */
+  private async recordIssues(
+    report: ConsistencyReport,
+    issues: ConsistencyIssue[],
+    namespace: string | undefined
+  ): Promise<void> {
+    for (const issue of issues) {
+      if (report.fix) {
+        try {
+          await this.repairIssue(issue, namespace);
+          issue.fixed = true;
+          report.fixed++;
+        } catch (error) {
+          issue.fixed = false;
+          issue.fixError =
+            error instanceof Error ? error.message : String(error);
         }
+      }
 
-        await this.pinecone.upsert(vectors);
-        console.log("✅ Content indexed in Pinecone");
+      report.counts[issue.kind] = (report.counts[issue.kind] || 0) + 1;
+      if (report.issues.length < MAX_REPORTED_ISSUES) {
+        report.issues.push(issue);
       } else {
-        console.log(
-          "ℹ️ Pinecone not configured — stored doc-level embedding in KV"
-        );
+        report.truncated = true;
       }
+    }
+  }
 
-      // Persist metadata update
-      await this.storage.storeBrainData({ ...data, metadata: newMeta });
-    } catch (error) {
-      console.error("❌ Indexing failed:", error);
-      throw error;
+  private async repairIssue(
+    issue: ConsistencyIssue,
+    namespace: string | undefined
+  ): Promise<void> {
+    if (!this.vectorStore) throw new Error("No vector store configured");
+
+    if (issue.kind === "orphan_vectors") {
+      await this.vectorStore.deleteById(issue.vectorIds || [], namespace);
+      return;
+    }
+
+    const entity = await this.storage.retrieveBrainData(issue.id);
+    if (!entity || isTrashed(entity)) return; // gone since the check
+
+    if (issue.kind === "not_marked_indexed") {
+      await this.persistIndexState({
+        ...entity,
+        metadata: {
+          ...entity.metadata,
+          indexed: true,
+          indexedAt: Date.now(),
+          indexError: undefined,
+        },
+      });
+      return;
+    }
+
+    // Unlike deleteFromIndex, failures here surface in the report
+    const removed = await this.deleteEntityVectors(issue.id, namespace);
+    if (!removed.complete) {
+      throw new Error(`Old vectors of ${issue.id} remain; run the fix again`);
     }
+    await this.indexContent(entity);
   }
 
-  /** Remove content from vector index (no-op if Pinecone not configured) */
-  private async deleteFromIndex(id: string): Promise<void> {
-    try {
-      if (!this.pinecone) return;
-      await this.pinecone.deleteByFilter({ originalId: id });
-      console.log("✅ Removed from vector index");
-    } catch (error) {
-      console.error("❌ Index deletion failed:", error);
+  /** Fetch vectors by id in URL-sized batches; missing ids are absent */
+  private async fetchVectors(
+    ids: string[],
+    namespace: string | undefined
+  ): Promise<Map<string, VectorRecord>> {
+    const found = new Map<string, VectorRecord>();
+    for (let i = 0; i < ids.length; i += VECTOR_FETCH_BATCH) {
+      const { vectors } = await this.vectorStore!.fetch(
+        ids.slice(i, i + VECTOR_FETCH_BATCH),
+        namespace
+      );
+      for (const [id, vector] of Object.entries(vectors || {})) {
+        found.set(id, vector);
+      }
     }
+    return found;
   }
 
-  /** Clear related caches */
-  private async clearRelatedCaches(
-    type?: string,
-    category?: string
-  ): Promise<void> {
-    if (type) await this.cache.delete(`type:${type}`);
-    if (category) await this.cache.delete(`category:${category}`);
+  private chunkVectorId(entityId: string, chunkIndex: number): string {
+    return `${entityId}_chunk_${chunkIndex}`;
+  }
+
+  /** Load (once per request) which model and namespace serve reads */
+  private vectorIndex(): Promise<VectorIndexState> {
+    this.indexState ??= this.storage
+      .getVectorIndexState()
+      .then((state) => state ?? { model: defaultEmbeddingModel(this.env) });
+    return this.indexState;
+  }
+
+  private activeNamespace(state: VectorIndexState): string | undefined {
+    return state.namespace ?? this.namespace;
+  }
+
+  private reindexNamespace(model: string): string {
+    const slug = model.replace(/^@cf\//, "").replace(/[^a-zA-Z0-9]+/g, "-");
+    const base = this.namespace ? `${this.namespace}-` : "";
+    return `${base}${slug}-${Date.now().toString(36)}`;
+  }
+
+  private embedderFor(model: string): EmbeddingService {
+    let embedder = this.embedders.get(model);
+    if (!embedder) {
+      embedder = new EmbeddingService(this.env, model);
+      this.embedders.set(model, embedder);
+    }
+    return embedder;
   }
 
   // =====================================================
   // BATCH OPS
   // =====================================================
 
-  async bulkCreate(items: BrainData[]): Promise<CRUDResult[]> {
+  /** Create in batches: each batch is stored in order and embedded in one pass */
+  async bulkCreate(
+    items: BrainData[],
+    options: BulkCreateRequest["options"] = {}
+  ): Promise<BatchResult> {
+    const batchSize = Math.min(
+      MAX_CREATE_BATCH_SIZE,
+      Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE)
+    );
     const results: CRUDResult[] = [];
-    for (const item of items) {
-      results.push(await this.create(item));
-      await new Promise((r) => setTimeout(r, 5));
+
+    for (let i = 0; i < items.length; i += batchSize) {
+      const batch = items.slice(i, i + batchSize);
+      const stopped = options.stopOnError && results.some((r) => !r.success);
+
+      if (stopped) {
+        results.push(
+          ...batch.map((item) => ({
+            success: false,
+            message: "Skipped: stopped after an earlier failure",
+            data: null,
+            metadata: { operation: "create" as const, id: item.id },
+          }))
+        );
+        continue;
+      }
+
+      results.push(...(await this.createBatch(batch, options)));
+    }
+
+    return summarizeBatch(
+      "create",
+      results,
+      items.map((item) => item.id)
+    );
+  }
+
+  private async createBatch(
+    batch: BrainData[],
+    options: BulkCreateRequest["options"] = {}
+  ): Promise<CRUDResult[]> {
+    const results: CRUDResult[] = batch.map((item) => ({
+      ...(this.validateCreate(item) ?? {
+        success: true,
+        message: options.skipIndexing
+          ? "Data created (indexing skipped)"
+          : "Data created and indexed successfully",
+        data: this.enrichNew(item),
+      }),
+      metadata: { operation: "create", id: item.id },
+    }));
+
+    // With stopOnError, nothing after the first invalid item is written
+    if (options.stopOnError) {
+      const firstInvalid = results.findIndex((r) => !r.success);
+      if (firstInvalid >= 0) {
+        for (let i = firstInvalid + 1; i < results.length; i++) {
+          results[i] = {
+            success: false,
+            message: "Skipped: stopped after an earlier failure",
+            data: null,
+            metadata: { operation: "create", id: batch[i].id },
+          };
+        }
+      }
+    }
+
+    // One write at a time: items share index and counter keys, which
+    // concurrent writers would hit past the per-key write rate
+    for (const [i, r] of results.entries()) {
+      if (!r.success || !r.data) continue;
+      if (options.stopOnError && results.slice(0, i).some((x) => !x.success)) {
+        results[i] = {
+          success: false,
+          message: "Skipped: stopped after an earlier failure",
+          data: null,
+          metadata: { operation: "create", id: r.data.id },
+        };
+        continue;
+      }
+      try {
+        const conflict = await this.storeNew(r.data);
+        if (conflict) {
+          results[i] = {
+            ...conflict,
+            metadata: { ...conflict.metadata, id: r.data.id },
+          };
+        }
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        r.success = false;
+        r.message = `Failed to create: ${msg}`;
+        r.data = null;
+      }
+    }
+
+    const stored = results.filter((r) => r.success && r.data);
+    const storedEntities = stored.map((r) => r.data as BrainEntity);
+    if (!options.skipIndexing && stored.length > 0) {
+      try {
+        await this.indexEntities(storedEntities);
+      } catch (error) {
+        // Stored with indexError set; retrying the create would duplicate
+        // them, so they're reported created and can be re-indexed later
+        const msg = error instanceof Error ? error.message : String(error);
+        for (const r of stored) {
+          const entity = r.data as BrainEntity;
+          r.message = `Data created; indexing failed: ${msg}`;
+          r.data = {
+            ...entity,
+            metadata: { ...entity.metadata, indexed: false, indexError: msg },
+          };
+          r.metadata = { ...r.metadata, indexError: msg };
+        }
+      }
+    }
+
+    const touched = new Set<string>();
+    for (const entity of storedEntities) {
+      const key = `${entity.type}|${entity.metadata?.category ?? ""}`;
+      if (touched.has(key)) continue;
+      touched.add(key);
+      await this.clearRelatedCaches(entity.type, entity.metadata?.category);
     }
+
+    console.log(
+      `📦 Bulk create batch: ${storedEntities.length}/${batch.length} stored`
+    );
     return results;
   }
 
+  /** Apply updates in batches; items within a batch run concurrently */
   async bulkUpdate(
-    updates: Array<{ id: string; data: Partial<BrainData> }>
+    updates: BulkUpdateRequest["updates"],
+    options: BulkUpdateRequest["options"] = {}
+  ): Promise<BatchResult> {
+    const batchSize = Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE);
+    const results: CRUDResult[] = [];
+
+    for (let i = 0; i < updates.length; i += batchSize) {
+      const batch = updates.slice(i, i + batchSize);
+      const batchResults = await Promise.all(
+        batch.map(async ({ id, data, expectedVersion }) => {
+          const res = await this.update(id, data, {
+            reindex: options.reindexAll,
+            expectedVersion,
+          });
+          return { ...res, metadata: { ...res.metadata, id } };
+        })
+      );
+      results.push(...batchResults);
+    }
+
+    return summarizeBatch(
+      "update",
+      results,
+      updates.map((u) => u.id)
+    );
+  }
+
+  async bulkDelete(
+    ids: string[],
+    options: BulkDeleteRequest["options"] = {}
   ): Promise<CRUDResult[]> {
+    const batchSize = Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE);
     const results: CRUDResult[] = [];
-    for (const { id, data } of updates) {
-      results.push(await this.update(id, data));
-      await new Promise((r) => setTimeout(r, 5));
+
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize);
+      results.push(
+        ...(await Promise.all(
+          batch.map((id) => this.delete(id, { softDelete: options.softDelete }))
+        ))
+      );
     }
     return results;
   }
 
-  async bulkDelete(ids: string[]): Promise<CRUDResult[]> {
+  // =====================================================
+  // IMPORT / EXPORT
+  // =====================================================
+
+  /**
+   * Serialize matching entities as a DataExport document ("json") or as
+   * NDJSON (header line, then one entity per line), yielded piece by piece
+   * so large exports can be streamed. Embeddings are left out; imports
+   * re-index the content anyway.
+   */
+  async *exportData(
+    filters: EntityFilters = {},
+    format: "json" | "ndjson" = "json"
+  ): AsyncGenerator<string> {
+    const { limit: _limit, ...exportFilters } = filters;
+    const filtered = Object.values(exportFilters).some((v) => v !== undefined);
+    const header: Omit<DataExport, "entities" | "totalEntities"> = {
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: Date.now(),
+      metadata: {
+        exportType: filtered ? "filtered" : "full",
+        filters: filtered ? exportFilters : undefined,
+        format,
+      },
+    };
+
+    if (format === "ndjson") {
+      yield JSON.stringify(header) + "\n";
+    } else {
+      yield JSON.stringify(header).slice(0, -1) + ',"entities":[';
+    }
+
+    let total = 0;
+    for await (const entity of this.storage.scanEntities(exportFilters)) {
+      const { embedding: _embedding, ...metadata } = entity.metadata;
+      const line = JSON.stringify({ ...entity, metadata });
+
+      if (format === "ndjson") {
+        yield line + "\n";
+      } else {
+        yield (total > 0 ? "," : "") + line;
+      }
+      total++;
+    }
+
+    if (format === "json") {
+      yield `],"totalEntities":${total}}`;
+    }
+    console.log(`📤 Exported ${total} entities (${format})`);
+  }
+
+  /**
+   * Import entities (from a DataImport or a DataExport produced by exportData).
+   * With preserveIds the original id, createdAt and version are kept and
+   * conflicts follow skipExisting (checked first) / updateExisting; without
+   * it every entity is created fresh under a new id.
+   */
+  async importData(payload: DataImport): Promise<BatchResult> {
+    const options = payload.options || {};
+    const batchSize = Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE);
+    const entities = Array.isArray(payload.entities) ? payload.entities : [];
+    const results: CRUDResult[] = [];
+
+    console.log(`📥 Importing ${entities.length} entities`, options);
+
+    for (let i = 0; i < entities.length; i += batchSize) {
+      const batch = entities.slice(i, i + batchSize);
+      results.push(...(await this.importBatch(batch, options)));
+    }
+
+    return summarizeBatch(
+      "import",
+      results,
+      entities.map((e) => e?.id)
+    );
+  }
+
+  /**
+   * Store a batch one item at a time (an id can repeat within it), then
+   * index what was stored in one pass
+   */
+  private async importBatch(
+    batch: BrainData[],
+    options: NonNullable<DataImport["options"]>
+  ): Promise<CRUDResult[]> {
+    // By id, so a repeated id is indexed once, as last stored
+    const toIndex = new Map<string, BrainEntity>();
     const results: CRUDResult[] = [];
-    for (const id of ids) {
-      results.push(await this.delete(id));
-      await new Promise((r) => setTimeout(r, 5));
+
+    for (const item of batch) {
+      const result = await this.importItem(item, options);
+      results.push(result);
+      const entity = result.data;
+      if (!result.success || result.metadata?.skipped || !entity) continue;
+
+      if (result.metadata?.operation === "update") {
+        await this.deleteFromIndex(entity.id);
+      }
+      toIndex.delete(entity.id);
+      if (!isTrashed(entity)) toIndex.set(entity.id, entity);
+    }
+
+    const indexed = [...toIndex.values()];
+    if (indexed.length > 0) {
+      try {
+        await this.indexEntities(indexed);
+      } catch (error) {
+        // Entities are stored with indexError set and can be re-indexed later
+        const msg = error instanceof Error ? error.message : String(error);
+        for (const r of results) {
+          if (r.success && r.data && indexed.includes(r.data)) {
+            r.message = `${r.message} (indexing failed: ${msg})`;
+          }
+        }
+      }
+    }
+
+    const touched = new Set<string>();
+    for (const entity of indexed) {
+      const key = `${entity.type}|${entity.metadata?.category ?? ""}`;
+      if (touched.has(key)) continue;
+      touched.add(key);
+      await this.clearRelatedCaches(entity.type, entity.metadata?.category);
     }
+
     return results;
   }
 
+  /**
+   * Store one imported item. A preserved id is checked and written under
+   * its entity lock; replacing an entity continues its version history
+   * instead of rewinding it to the imported version.
+   */
+  private async importItem(
+    item: BrainData,
+    options: NonNullable<DataImport["options"]>
+  ): Promise<CRUDResult> {
+    const sourceId = item?.id;
+    const fail = (message: string): CRUDResult => ({
+      success: false,
+      message,
+      data: null,
+      metadata: { operation: "create", id: sourceId },
+    });
+
+    try {
+      const invalid = this.validateCreate(item);
+      if (invalid) return fail(invalid.message);
+
+      if (!options.preserveIds) {
+        const entity = this.enrichNew({
+          ...item,
+          id: crypto.randomUUID(),
+          metadata: this.stripSystemMetadata(item.metadata),
+        });
+        await this.storage.storeBrainData(entity);
+        return {
+          success: true,
+          message: "Imported",
+          data: entity,
+          metadata: { operation: "create", id: entity.id, sourceId },
+        };
+      }
+
+      return await this.storage.withEntityLock(item.id, async () => {
+        const existing = await this.storage.retrieveBrainData(item.id);
+        if (existing && options.skipExisting) {
+          return {
+            success: true,
+            message: "Skipped: already exists",
+            data: existing,
+            metadata: { operation: "create", id: item.id, skipped: true },
+          };
+        }
+        if (existing && !options.updateExisting) {
+          return fail(`Data with ID ${item.id} already exists`);
+        }
+
+        const imported = this.restoreImported(item);
+        const entity: BrainEntity = existing
+          ? {
+              ...imported,
+              metadata: {
+                ...imported.metadata,
+                version: existing.metadata.version + 1,
+                previousVersion: existing.metadata.version,
+              },
+            }
+          : imported;
+        await this.storage.storeBrainData(entity);
+
+        return {
+          success: true,
+          message: existing ? "Updated existing entity" : "Imported",
+          data: entity,
+          metadata: {
+            operation: existing ? "update" : "create",
+            id: entity.id,
+            sourceId,
+          },
+        };
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      return fail(`Failed to import: ${msg}`);
+    }
+  }
+
+  /** Rebuild an exported entity, keeping its original timestamps and version */
+  private restoreImported(item: BrainData): BrainEntity {
+    const source = (item.metadata || {}) as Partial<BrainEntity["metadata"]>;
+    const now = Date.now();
+
+    return {
+      id: item.id,
+      content: item.content,
+      type: item.type,
+      metadata: {
+        ...this.stampOrganization(this.stripSystemMetadata(item.metadata)),
+        createdAt: source.createdAt ?? now,
+        updatedAt: source.updatedAt ?? source.createdAt ?? now,
+        version: source.version ?? 1,
+        previousVersion: source.previousVersion,
+        indexed: false,
+      },
+    };
+  }
+
+  /** Drop fields the storage and indexing layers own; they are recomputed */
+  private stripSystemMetadata(
+    metadata: BrainData["metadata"]
+  ): BrainData["metadata"] {
+    if (!metadata) return {};
+    return Object.fromEntries(
+      Object.entries(metadata).filter(
+        ([key]) => !SYSTEM_METADATA_KEYS.includes(key)
+      )
+    );
+  }
+
   // =====================================================
   // ANALYTICS
   // =====================================================
 
-  async getAnalytics(): Promise<any> {
-    try {
-      const stats = await this.storage.getBrainStats();
+  /**
+   * Counters maintained on every write. `rebuild` (or counters never
+   * seeded) starts a background recount, whose job id is returned.
+   */
+  async getAnalytics(rebuild = false): Promise<BrainAnalytics> {
+    const stats = await this.storage.getBrainStats();
+    if (!rebuild && !stats.pending) return stats;
+
+    const job = await this.startStatsRebuild();
+    return { ...stats, jobId: job.id };
+  }
+
+  // =====================================================
+  // TENANCY
+  // =====================================================
+
+  /**
+   * Start a job irreversibly deleting an organization: its vector namespaces,
+   * then every KV key under its prefix (entities, indexes, stats, cache) and
+   * its D1 rows, a page per step. Runs on the platform (default tenant)
+   * agent, whose job records outlive the tenant's.
+   */
+  async startTenantDeletion(organizationId: string): Promise<JobStatus> {
+    if (this.organizationId) {
+      throw new Error("Tenants are deleted by the platform agent");
+    }
+    console.log("🏢 Deleting tenant:", organizationId);
+    return this.startJob("maintenance", {
+      task: "delete-tenant",
+      organizationId,
+      phase: "vectors",
+      vectorsDeleted: 0,
+      deletedKeys: 0,
+    });
+  }
+
+  private async runTenantDeletionStep(job: JobStatus): Promise<JobStep> {
+    const tenant = new RAGBrainAgent(
+      this.env,
+      job.metadata?.organizationId,
+      this.actor,
+      this.ctx,
+      this.services
+    );
+    return tenant.deleteTenantStep(job.metadata || {});
+  }
+
+  /**
+   * One step deleting this organization. Vectors go first, one deleteAll
+   * pass at a time over every namespace it may use (earlier reindexes may
+   * have left it in several), while the index state naming them still
+   * exists; then KV keys a page at a time.
+   */
+  private async deleteTenantStep(meta: Record<string, any>): Promise<JobStep> {
+    if (!this.organizationId) {
+      throw new Error("The default tenant cannot be deleted");
+    }
+
+    if (meta.phase === "vectors" && this.vectorStore) {
+      let namespaces: Array<string | null> | undefined = meta.namespaces;
+      if (!namespaces) {
+        const index = await this.vectorIndex();
+        namespaces = [
+          ...new Set([
+            this.namespace,
+            index.namespace,
+            index.previousNamespace,
+            index.migration?.namespace,
+          ]),
+        ].filter((namespace): namespace is string => Boolean(namespace));
+      }
+      if (namespaces.length) {
+        const total = meta.namespaceCount || namespaces.length;
+        const purged = await this.purgeNextNamespace(namespaces);
+        return {
+          done: false,
+          progress:
+            10 + Math.round(((total - purged.namespaces.length) / total) * 40),
+          metadata: {
+            phase: purged.namespaces.length ? "vectors" : "keys",
+            namespaces: purged.namespaces,
+            namespaceCount: total,
+            vectorsDeleted: (meta.vectorsDeleted || 0) + purged.deleted,
+          },
+        };
+      }
+    }
+
+    const page = await this.storage.deleteTenantPage(meta.cursor);
+    const deletedKeys = (meta.deletedKeys || 0) + page.deleted;
+    if (page.cursor) {
+      // Key counts aren't known up front; progress holds until the last page
       return {
-        totalEntities: stats.totalEntities,
-        byType: stats.byType,
-        byCategory: stats.byCategory,
-        recentActivity: stats.recentActivity,
-        indexingStatus: stats.indexingStatus,
-        storageUsage: stats.storageUsage,
-        generatedAt: Date.now(),
+        done: false,
+        progress: 50,
+        metadata: { phase: "keys", cursor: page.cursor, deletedKeys },
       };
-    } catch (error) {
-      console.error("❌ Analytics error:", error);
-      return { error: "Failed to generate analytics" };
     }
+
+    console.log(
+      `✅ Tenant ${this.organizationId} deleted: ${deletedKeys} KV keys`
+    );
+    return {
+      done: true,
+      metadata: { phase: "done", cursor: undefined, deletedKeys },
+    };
+  }
+
+  // =====================================================
+  // HEALTH
+  // =====================================================
+
+  /**
+   * The latest probe result, rerun at most every HEALTH_CACHE_MS so /health
+   * can't be used to hammer Workers AI, the cache and the vector DB
+   */
+  healthCheck(): Promise<HealthCheck> {
+    const tenant = this.organizationId ?? "";
+    const cached = healthResults.get(tenant);
+    if (cached && cached.expiresAt > Date.now()) return cached.result;
+
+    const result = this.probeHealth();
+    healthResults.set(tenant, {
+      expiresAt: Date.now() + HEALTH_CACHE_MS,
+      result,
+    });
+    return result;
+  }
+
+  /**
+   * Probe every dependency concurrently. The storage backend holds every
+   * record, so its failure is unhealthy; vector DB, embedding or cache
+   * failures degrade.
+   */
+  private async probeHealth(
+    timeoutMs: number = HEALTH_PROBE_TIMEOUT_MS
+  ): Promise<HealthCheck> {
+    const start = Date.now();
+
+    const [storage, vectorDB, embedding, cache] = await Promise.all([
+      runProbe(() => this.storage.probe(), timeoutMs),
+      runProbe(async () => {
+        if (!this.vectorStore) return "No vector store; using KV search";
+        const res = await this.vectorStore.healthCheck();
+        if (res.status !== "healthy") throw new Error(res.error);
+      }, timeoutMs),
+      runProbe(async () => {
+        const { model } = await this.vectorIndex();
+        const vector = await this.embedderFor(model).generateEmbedding(
+          "health check"
+        );
+        if (!vector.length) throw new Error("Empty embedding");
+        return `${vector.length} dimensions`;
+      }, timeoutMs),
+      runProbe(async () => {
+        const key = `health:${crypto.randomUUID()}`;
+        await this.cache.set(key, true, 60);
+        const hit = await this.cache.get<boolean>(key);
+        await this.cache.delete(key);
+        if (!hit) throw new Error("Cache round trip missed");
+      }, timeoutMs),
+    ]);
+
+    const checks = { storage, vectorDB, embedding, cache };
+    const failed = Object.values(checks).some((c) => c.status === "error");
+
+    let storageUsage = 0;
+    if (storage.status === "ok") {
+      try {
+        storageUsage = (await this.storage.getBrainStats()).storageUsage
+          .totalSize;
+      } catch (error) {
+        console.error("❌ Health stats lookup failed:", error);
+      }
+    }
+
+    return {
+      status:
+        storage.status === "error"
+          ? "unhealthy"
+          : failed
+          ? "degraded"
+          : "healthy",
+      timestamp: Date.now(),
+      services: {
+        storage: storage.status,
+        vectorDB: vectorDB.status,
+        embedding: embedding.status,
+        cache: cache.status,
+      },
+      checks,
+      metrics: {
+        responseTime: Date.now() - start,
+        memoryUsage: (globalThis as any).process?.memoryUsage?.().heapUsed ?? 0,
+        storageUsage,
+      },
+    };
   }
 
   // =====================================================
@@ -713,11 +3662,16 @@ export class RAGBrainAgent {
       },
       {
         name: "brain_delete",
-        description: "Remove data from the brain completely",
+        description:
+          "Remove data from the brain completely, or move it to the trash",
         parameters: {
           type: "object",
           properties: {
             id: { type: "string", description: "ID of data to delete" },
+            softDelete: {
+              type: "boolean",
+              description: "Move to trash instead of deleting permanently",
+            },
           },
           required: ["id"],
         },
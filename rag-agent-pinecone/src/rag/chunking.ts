@@ -0,0 +1,281 @@
+// src/rag/chunking.ts - Sentence-aligned chunks budgeted in estimated tokens, with overlap
+import { EmbeddingOptions, Env } from "../types";
+
+/** A slice of the source text: `text === source.slice(start, end)` */
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+  /** Estimated model tokens, special tokens excluded */
+  tokens: number;
+}
+
+/** Resolved chunk settings, in estimated tokens (see estimateTokens) */
+export interface ChunkSettings {
+  chunkSize: number;
+  overlapTokens: number;
+}
+
+export const DEFAULT_CHUNK_SIZE = 200;
+export const DEFAULT_OVERLAP_TOKENS = 32;
+
+/** Chunk settings per entity type; "*" applies to every type not listed */
+const DEFAULT_CHUNKING: Record<string, EmbeddingOptions> = {
+  // Short turns: smaller chunks, more context carried between them
+  conversation: { chunkSize: 160, overlapTokens: 40 },
+  document: { chunkSize: 320, overlapTokens: 48 },
+  "*": { chunkSize: DEFAULT_CHUNK_SIZE, overlapTokens: DEFAULT_OVERLAP_TOKENS },
+};
+
+/** CHUNKING env var: JSON map of entity type → EmbeddingOptions */
+export function chunkingConfig(env: Env): Record<string, EmbeddingOptions> {
+  if (!env.CHUNKING) return DEFAULT_CHUNKING;
+  try {
+    return { ...DEFAULT_CHUNKING, ...JSON.parse(env.CHUNKING) };
+  } catch (error) {
+    console.error("Invalid CHUNKING, using defaults:", error);
+    return DEFAULT_CHUNKING;
+  }
+}
+
+// =====================================================
+// TOKENS
+// =====================================================
+
+/** BERT-style pre-tokens: runs of letters, runs of digits, single symbols */
+const PRE_TOKEN = /[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]/gu;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/** WordPiece pieces one pre-token is likely to become, erring high */
+function pieceTokens(piece: string): number {
+  if (/^\p{N}/u.test(piece)) return Math.ceil(piece.length / 2);
+  if (CJK.test(piece)) return piece.length;
+  if (/^[\p{L}\p{M}]/u.test(piece)) {
+    return piece.length <= 6 ? 1 : Math.ceil(piece.length / 4);
+  }
+  return 1;
+}
+
+/**
+ * Estimated model tokens. This is a heuristic, not the model's tokenizer:
+ * without its vocabulary it counts pre-tokens and charges long words and
+ * numbers extra pieces, so it over-counts rather than letting a chunk run
+ * past the model's limit. Every chunk size here is in these estimates.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(PRE_TOKEN)) tokens += pieceTokens(piece);
+  return tokens;
+}
+
+/** The longest prefix of `text` estimated at no more than `maxTokens` */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  let tokens = 0;
+  for (const match of text.matchAll(PRE_TOKEN)) {
+    tokens += pieceTokens(match[0]);
+    if (tokens > maxTokens) return text.slice(0, match.index).trimEnd();
+  }
+  return text;
+}
+
+// =====================================================
+// SENTENCES
+// =====================================================
+
+/** Lowercased words that take a period without ending the sentence */
+const ABBREVIATIONS = new Set(
+  (
+    "mr mrs ms dr prof sr jr st vs etc inc ltd co corp no fig approx dept " +
+    "est jan feb mar apr jun jul aug sep sept oct nov dec"
+  ).split(" ")
+);
+
+/**
+ * Sentence-ending punctuation (with closing quotes and brackets) followed by
+ * whitespace, or a line break. Decimals ("3.14") and URLs ("example.com/a")
+ * never match since no whitespace follows their periods.
+ */
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s|$)|\n/g;
+const NEXT_CHAR = /\s*(\S?)/y;
+const BLANK_LINE = /[^\S\n]*\n/y;
+
+/** Whether the punctuation or line break at [at, end) closes a sentence */
+function endsSentence(text: string, at: number, end: number): boolean {
+  NEXT_CHAR.lastIndex = end;
+  const next = NEXT_CHAR.exec(text)?.[1];
+  if (!next) return true;
+
+  if (text[at] === "\n") {
+    // Paragraph breaks always end; a wrapped line continues in lowercase
+    BLANK_LINE.lastIndex = end;
+    return BLANK_LINE.test(text) || !/\p{Ll}/u.test(next);
+  }
+  // "e.g. this", "approx. five", "wait... what"
+  if (/\p{Ll}/u.test(next)) return false;
+  // Only a lone period can belong to an abbreviation
+  if (text[at] !== "." || /[.!?…]/.test(text[at + 1])) return true;
+
+  let wordStart = at;
+  while (wordStart > 0 && !/\s/.test(text[wordStart - 1])) wordStart--;
+  const word = text
+    .slice(wordStart, at)
+    .replace(/^[^\p{L}\p{N}]+/u, "")
+    .toLowerCase();
+  // Abbreviations, initials ("J. Smith") and acronyms ("U.S. Army")
+  return !(
+    ABBREVIATIONS.has(word) ||
+    /^\p{L}$/u.test(word) ||
+    /^(\p{L}\.)+\p{L}$/u.test(word)
+  );
+}
+
+/** Sentence spans in `text`, trimmed of surrounding whitespace */
+export function splitSentences(
+  text: string
+): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) spans.push({ start, end });
+  };
+
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    if (!endsSentence(text, match.index!, end)) continue;
+    push(start, end);
+    start = end;
+  }
+  push(start, text.length);
+  return spans;
+}
+
+// =====================================================
+// CHUNKS
+// =====================================================
+
+interface Unit {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+/**
+ * Sentences that fit in a chunk stay whole; longer ones fall back to words,
+ * and words longer than a chunk (encoded blobs) to even slices.
+ */
+function toUnits(
+  text: string,
+  span: { start: number; end: number },
+  chunkSize: number
+): Unit[] {
+  const tokens = estimateTokens(text.slice(span.start, span.end));
+  if (tokens <= chunkSize) return [{ ...span, tokens }];
+
+  const slice = text.slice(span.start, span.end);
+  if (/\s/.test(slice)) {
+    return [...slice.matchAll(/\S+/g)].flatMap((word) => {
+      const start = span.start + word.index!;
+      return toUnits(text, { start, end: start + word[0].length }, chunkSize);
+    });
+  }
+
+  let length = Math.max(1, Math.floor((slice.length * chunkSize) / tokens));
+  while (length > 1 && estimateTokens(slice.slice(0, length)) > chunkSize) {
+    length = Math.floor(length / 2);
+  }
+  const units: Unit[] = [];
+  for (let i = 0; i < slice.length; i += length) {
+    const piece = slice.slice(i, i + length);
+    units.push({
+      start: span.start + i,
+      end: span.start + i + piece.length,
+      tokens: estimateTokens(piece),
+    });
+  }
+  return units;
+}
+
+/**
+ * The trailing words of `unit` (never all of them) that fit in `budget`
+ * estimated tokens, as units of their own
+ */
+function trailingWords(text: string, unit: Unit, budget: number): Unit[] {
+  const words = [...text.slice(unit.start, unit.end).matchAll(/\S+/g)];
+  const carried: Unit[] = [];
+  let tokens = 0;
+  for (let i = words.length - 1; i > 0; i--) {
+    const start = unit.start + words[i].index!;
+    const wordTokens = estimateTokens(words[i][0]);
+    if (tokens + wordTokens > budget) break;
+    carried.unshift({
+      start,
+      end: start + words[i][0].length,
+      tokens: wordTokens,
+    });
+    tokens += wordTokens;
+  }
+  return carried;
+}
+
+/**
+ * Pack whole sentences into chunks of at most `chunkSize` estimated tokens.
+ * Each new chunk starts with as many of the previous chunk's trailing
+ * sentences as fit in `overlapTokens`, or, when even the last sentence
+ * doesn't fit, with its trailing words that do. Offsets point into `text`.
+ */
+export function chunkByTokens(
+  text: string,
+  settings: ChunkSettings
+): TextChunk[] {
+  const { chunkSize, overlapTokens } = settings;
+  const units = splitSentences(text).flatMap((span) =>
+    toUnits(text, span, chunkSize)
+  );
+  if (units.length === 0) {
+    return [{ text, start: 0, end: text.length, tokens: 0 }];
+  }
+
+  const chunks: TextChunk[] = [];
+  const emit = (parts: Unit[], tokens: number) => {
+    const start = parts[0].start;
+    const end = parts[parts.length - 1].end;
+    chunks.push({ text: text.slice(start, end), start, end, tokens });
+  };
+
+  let current: Unit[] = [];
+  let tokens = 0;
+  for (const unit of units) {
+    if (current.length && tokens + unit.tokens > chunkSize) {
+      emit(current, tokens);
+
+      // Never carry the whole chunk, or the next one would only repeat it
+      let carried = 0;
+      let from = current.length;
+      while (from > 1) {
+        const next = carried + current[from - 1].tokens;
+        if (next > overlapTokens || next + unit.tokens > chunkSize) break;
+        carried = next;
+        from--;
+      }
+
+      if (from === current.length) {
+        const words = trailingWords(
+          text,
+          current[current.length - 1],
+          Math.min(overlapTokens, chunkSize - unit.tokens)
+        );
+        current = words;
+        tokens = words.reduce((sum, word) => sum + word.tokens, 0);
+      } else {
+        current = current.slice(from);
+        tokens = carried;
+      }
+    }
+    current.push(unit);
+    tokens += unit.tokens;
+  }
+  emit(current, tokens);
+  return chunks;
+}
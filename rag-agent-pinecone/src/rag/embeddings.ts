@@ -1,59 +1,407 @@
-import { Env } from "../types";
+import { EmbeddingOptions, Env } from "../types";
+import {
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_OVERLAP_TOKENS,
+  TextChunk,
+  chunkByTokens,
+  truncateToTokens,
+} from "./chunking";
 
-export class EmbeddingService {
-  constructor(private env: Env) {}
+/** Model every tenant starts on; changing it takes a reindex */
+export const DEFAULT_EMBEDDING_MODEL = "@cf/baai/bge-small-en-v1.5";
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const response = await this.env.AI.run("@cf/baai/bge-small-en-v1.5", {
-        text: text.substring(0, 512), // Limit text length
-      });
+export type EmbeddingProviderName = "workers-ai" | "openai" | "hash";
+
+/**
+ * Turns texts into vectors with one model. Model ids name their provider:
+ * "@cf/..." is Workers AI, "openai/<model>" OpenAI, "hash/<dimensions>" the
+ * offline hashing embedder.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  /** Dimensions, when known before the first call */
+  readonly dimensions?: number;
+  /** Input limit in model tokens, special tokens included (none if unset) */
+  readonly maxTokens?: number;
+  /** Most texts one embed() call accepts */
+  readonly maxBatchSize: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** How generateMultipleEmbeddings splits, paces and retries provider calls */
+export interface EmbeddingBatchOptions {
+  /** Texts per provider call (capped by the provider's own limit) */
+  batchSize: number;
+  /** Provider calls in flight at once */
+  concurrency: number;
+  /** Extra attempts for a batch that fails with a transient error */
+  maxRetries: number;
+  /** Delay before the first retry; doubles on each attempt */
+  retryDelayMs: number;
+}
+
+/** A failed embedding call; `retryable` marks rate limits and outages */
+export class EmbeddingError extends Error {
+  constructor(message: string, public retryable: boolean = false) {
+    super(message);
+    this.name = "EmbeddingError";
+  }
+}
+
+/** Workers AI embedding models: output dimensions and input token limit */
+export const WORKERS_AI_EMBEDDING_MODELS: Record<
+  string,
+  { dimensions: number; maxTokens: number }
+> = {
+  "@cf/baai/bge-small-en-v1.5": { dimensions: 384, maxTokens: 512 },
+  "@cf/baai/bge-base-en-v1.5": { dimensions: 768, maxTokens: 512 },
+  "@cf/baai/bge-large-en-v1.5": { dimensions: 1024, maxTokens: 512 },
+  "@cf/baai/bge-m3": { dimensions: 1024, maxTokens: 8192 },
+};
 
-      if (!response?.data?.[0]) {
-        throw new Error("Invalid embedding response");
+const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const HASH_DEFAULT_DIMENSIONS = 384;
+const WORKERS_AI_MAX_BATCH = 100;
+const WORKERS_AI_DEFAULT_MAX_TOKENS = 512;
+const OPENAI_MAX_BATCH = 2048;
+const OPENAI_MAX_TOKENS = 8191;
+/** [CLS] and [SEP] take two of the model's tokens */
+const SPECIAL_TOKENS = 2;
+
+const DEFAULT_BATCH_OPTIONS: EmbeddingBatchOptions = {
+  batchSize: 50,
+  concurrency: 4,
+  maxRetries: 3,
+  retryDelayMs: 250,
+};
+
+/** Errors from Workers AI and the network that usually pass on their own */
+const TRANSIENT_ERROR =
+  /\b(429|5\d\d)\b|capacity|rate.?limit|timed? ?out|temporar|overloaded|unavailable|network|upstream/i;
+
+/** The model new tenants start on (EMBEDDING_MODEL, else bge-small) */
+export function defaultEmbeddingModel(env: Env): string {
+  return env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+}
+
+/** Batch settings from EMBEDDING_BATCH_SIZE, _CONCURRENCY and _MAX_RETRIES */
+export function embeddingBatchOptions(env: Env): EmbeddingBatchOptions {
+  const read = (value: string | undefined, fallback: number, min: number) => {
+    const parsed = Number(value);
+    return value && Number.isInteger(parsed) && parsed >= min
+      ? parsed
+      : fallback;
+  };
+  return {
+    ...DEFAULT_BATCH_OPTIONS,
+    batchSize: read(
+      env.EMBEDDING_BATCH_SIZE,
+      DEFAULT_BATCH_OPTIONS.batchSize,
+      1
+    ),
+    concurrency: read(
+      env.EMBEDDING_CONCURRENCY,
+      DEFAULT_BATCH_OPTIONS.concurrency,
+      1
+    ),
+    maxRetries: read(
+      env.EMBEDDING_MAX_RETRIES,
+      DEFAULT_BATCH_OPTIONS.maxRetries,
+      0
+    ),
+  };
+}
+
+/** Whether another attempt at the same call may succeed */
+export function isTransientEmbeddingError(error: unknown): boolean {
+  if (error instanceof EmbeddingError) return error.retryable;
+  // fetch() rejects with a TypeError when the connection fails
+  if (error instanceof TypeError) return true;
+  return error instanceof Error && TRANSIENT_ERROR.test(error.message);
+}
+
+export function createEmbeddingProvider(
+  env: Env,
+  model: string
+): EmbeddingProvider {
+  if (model.startsWith("@cf/")) return new WorkersAIEmbeddings(env, model);
+  if (model.startsWith("openai/")) return new OpenAIEmbeddings(env, model);
+  if (model === "hash" || model.startsWith("hash/")) {
+    return new HashingEmbeddings(model);
+  }
+  throw new Error(
+    `Unknown embedding model "${model}" (use @cf/..., openai/... or hash/<dimensions>)`
+  );
+}
+
+// =====================================================
+// PROVIDERS
+// =====================================================
+
+class WorkersAIEmbeddings implements EmbeddingProvider {
+  readonly name = "workers-ai";
+  readonly dimensions?: number;
+  readonly maxTokens: number;
+  readonly maxBatchSize = WORKERS_AI_MAX_BATCH;
+
+  constructor(private env: Env, readonly model: string) {
+    const known = WORKERS_AI_EMBEDDING_MODELS[model];
+    this.dimensions = known?.dimensions;
+    this.maxTokens = known?.maxTokens ?? WORKERS_AI_DEFAULT_MAX_TOKENS;
+  }
+
+  /** bge models take the whole batch as an array in one call */
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.env.AI.run(this.model, { text: texts });
+    const data = response?.data;
+    if (!Array.isArray(data) || data.length !== texts.length) {
+      throw new EmbeddingError("Invalid embedding response");
+    }
+    return data;
+  }
+}
+
+/**
+ * OpenAI's /embeddings API, or anything compatible behind OPENAI_BASE_URL
+ * (Azure-style proxies, a local stub in tests).
+ */
+class OpenAIEmbeddings implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly maxTokens = OPENAI_MAX_TOKENS;
+  readonly maxBatchSize = OPENAI_MAX_BATCH;
+  private remoteModel: string;
+  private baseUrl: string;
+
+  constructor(private env: Env, readonly model: string) {
+    this.remoteModel = model.slice("openai/".length);
+    this.baseUrl = (env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL).replace(
+      /\/+$/,
+      ""
+    );
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.env.OPENAI_API_KEY) {
+      headers.Authorization = `Bearer ${this.env.OPENAI_API_KEY}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: this.remoteModel, input: texts }),
+    });
+    if (!response.ok) {
+      throw new EmbeddingError(
+        `OpenAI embeddings failed: ${response.status} ${await response.text()}`,
+        response.status === 429 || response.status >= 500
+      );
+    }
+
+    const body = (await response.json()) as {
+      data?: Array<{ embedding: number[]; index: number }>;
+    };
+    const data = [...(body.data || [])].sort((a, b) => a.index - b.index);
+    if (data.length !== texts.length) {
+      throw new EmbeddingError("Invalid embedding response");
+    }
+    return data.map((item) => item.embedding);
+  }
+}
+
+/**
+ * Deterministic feature hashing of words and character trigrams into an
+ * L2-normalized vector. No network or model, so offline tests get stable
+ * vectors where texts sharing words score as similar.
+ */
+class HashingEmbeddings implements EmbeddingProvider {
+  readonly name = "hash";
+  readonly dimensions: number;
+  readonly maxBatchSize = Number.POSITIVE_INFINITY;
+
+  constructor(readonly model: string) {
+    const requested = Number(model.split("/")[1] ?? HASH_DEFAULT_DIMENSIONS);
+    if (!Number.isInteger(requested) || requested < 2) {
+      throw new Error(`Invalid hashing embedder dimensions in "${model}"`);
+    }
+    this.dimensions = requested;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      const features = [word];
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`#${padded.slice(i, i + 3)}`);
       }
+      for (const feature of features) {
+        const hash = fnv1a(feature);
+        const weight = feature === word ? 1 : 0.5;
+        // The top bit picks the sign so collisions cancel out on average
+        vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm ? vector.map((x) => x / norm) : vector;
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// =====================================================
+// SERVICE
+// =====================================================
+
+export class EmbeddingService {
+  private provider: EmbeddingProvider;
+
+  /** @param model Embedding model used for every call (provider by prefix) */
+  constructor(
+    env: Env,
+    readonly model: string = defaultEmbeddingModel(env),
+    private batching: EmbeddingBatchOptions = embeddingBatchOptions(env)
+  ) {
+    this.provider = createEmbeddingProvider(env, model);
+  }
+
+  /** Which provider produced this service's vectors */
+  get providerName(): EmbeddingProviderName {
+    return this.provider.name;
+  }
 
-      return response.data[0];
+  /** Content tokens one text may carry; Infinity when the model has no limit */
+  get tokenLimit(): number {
+    return this.provider.maxTokens
+      ? this.provider.maxTokens - SPECIAL_TOKENS
+      : Number.POSITIVE_INFINITY;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    try {
+      const [embedding] = await this.embedBatch([text]);
+      return embedding;
     } catch (error) {
       console.error("Error generating embedding:", error);
       throw error;
     }
   }
 
+  /**
+   * Embed `texts` in order, in batches of up to `batchSize` with at most
+   * `concurrency` provider calls in flight. Stops at the first batch that
+   * still fails after its retries.
+   */
   async generateMultipleEmbeddings(texts: string[]): Promise<number[][]> {
-    const embeddings: number[][] = [];
-
-    for (const text of texts) {
-      const embedding = await this.generateEmbedding(text);
-      embeddings.push(embedding);
+    const size = Math.min(this.batching.batchSize, this.provider.maxBatchSize);
+    const batches: string[][] = [];
+    for (let i = 0; i < texts.length; i += size) {
+      batches.push(texts.slice(i, i + size));
     }
 
-    return embeddings;
-  }
-
-  chunkText(text: string, maxLength: number = 400): string[] {
-    if (text.length <= maxLength) return [text];
+    const results: number[][][] = new Array(batches.length);
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+      while (next < batches.length && !failed) {
+        const i = next++;
+        try {
+          results[i] = await this.embedBatch(batches[i]);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
 
-    const chunks: string[] = [];
-    const sentences = text.split(/[.!?]+/).filter((s) => s.trim().length > 0);
+    const workers = Math.min(this.batching.concurrency, batches.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+    if (batches.length > 1) {
+      console.log(
+        `🧠 Embedded ${texts.length} texts in ${batches.length} batches`
+      );
+    }
+    return results.flat();
+  }
 
-    let currentChunk = "";
+  /**
+   * One provider call, retried with exponential backoff on transient errors.
+   * Texts past the model's token limit are cut short rather than rejected.
+   */
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const limit = this.tokenLimit;
+    const inputs = Number.isFinite(limit)
+      ? texts.map((text) => truncateToTokens(text, limit))
+      : texts;
 
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      if (currentChunk.length + trimmedSentence.length + 1 <= maxLength) {
-        currentChunk += (currentChunk ? ". " : "") + trimmedSentence;
-      } else {
-        if (currentChunk) chunks.push(currentChunk + ".");
-        currentChunk = trimmedSentence;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const embeddings = await this.provider.embed(inputs);
+        if (
+          embeddings.length !== texts.length ||
+          embeddings.some((embedding) => !embedding?.length)
+        ) {
+          throw new EmbeddingError("Invalid embedding response");
+        }
+        return embeddings;
+      } catch (error) {
+        if (
+          attempt >= this.batching.maxRetries ||
+          !isTransientEmbeddingError(error)
+        ) {
+          throw error;
+        }
+        const delay = this.batching.retryDelayMs * 2 ** attempt;
+        const msg = error instanceof Error ? error.message : String(error);
+        console.log(
+          `⏳ Embedding ${texts.length} texts failed (${msg}); retry ${
+            attempt + 1
+          }/${this.batching.maxRetries} in ${delay}ms`
+        );
+        await new Promise((res) => setTimeout(res, delay));
       }
     }
+  }
 
-    if (currentChunk) chunks.push(currentChunk + ".");
-
-    return chunks;
+  /**
+   * Split text into sentence-aligned chunks of at most `chunkSize` estimated
+   * tokens (capped by `maxTokens` and the model's limit), each starting with
+   * up to `overlapTokens` of the previous chunk's closing sentences or words.
+   */
+  chunkText(text: string, options: EmbeddingOptions = {}): TextChunk[] {
+    const chunkSize = Math.max(
+      1,
+      Math.min(
+        options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+        options.maxTokens ?? Number.POSITIVE_INFINITY,
+        this.tokenLimit
+      )
+    );
+    const overlapTokens = Math.min(
+      Math.max(0, options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS),
+      Math.floor(chunkSize / 2)
+    );
+    return chunkByTokens(text, { chunkSize, overlapTokens });
   }
 }
+
 export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   const dot = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
   const magA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
@@ -72,15 +420,14 @@ export async function semanticSearch(
   const queryEmbedding = await embeddingService.generateEmbedding(query);
 
   // Compare with each entity
-  const results = await Promise.all(
-    entities.map(async (entity) => {
-      const contentEmbedding = await embeddingService.generateEmbedding(
-        entity.content
-      );
-      const score = cosineSimilarity(queryEmbedding, contentEmbedding);
-      return { id: entity.id, content: entity.content, score };
-    })
+  const contentEmbeddings = await embeddingService.generateMultipleEmbeddings(
+    entities.map((entity) => entity.content)
   );
+  const results = entities.map((entity, i) => ({
+    id: entity.id,
+    content: entity.content,
+    score: cosineSimilarity(queryEmbedding, contentEmbeddings[i]),
+  }));
 
   // Sort by similarity
   return results.sort((a, b) => b.score - a.score);
@@ -0,0 +1,323 @@
+// src/rag/indexes.ts - Secondary indexes (type, category, tag, user, status) over brain entities
+import { BrainEntity, IndexField, IndexPage, IndexTerm } from "../types";
+import { StorageBackend } from "./backends";
+import { withKeyLock } from "./storage";
+
+const KV_INDEX_TTL_SECONDS = 365 * 24 * 60 * 60; // 1 year
+
+/** An index row: entity `id` is listed under `field` = `value` */
+export interface IndexEntry extends IndexTerm {
+  id: string;
+}
+
+/**
+ * Where the secondary indexes live. Ids come back in ascending order, so a
+ * page's cursor is simply the last id it returned.
+ */
+export interface SecondaryIndexStore {
+  readonly kind: "d1" | "kv" | "memory";
+  /** Move an entity from its `before` terms to its `after` terms */
+  update(id: string, before: IndexTerm[], after: IndexTerm[]): Promise<void>;
+  /** Ids listed under every term (at least one term required) */
+  query(terms: IndexTerm[], limit: number, cursor?: string): Promise<IndexPage>;
+  /** Every row, page by page, for maintenance */
+  scan(
+    cursor?: string,
+    limit?: number
+  ): Promise<{ entries: IndexEntry[]; cursor?: string }>;
+  removeEntries(entries: IndexEntry[]): Promise<void>;
+  /** Drop the tenant's rows (KV rows go with the tenant's key prefix) */
+  clear(): Promise<void>;
+}
+
+/** The terms an entity is indexed under */
+export function indexTerms(entity: BrainEntity | null): IndexTerm[] {
+  if (!entity) return [];
+  const metadata = entity.metadata ?? {};
+  const terms: IndexTerm[] = [{ field: "type", value: entity.type }];
+  if (metadata.category) {
+    terms.push({ field: "category", value: metadata.category });
+  }
+  for (const tag of new Set<string>(metadata.tags || [])) {
+    terms.push({ field: "tag", value: tag });
+  }
+  if (metadata.userId) terms.push({ field: "user", value: metadata.userId });
+  if (metadata.status) terms.push({ field: "status", value: metadata.status });
+  return terms;
+}
+
+const termKey = (term: IndexTerm) => `${term.field}\u0000${term.value}`;
+
+// =====================================================
+// D1
+// =====================================================
+
+/** Applied once per database; mirrors migrations/0001_entity_index.sql */
+const D1_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS entity_index (
+    tenant TEXT NOT NULL,
+    field TEXT NOT NULL,
+    value TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    PRIMARY KEY (tenant, field, value, entity_id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS entity_index_by_entity
+    ON entity_index (tenant, entity_id)`,
+];
+
+const schemaReady = new WeakMap<D1Database, Promise<unknown>>();
+
+/**
+ * One row per (entity, term). Each update rewrites an entity's rows in a
+ * single batch (a D1 transaction), so concurrent writers never drop ids.
+ */
+export class D1IndexStore implements SecondaryIndexStore {
+  readonly kind = "d1";
+
+  constructor(private db: D1Database, private tenant: string) {}
+
+  private ready(): Promise<unknown> {
+    let ready = schemaReady.get(this.db);
+    if (!ready) {
+      ready = this.db
+        .batch(D1_SCHEMA.map((sql) => this.db.prepare(sql)))
+        .catch((error) => {
+          schemaReady.delete(this.db);
+          throw error;
+        });
+      schemaReady.set(this.db, ready);
+    }
+    return ready;
+  }
+
+  async update(
+    id: string,
+    _before: IndexTerm[],
+    after: IndexTerm[]
+  ): Promise<void> {
+    await this.ready();
+    await this.db.batch([
+      this.db
+        .prepare("DELETE FROM entity_index WHERE tenant = ? AND entity_id = ?")
+        .bind(this.tenant, id),
+      ...after.map((term) =>
+        this.db
+          .prepare(
+            "INSERT OR IGNORE INTO entity_index (tenant, field, value, entity_id) VALUES (?, ?, ?, ?)"
+          )
+          .bind(this.tenant, term.field, term.value, id)
+      ),
+    ]);
+  }
+
+  async query(
+    terms: IndexTerm[],
+    limit: number,
+    cursor?: string
+  ): Promise<IndexPage> {
+    await this.ready();
+    const select =
+      "SELECT entity_id FROM entity_index WHERE tenant = ? AND field = ? AND value = ?";
+    const sql = `SELECT entity_id FROM (${terms
+      .map(() => select)
+      .join(" INTERSECT ")}) WHERE entity_id > ? ORDER BY entity_id LIMIT ?`;
+    const { results } = await this.db
+      .prepare(sql)
+      .bind(
+        ...terms.flatMap((term) => [this.tenant, term.field, term.value]),
+        cursor ?? "",
+        limit + 1
+      )
+      .all<{ entity_id: string }>();
+
+    const ids = results.slice(0, limit).map((row) => row.entity_id);
+    return {
+      ids,
+      cursor: results.length > limit ? ids[ids.length - 1] : undefined,
+    };
+  }
+
+  async scan(
+    cursor?: string,
+    limit: number = 500
+  ): Promise<{ entries: IndexEntry[]; cursor?: string }> {
+    await this.ready();
+    const [field, value, id] = cursor ? JSON.parse(cursor) : ["", "", ""];
+    const { results } = await this.db
+      .prepare(
+        `SELECT field, value, entity_id FROM entity_index
+         WHERE tenant = ? AND (field, value, entity_id) > (?, ?, ?)
+         ORDER BY field, value, entity_id LIMIT ?`
+      )
+      .bind(this.tenant, field, value, id, limit)
+      .all<{ field: IndexField; value: string; entity_id: string }>();
+
+    const entries = results.map((row) => ({
+      field: row.field,
+      value: row.value,
+      id: row.entity_id,
+    }));
+    const last = entries[entries.length - 1];
+    return {
+      entries,
+      cursor:
+        entries.length === limit
+          ? JSON.stringify([last.field, last.value, last.id])
+          : undefined,
+    };
+  }
+
+  async removeEntries(entries: IndexEntry[]): Promise<void> {
+    if (!entries.length) return;
+    await this.ready();
+    await this.db.batch(
+      entries.map((entry) =>
+        this.db
+          .prepare(
+            "DELETE FROM entity_index WHERE tenant = ? AND field = ? AND value = ? AND entity_id = ?"
+          )
+          .bind(this.tenant, entry.field, entry.value, entry.id)
+      )
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+    await this.db
+      .prepare("DELETE FROM entity_index WHERE tenant = ?")
+      .bind(this.tenant)
+      .run();
+  }
+}
+
+// =====================================================
+// KEY/VALUE (KV fallback, in-memory backend)
+// =====================================================
+
+/**
+ * One JSON array of ids per term under `index:<field>:<value>`. Updates are
+ * only serialized within an isolate; bind BRAIN_DB to stop cross-isolate KV
+ * writers from dropping each other's ids.
+ */
+export class KVIndexStore implements SecondaryIndexStore {
+  readonly kind: "kv" | "memory";
+  private indexPrefix: string;
+
+  constructor(
+    private backend: StorageBackend & { kind: "kv" | "memory" },
+    tenantPrefix: string
+  ) {
+    this.kind = backend.kind;
+    this.indexPrefix = `${tenantPrefix}index:`;
+  }
+
+  private key(term: IndexTerm): string {
+    return `${this.indexPrefix}${term.field}:${term.value}`;
+  }
+
+  async update(
+    id: string,
+    before: IndexTerm[],
+    after: IndexTerm[]
+  ): Promise<void> {
+    const kept = new Set(after.map(termKey));
+    for (const term of before) {
+      if (!kept.has(termKey(term))) await this.edit(term, id, "remove");
+    }
+    // Re-adding unchanged terms heals ids lost to cross-isolate races
+    for (const term of after) await this.edit(term, id, "add");
+  }
+
+  async query(
+    terms: IndexTerm[],
+    limit: number,
+    cursor?: string
+  ): Promise<IndexPage> {
+    let matching: string[] | null = null;
+    for (const term of terms) {
+      const ids: string[] = await this.read(this.key(term));
+      matching = matching
+        ? matching.filter((id) => ids.includes(id))
+        : [...new Set(ids)];
+    }
+
+    const sorted = (matching || [])
+      .filter((id) => !cursor || id > cursor)
+      .sort();
+    const ids = sorted.slice(0, limit);
+    return {
+      ids,
+      cursor: sorted.length > limit ? ids[ids.length - 1] : undefined,
+    };
+  }
+
+  async scan(
+    cursor?: string,
+    limit: number = 20
+  ): Promise<{ entries: IndexEntry[]; cursor?: string }> {
+    const page = await this.backend.list({
+      prefix: this.indexPrefix,
+      limit,
+      cursor,
+    });
+
+    const entries: IndexEntry[] = [];
+    for (const key of page.keys) {
+      const name = key.slice(this.indexPrefix.length);
+      const at = name.indexOf(":");
+      if (at <= 0) continue;
+      const field = name.slice(0, at) as IndexField;
+      const value = name.slice(at + 1);
+      for (const id of await this.read(key)) {
+        entries.push({ field, value, id });
+      }
+    }
+
+    return { entries, cursor: page.cursor };
+  }
+
+  async removeEntries(entries: IndexEntry[]): Promise<void> {
+    for (const entry of entries) await this.edit(entry, entry.id, "remove");
+  }
+
+  async clear(): Promise<void> {
+    // Tenant deletion removes every key under the prefix, indexes included
+  }
+
+  private async edit(
+    term: IndexTerm,
+    id: string,
+    operation: "add" | "remove"
+  ): Promise<void> {
+    const key = this.key(term);
+    await withKeyLock(key, async () => {
+      const ids = await this.read(key);
+      const present = ids.includes(id);
+      if (operation === "add" ? present : !present) return;
+
+      const next =
+        operation === "add"
+          ? [...ids, id]
+          : ids.filter((existing) => existing !== id);
+      if (next.length) {
+        await this.backend.put(key, JSON.stringify(next), {
+          expirationTtl: KV_INDEX_TTL_SECONDS,
+        });
+      } else {
+        await this.backend.delete(key);
+      }
+    });
+  }
+
+  private async read(key: string): Promise<string[]> {
+    const data = await this.backend.get(key);
+    if (!data) return [];
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error(`Error parsing index ${key}:`, error);
+      return [];
+    }
+  }
+}
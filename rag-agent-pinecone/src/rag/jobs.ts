@@ -0,0 +1,92 @@
+// src/rag/jobs.ts - Background job records and dispatch (Cloudflare Queues or in-process)
+import { Env, JobMessage, JobStatus } from "../types";
+import { StorageBackend, createStorageBackend } from "./backends";
+import { tenantKeyPrefix } from "./storage";
+
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60; // finished jobs are kept a week
+
+/** Attempts per job before it is marked failed (queue retries included) */
+export const MAX_JOB_ATTEMPTS = 3;
+
+export class JobService {
+  private keyPrefix: string;
+
+  /** @param organizationId Tenant whose jobs this service reads and writes */
+  constructor(
+    private env: Env,
+    private organizationId?: string,
+    private backend: StorageBackend = createStorageBackend(env)
+  ) {
+    this.keyPrefix = `${tenantKeyPrefix(organizationId)}job:`;
+  }
+
+  /** Record a new pending job */
+  async create(
+    type: JobStatus["type"],
+    metadata: Record<string, any> = {}
+  ): Promise<JobStatus> {
+    const job: JobStatus = {
+      id: crypto.randomUUID(),
+      type,
+      status: "pending",
+      progress: 0,
+      createdAt: Date.now(),
+      metadata: { ...metadata, attempts: 0 },
+    };
+    await this.save(job);
+    return job;
+  }
+
+  async get(id: string): Promise<JobStatus | null> {
+    const raw = await this.backend.get(`${this.keyPrefix}${id}`);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async save(job: JobStatus): Promise<void> {
+    await this.backend.put(`${this.keyPrefix}${job.id}`, JSON.stringify(job), {
+      expirationTtl: JOB_TTL_SECONDS,
+    });
+  }
+
+  /** Merge fields into a stored job; returns the result (null if it expired) */
+  async update(
+    id: string,
+    changes: Partial<JobStatus>
+  ): Promise<JobStatus | null> {
+    const job = await this.get(id);
+    if (!job) return null;
+    const updated: JobStatus = {
+      ...job,
+      ...changes,
+      metadata: { ...job.metadata, ...changes.metadata },
+    };
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Hand a job to the INDEX_QUEUE consumer, or run it in this isolate when no
+   * queue is bound (local dev). `runLocally` is the in-process stand-in.
+   */
+  async dispatch(
+    job: JobStatus,
+    runLocally: () => Promise<unknown>,
+    waitUntil?: (promise: Promise<unknown>) => void
+  ): Promise<void> {
+    if (this.env.INDEX_QUEUE) {
+      const message: JobMessage = {
+        jobId: job.id,
+        organizationId: this.organizationId,
+      };
+      await this.env.INDEX_QUEUE.send(message);
+      console.log(`📬 Queued job ${job.id}`);
+      return;
+    }
+
+    console.log(`🧵 Running job ${job.id} in-process (no INDEX_QUEUE bound)`);
+    const run = runLocally().catch((error) =>
+      console.error(`❌ Job ${job.id} failed:`, error)
+    );
+    waitUntil?.(run);
+  }
+}
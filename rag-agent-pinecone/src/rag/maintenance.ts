@@ -0,0 +1,58 @@
+// src/rag/maintenance.ts - Scheduled maintenance across every tenant, with stored reports
+import { Env, JobStatus, MaintenanceReport } from "../types";
+import { AuthService } from "../utils/auth";
+import { StorageBackend, createStorageBackend } from "./backends";
+import { RAGBrainAgent } from "./brain";
+import { listRegisteredTenants, loadMaintenanceReport } from "./storage";
+
+/** The default tenant plus every organization with data or API keys */
+async function listTenants(
+  env: Env,
+  backend: StorageBackend
+): Promise<(string | undefined)[]> {
+  const keys = await new AuthService(env).listKeys();
+  const organizations = new Set([
+    ...(await listRegisteredTenants(env, backend)),
+    ...keys.map((key) => key.organizationId).filter(Boolean),
+  ]);
+  return [undefined, ...[...organizations].sort()];
+}
+
+/**
+ * Start a maintenance job for the given organizations (default: all
+ * tenants, the default tenant included); GET /admin/maintenance serves its
+ * report once it completes. A run for a single organization belongs to that
+ * organization's agent, so its admins can follow the job; wider runs belong
+ * to the default tenant's.
+ */
+export async function runMaintenance(
+  env: Env,
+  options: {
+    trigger: MaintenanceReport["trigger"];
+    cron?: string;
+    organizationIds?: (string | undefined)[];
+    ctx?: ExecutionContext;
+  }
+): Promise<JobStatus> {
+  const backend = createStorageBackend(env);
+  const tenants = options.organizationIds ?? (await listTenants(env, backend));
+  const owner = tenants.length === 1 ? tenants[0] : undefined;
+
+  const brain = new RAGBrainAgent(env, owner, "maintenance", options.ctx, {
+    storage: backend,
+  });
+  return brain.startMaintenance({
+    tenants,
+    trigger: options.trigger,
+    cron: options.cron,
+    purgeTrash: env.MAINTENANCE_PURGE_TRASH !== "false",
+  });
+}
+
+/** A stored report by run id, or the latest one */
+export async function getMaintenanceReport(
+  env: Env,
+  runId?: string
+): Promise<MaintenanceReport | null> {
+  return loadMaintenanceReport(createStorageBackend(env), runId);
+}
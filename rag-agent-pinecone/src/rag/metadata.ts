@@ -0,0 +1,640 @@
+// src/rag/metadata.ts - Entity metadata mirrored into SQL for filtered, sorted and counted queries
+import {
+  BrainEntity,
+  Env,
+  EntityQuery,
+  MetadataCondition,
+  MetadataOperator,
+} from "../types";
+
+/** A query that can't be run; `path` is a JSON pointer into the request */
+export class QueryError extends Error {
+  constructor(message: string, public path: string = "") {
+    super(message);
+    this.name = "QueryError";
+  }
+}
+
+/** The queryable part of an entity (content stays in KV) */
+export interface MetadataRow {
+  id: string;
+  type: string;
+  category?: string;
+  status?: string;
+  userId?: string;
+  organizationId?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  expiresAt?: number;
+  storedAt: number;
+  version?: number;
+  size?: number;
+  tags: string[];
+  metadata: Record<string, any>;
+}
+
+/**
+ * Matching ids in sort order. `cursors[i]` continues right after `ids[i]`;
+ * `more` says whether rows follow the last one. `total` only when
+ * `query.count` is set.
+ */
+export interface MetadataPage {
+  ids: string[];
+  cursors: string[];
+  more: boolean;
+  total?: number;
+}
+
+/** `deletedBefore` keeps entities trashed at or before that time */
+export interface TrashOptions {
+  deletedBefore?: number;
+  count?: boolean;
+}
+
+export interface MetadataStore {
+  readonly kind: "d1";
+  upsert(entity: BrainEntity): Promise<void>;
+  remove(id: string): Promise<void>;
+  query(
+    query: EntityQuery,
+    limit: number,
+    cursor?: string
+  ): Promise<MetadataPage>;
+  trash(
+    limit: number,
+    cursor?: string,
+    options?: TrashOptions
+  ): Promise<MetadataPage>;
+  clear(): Promise<void>;
+}
+
+/**
+ * D1 when BRAIN_DB is bound (`wrangler dev` runs a local one); otherwise
+ * there is no SQL side.
+ */
+export function createMetadataStore(
+  env: Env,
+  organizationId: string | undefined
+): MetadataStore | null {
+  const tenant = organizationId ?? "";
+  if (env.BRAIN_DB) return new D1MetadataStore(env.BRAIN_DB, tenant);
+  return null;
+}
+
+export function toMetadataRow(entity: BrainEntity): MetadataRow {
+  const { embedding: _embedding, ...metadata } = entity.metadata ?? {};
+  return {
+    id: entity.id,
+    type: entity.type,
+    category: metadata.category,
+    status: metadata.status,
+    userId: metadata.userId,
+    organizationId: metadata.organizationId,
+    createdAt: metadata.createdAt,
+    updatedAt: metadata.updatedAt,
+    expiresAt: metadata.expiresAt,
+    storedAt: metadata.storedAt ?? Date.now(),
+    version: metadata.version,
+    size: metadata.size,
+    tags: Array.isArray(metadata.tags) ? metadata.tags : [],
+    metadata,
+  };
+}
+
+// =====================================================
+// FIELDS & CONDITIONS
+// =====================================================
+
+/** Row fields with their own column; anything else is a metadata key */
+const COLUMNS: Record<string, { column: string; key: keyof MetadataRow }> = {
+  id: { column: "id", key: "id" },
+  type: { column: "type", key: "type" },
+  category: { column: "category", key: "category" },
+  status: { column: "status", key: "status" },
+  userId: { column: "user_id", key: "userId" },
+  organizationId: { column: "organization_id", key: "organizationId" },
+  createdAt: { column: "created_at", key: "createdAt" },
+  updatedAt: { column: "updated_at", key: "updatedAt" },
+  version: { column: "version", key: "version" },
+  size: { column: "size", key: "size" },
+  tags: { column: "tags", key: "tags" },
+};
+
+const METADATA_PATH = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+const OPERATORS: MetadataOperator[] = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "exists",
+  "contains",
+];
+
+type Field = { column: string; key: keyof MetadataRow } | { path: string[] };
+
+/** Resolve "createdAt", "priority" or "metadata.source.kind" */
+function resolveField(field: string, at: string): Field {
+  if (COLUMNS[field]) return COLUMNS[field];
+  const path = field.startsWith("metadata.") ? field.slice(9) : field;
+  if (!METADATA_PATH.test(path)) {
+    throw new QueryError(`Unsupported field "${field}"`, at);
+  }
+  return { path: path.split(".") };
+}
+
+function checkCondition(condition: MetadataCondition, at: string): void {
+  const op = condition.op ?? "eq";
+  if (!OPERATORS.includes(op)) {
+    throw new QueryError(`Unknown operator "${op}"`, `${at}/op`);
+  }
+  if (op === "in" && !Array.isArray(condition.value)) {
+    throw new QueryError('"in" needs an array value', `${at}/value`);
+  }
+  if (op !== "exists" && condition.value === undefined) {
+    throw new QueryError(`"${op}" needs a value`, `${at}/value`);
+  }
+}
+
+function readField(row: MetadataRow, field: Field): any {
+  if ("key" in field) return row[field.key];
+  return field.path.reduce<any>(
+    (value, key) =>
+      value !== null && typeof value === "object" ? value[key] : undefined,
+    row.metadata
+  );
+}
+
+/** Evaluate a condition in JS, with the same meaning as the SQL form */
+function matchesCondition(row: MetadataRow, condition: MetadataCondition) {
+  const value = readField(row, resolveField(condition.field, ""));
+  const target = condition.value;
+  const present = value !== undefined && value !== null;
+
+  switch (condition.op ?? "eq") {
+    case "eq":
+      return value === target;
+    case "ne":
+      return value !== target;
+    case "gt":
+      return present && value > target;
+    case "gte":
+      return present && value >= target;
+    case "lt":
+      return present && value < target;
+    case "lte":
+      return present && value <= target;
+    case "in":
+      return (target as any[]).includes(value);
+    case "exists":
+      return present === (target ?? true);
+    case "contains":
+      return Array.isArray(value) && value.includes(target);
+  }
+}
+
+/** Check the query's fields and operators before it reaches a store */
+export function validateQuery(query: EntityQuery): void {
+  (query.where || []).forEach((condition, i) => {
+    resolveField(condition.field, `/where/${i}/field`);
+    checkCondition(condition, `/where/${i}`);
+  });
+  if (query.sortBy) resolveField(query.sortBy, "/sortBy");
+}
+
+/** Whether a row passes the query's filters and conditions (not textSearch) */
+export function matchesQuery(
+  row: MetadataRow,
+  query: EntityQuery,
+  now: number = Date.now()
+): boolean {
+  if (row.expiresAt && row.expiresAt <= now) return false;
+  if (query.type && row.type !== query.type) return false;
+  if (query.category && row.category !== query.category) return false;
+  if (query.userId && row.userId !== query.userId) return false;
+  if (query.organizationId && row.organizationId !== query.organizationId) {
+    return false;
+  }
+  if (query.status && row.status !== query.status) return false;
+  if (!query.status && !query.includeTrashed && row.status === "deleted") {
+    return false;
+  }
+  if (query.tags?.some((tag) => !row.tags.includes(tag))) return false;
+  if (query.dateRange) {
+    const createdAt = row.createdAt || 0;
+    if (createdAt < query.dateRange.start || createdAt > query.dateRange.end) {
+      return false;
+    }
+  }
+  return (query.where || []).every((condition) =>
+    matchesCondition(row, condition)
+  );
+}
+
+// =====================================================
+// D1
+// =====================================================
+
+/**
+ * When an entity was trashed (missing counts as 0, like elsewhere), spelled
+ * exactly as in the trash index so SQLite can use it
+ */
+const DELETED_AT = "IFNULL(json_extract(metadata, '$.deletedAt'), 0)";
+
+/** Applied once per database; mirrors migrations/0002_entity_metadata.sql */
+const D1_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS entity_metadata (
+    tenant TEXT NOT NULL,
+    id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    category TEXT,
+    status TEXT,
+    user_id TEXT,
+    organization_id TEXT,
+    created_at INTEGER,
+    updated_at INTEGER,
+    expires_at INTEGER,
+    stored_at INTEGER NOT NULL,
+    version INTEGER,
+    size INTEGER,
+    tags TEXT NOT NULL DEFAULT '[]',
+    metadata TEXT NOT NULL DEFAULT '{}',
+    PRIMARY KEY (tenant, id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS entity_metadata_type
+    ON entity_metadata (tenant, type, id)`,
+  `CREATE INDEX IF NOT EXISTS entity_metadata_category
+    ON entity_metadata (tenant, category, id)`,
+  `CREATE INDEX IF NOT EXISTS entity_metadata_status
+    ON entity_metadata (tenant, status, id)`,
+  `CREATE INDEX IF NOT EXISTS entity_metadata_user
+    ON entity_metadata (tenant, user_id, id)`,
+  `CREATE INDEX IF NOT EXISTS entity_metadata_created
+    ON entity_metadata (tenant, created_at)`,
+  `CREATE INDEX IF NOT EXISTS entity_metadata_updated
+    ON entity_metadata (tenant, updated_at)`,
+  // Mirrors migrations/0005_trash_index.sql
+  `CREATE INDEX IF NOT EXISTS entity_metadata_trash
+    ON entity_metadata (tenant, ${DELETED_AT}, id) WHERE status = 'deleted'`,
+];
+
+const schemaReady = new WeakMap<D1Database, Promise<unknown>>();
+
+/** Apply the mirror's schema once per database */
+export function metadataSchemaReady(db: D1Database): Promise<unknown> {
+  let applied = schemaReady.get(db);
+  if (!applied) {
+    applied = db
+      .batch(D1_SCHEMA.map((sql) => db.prepare(sql)))
+      .catch((error) => {
+        schemaReady.delete(db);
+        throw error;
+      });
+    schemaReady.set(db, applied);
+  }
+  return applied;
+}
+
+/** Organizations with entities in the mirror (the default tenant is "") */
+export async function listMetadataTenants(db: D1Database): Promise<string[]> {
+  await metadataSchemaReady(db);
+  const { results } = await db
+    .prepare(
+      `SELECT DISTINCT tenant FROM entity_metadata
+       WHERE tenant != '' ORDER BY tenant`
+    )
+    .all<{ tenant: string }>();
+  return results.map((row) => row.tenant);
+}
+
+/** SQL for a field: its column, or json_extract over the metadata column */
+function fieldSql(field: Field): { sql: string; params: unknown[] } {
+  if ("column" in field) return { sql: field.column, params: [] };
+  return {
+    sql: "json_extract(metadata, ?)",
+    params: [`$.${field.path.join(".")}`],
+  };
+}
+
+/** SQL bindings take numbers, strings and null; booleans become 1/0 */
+function bindable(value: unknown): unknown {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value === undefined) return null;
+  return typeof value === "object" ? JSON.stringify(value) : value;
+}
+
+function conditionSql(condition: MetadataCondition): {
+  sql: string;
+  params: unknown[];
+} {
+  const field = resolveField(condition.field, "");
+  const { sql: expr, params } = fieldSql(field);
+  const value = bindable(condition.value);
+  const comparisons: Partial<Record<MetadataOperator, string>> = {
+    eq: "=",
+    gt: ">",
+    gte: ">=",
+    lt: "<",
+    lte: "<=",
+  };
+
+  switch (condition.op ?? "eq") {
+    case "ne":
+      return {
+        sql: `(${expr} IS NULL OR ${expr} != ?)`,
+        params: [...params, ...params, value],
+      };
+    case "in": {
+      const values = (condition.value as unknown[]).map(bindable);
+      if (!values.length) return { sql: "0", params: [] };
+      return {
+        sql: `${expr} IN (${values.map(() => "?").join(", ")})`,
+        params: [...params, ...values],
+      };
+    }
+    case "exists":
+      return {
+        sql: `${expr} IS ${condition.value === false ? "" : "NOT "}NULL`,
+        params,
+      };
+    case "contains": {
+      const source =
+        "column" in field
+          ? { sql: `json_each(${field.column})`, params: [] }
+          : { sql: "json_each(metadata, ?)", params };
+      return {
+        sql: `EXISTS (SELECT 1 FROM ${source.sql} WHERE json_each.value = ?)`,
+        params: [...source.params, value],
+      };
+    }
+    default:
+      return {
+        sql: `${expr} ${comparisons[condition.op ?? "eq"]} ?`,
+        params: [...params, value],
+      };
+  }
+}
+
+/** A cursor's [sort value, id]; QueryError when it isn't one of ours */
+function parseCursor(cursor: string): [unknown, string] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cursor);
+  } catch {
+    parsed = null;
+  }
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 2 ||
+    typeof parsed[1] !== "string"
+  ) {
+    throw new QueryError("Invalid cursor", "/cursor");
+  }
+  return parsed as [unknown, string];
+}
+
+/**
+ * One row per entity. Writes only replace a row with a newer storedAt, so a
+ * slow writer can't roll the mirror back behind KV.
+ */
+class D1MetadataStore implements MetadataStore {
+  readonly kind = "d1";
+
+  constructor(private db: D1Database, private tenant: string) {}
+
+  private ready(): Promise<unknown> {
+    return metadataSchemaReady(this.db);
+  }
+
+  async upsert(entity: BrainEntity): Promise<void> {
+    await this.ready();
+    const row = toMetadataRow(entity);
+    await this.db
+      .prepare(
+        `INSERT INTO entity_metadata (tenant, id, type, category, status,
+           user_id, organization_id, created_at, updated_at, expires_at,
+           stored_at, version, size, tags, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (tenant, id) DO UPDATE SET
+           type = excluded.type, category = excluded.category,
+           status = excluded.status, user_id = excluded.user_id,
+           organization_id = excluded.organization_id,
+           created_at = excluded.created_at, updated_at = excluded.updated_at,
+           expires_at = excluded.expires_at, stored_at = excluded.stored_at,
+           version = excluded.version, size = excluded.size,
+           tags = excluded.tags, metadata = excluded.metadata
+         WHERE excluded.stored_at >= entity_metadata.stored_at`
+      )
+      .bind(
+        this.tenant,
+        row.id,
+        row.type,
+        row.category ?? null,
+        row.status ?? null,
+        row.userId ?? null,
+        row.organizationId ?? null,
+        row.createdAt ?? null,
+        row.updatedAt ?? null,
+        row.expiresAt ?? null,
+        row.storedAt,
+        row.version ?? null,
+        row.size ?? null,
+        JSON.stringify(row.tags),
+        JSON.stringify(row.metadata)
+      )
+      .run();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.ready();
+    await this.db
+      .prepare("DELETE FROM entity_metadata WHERE tenant = ? AND id = ?")
+      .bind(this.tenant, id)
+      .run();
+  }
+
+  /**
+   * Keyset paging: a cursor is the last row's [sort value, id], and the next
+   * page starts after it in sort order, so deep pages cost no more than the
+   * first.
+   */
+  async query(
+    query: EntityQuery,
+    limit: number,
+    cursor?: string
+  ): Promise<MetadataPage> {
+    await this.ready();
+    const where = this.whereSql(query);
+    const desc = query.sortOrder === "desc";
+    const direction = desc ? "DESC" : "ASC";
+    const sort =
+      query.sortBy && query.sortBy !== "id"
+        ? fieldSql(resolveField(query.sortBy, "/sortBy"))
+        : null;
+
+    let order = `id ${direction}`;
+    let orderParams: unknown[] = [];
+    if (sort) {
+      // Missing values sort last either way, then ties by id
+      order = `(${sort.sql}) IS NULL, ${sort.sql} ${direction}, id ASC`;
+      orderParams = [...sort.params, ...sort.params];
+    }
+
+    const after = { sql: "1", params: [] as unknown[] };
+    if (cursor) {
+      const [value, id] = parseCursor(cursor);
+      if (!sort) {
+        after.sql = desc ? "id < ?" : "id > ?";
+        after.params = [id];
+      } else if (value === null) {
+        after.sql = `(${sort.sql}) IS NULL AND id > ?`;
+        after.params = [...sort.params, id];
+      } else {
+        after.sql = `((${sort.sql}) IS NULL OR ${sort.sql} ${
+          desc ? "<" : ">"
+        } ? OR (${sort.sql} = ? AND id > ?))`;
+        after.params = [
+          ...sort.params,
+          ...sort.params,
+          value,
+          ...sort.params,
+          value,
+          id,
+        ];
+      }
+    }
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT id, ${sort ? sort.sql : "NULL"} AS sort_value
+         FROM entity_metadata WHERE ${where.sql} AND ${after.sql}
+         ORDER BY ${order} LIMIT ?`
+      )
+      .bind(
+        ...(sort?.params ?? []),
+        ...where.params,
+        ...after.params,
+        ...orderParams,
+        limit + 1
+      )
+      .all<{ id: string; sort_value: unknown }>();
+    const rows = results.slice(0, limit);
+
+    let total: number | undefined;
+    if (query.count) {
+      const counted = await this.db
+        .prepare(
+          `SELECT COUNT(*) AS total FROM entity_metadata WHERE ${where.sql}`
+        )
+        .bind(...where.params)
+        .first<{ total: number }>();
+      total = counted?.total ?? 0;
+    }
+
+    return {
+      ids: rows.map((row) => row.id),
+      cursors: rows.map((row) => JSON.stringify([row.sort_value, row.id])),
+      more: results.length > limit,
+      total,
+    };
+  }
+
+  /**
+   * Trashed ids, oldest deletion first, read in order from the
+   * entity_metadata_trash index; the cursor and `deletedBefore` bound the
+   * index range, so neither deep pages nor a purge scan the rest. Cursors
+   * are [deletedAt, id] like query's.
+   */
+  async trash(
+    limit: number,
+    cursor?: string,
+    options: TrashOptions = {}
+  ): Promise<MetadataPage> {
+    await this.ready();
+    let where =
+      "tenant = ? AND status = 'deleted' AND (expires_at IS NULL OR expires_at > ?)";
+    const params: unknown[] = [this.tenant, Date.now()];
+    if (options.deletedBefore !== undefined) {
+      where += ` AND ${DELETED_AT} <= ?`;
+      params.push(options.deletedBefore);
+    }
+
+    let after = "";
+    const afterParams: unknown[] = [];
+    if (cursor) {
+      const [deletedAt, id] = parseCursor(cursor);
+      after = ` AND ${DELETED_AT} >= ? AND (${DELETED_AT} > ? OR id > ?)`;
+      afterParams.push(deletedAt, deletedAt, id);
+    }
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT id, ${DELETED_AT} AS sort_value FROM entity_metadata
+         WHERE ${where}${after} ORDER BY ${DELETED_AT}, id LIMIT ?`
+      )
+      .bind(...params, ...afterParams, limit + 1)
+      .all<{ id: string; sort_value: unknown }>();
+    const rows = results.slice(0, limit);
+
+    let total: number | undefined;
+    if (options.count) {
+      const counted = await this.db
+        .prepare(`SELECT COUNT(*) AS total FROM entity_metadata WHERE ${where}`)
+        .bind(...params)
+        .first<{ total: number }>();
+      total = counted?.total ?? 0;
+    }
+
+    return {
+      ids: rows.map((row) => row.id),
+      cursors: rows.map((row) => JSON.stringify([row.sort_value, row.id])),
+      more: results.length > limit,
+      total,
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+    await this.db
+      .prepare("DELETE FROM entity_metadata WHERE tenant = ?")
+      .bind(this.tenant)
+      .run();
+  }
+
+  private whereSql(query: EntityQuery): { sql: string; params: unknown[] } {
+    const clauses = ["tenant = ?", "(expires_at IS NULL OR expires_at > ?)"];
+    const params: unknown[] = [this.tenant, Date.now()];
+    const equals = (column: string, value: unknown) => {
+      clauses.push(`${column} = ?`);
+      params.push(value);
+    };
+
+    if (query.type) equals("type", query.type);
+    if (query.category) equals("category", query.category);
+    if (query.userId) equals("user_id", query.userId);
+    if (query.organizationId) equals("organization_id", query.organizationId);
+    if (query.status) equals("status", query.status);
+    if (!query.status && !query.includeTrashed) {
+      clauses.push("(status IS NULL OR status != 'deleted')");
+    }
+    for (const tag of query.tags || []) {
+      clauses.push(
+        "EXISTS (SELECT 1 FROM json_each(tags) WHERE json_each.value = ?)"
+      );
+      params.push(tag);
+    }
+    if (query.dateRange) {
+      clauses.push("COALESCE(created_at, 0) BETWEEN ? AND ?");
+      params.push(query.dateRange.start, query.dateRange.end);
+    }
+    for (const condition of query.where || []) {
+      const { sql, params: conditionParams } = conditionSql(condition);
+      clauses.push(sql);
+      params.push(...conditionParams);
+    }
+
+    return { sql: clauses.join(" AND "), params };
+  }
+}
@@ -1,3 +1,5 @@
+import { VectorDeleteResult, VectorStore } from "./vectors";
+
 export interface PineconeVector {
   id: string;
   values: number[];
@@ -45,7 +47,8 @@ export interface PineconeEnvConfig {
   PINECONE_INDEX_URL?: string;
 }
 
-export class PineconeService {
+export class PineconeService implements VectorStore {
+  readonly kind = "pinecone";
   private baseUrl: string;
   private headers: Record<string, string>;
 
@@ -137,7 +140,7 @@ export class PineconeService {
   async deleteByFilter(
     filter: Record<string, any>,
     namespace?: string
-  ): Promise<void> {
+  ): Promise<VectorDeleteResult> {
     const body: any = { filter };
     if (namespace) body.namespace = namespace;
 
@@ -154,10 +157,11 @@ export class PineconeService {
         } ${await response.text()}`
       );
     }
+    return { complete: true };
   }
 
   /** ✅ Delete all vectors in a namespace */
-  async deleteAll(namespace?: string): Promise<void> {
+  async deleteAll(namespace?: string): Promise<VectorDeleteResult> {
     const body: any = { deleteAll: true };
     if (namespace) body.namespace = namespace;
 
@@ -174,6 +178,7 @@ export class PineconeService {
         } ${await response.text()}`
       );
     }
+    return { complete: true };
   }
 
   /** ✅ Fetch vectors by IDs */
@@ -201,6 +206,44 @@ export class PineconeService {
     }>;
   }
 
+  /** ✅ List vector ids page by page (serverless indexes only) */
+  async listIds(
+    options: {
+      namespace?: string;
+      prefix?: string;
+      limit?: number;
+      paginationToken?: string;
+    } = {}
+  ): Promise<{ ids: string[]; next?: string }> {
+    const params = new URLSearchParams();
+    if (options.namespace) params.set("namespace", options.namespace);
+    if (options.prefix) params.set("prefix", options.prefix);
+    if (options.limit) params.set("limit", String(options.limit));
+    if (options.paginationToken) {
+      params.set("paginationToken", options.paginationToken);
+    }
+
+    const response = await fetch(`${this.baseUrl}/vectors/list?${params}`, {
+      method: "GET",
+      headers: this.headers,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Pinecone list failed: ${response.status} ${await response.text()}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      vectors?: Array<{ id: string }>;
+      pagination?: { next?: string };
+    };
+    return {
+      ids: (data.vectors || []).map((v) => v.id),
+      next: data.pagination?.next,
+    };
+  }
+
   /** ✅ Get index statistics */
   async getStats(namespace?: string): Promise<PineconeIndexStats> {
     const params = new URLSearchParams();
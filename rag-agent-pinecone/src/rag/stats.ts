@@ -0,0 +1,553 @@
+// src/rag/stats.ts - Entity counters behind /brain/analytics (atomic in D1, best-effort in KV)
+import { BrainEntity, Env } from "../types";
+import { StorageBackend } from "./backends";
+import { metadataSchemaReady } from "./metadata";
+import { withKeyLock } from "./storage";
+
+export const ACTIVITY_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const ACTIVITY_BUCKET_MS = 60 * 60 * 1000; // hourly buckets
+const LARGEST_TRACKED = 10;
+
+/** Incrementally maintained counters behind getBrainStats() */
+export interface BrainStats {
+  totalEntities: number;
+  byType: Record<string, number>;
+  byCategory: Record<string, number>;
+  byStatus: Record<string, number>;
+  indexing: Record<string, number>; // indexed | pending | failed
+  lastIndexed?: number;
+  totalSize: number;
+  largest: Array<{ id: string; size: number }>;
+  activity: Record<
+    string,
+    { created: number; updated: number; deleted: number }
+  >;
+  updatedAt?: number;
+}
+
+export function emptyStats(): BrainStats {
+  return {
+    totalEntities: 0,
+    byType: {},
+    byCategory: {},
+    byStatus: {},
+    indexing: {},
+    totalSize: 0,
+    largest: [],
+    activity: {},
+  };
+}
+
+type Metric =
+  | "total"
+  | "size"
+  | "type"
+  | "category"
+  | "status"
+  | "indexing"
+  | "created"
+  | "updated"
+  | "deleted";
+
+/** One counter's change: `metric` (+ `key` for per-value counts) by `delta` */
+interface Counter {
+  metric: Metric;
+  key: string;
+  delta: number;
+}
+
+function indexingState(entity: BrainEntity): "indexed" | "pending" | "failed" {
+  if (entity.metadata?.indexed) return "indexed";
+  if (entity.metadata?.indexError) return "failed";
+  return "pending";
+}
+
+function activityBucket(at: number): string {
+  return String(at - (at % ACTIVITY_BUCKET_MS));
+}
+
+/** What an entity adds to (sign 1) or takes from (sign -1) the counters */
+function entityCounters(entity: BrainEntity, sign: 1 | -1): Counter[] {
+  const counters: Counter[] = [
+    { metric: "total", key: "", delta: sign },
+    { metric: "size", key: "", delta: sign * (entity.metadata?.size || 0) },
+    { metric: "type", key: entity.type, delta: sign },
+    { metric: "status", key: entity.metadata?.status || "active", delta: sign },
+    { metric: "indexing", key: indexingState(entity), delta: sign },
+  ];
+  if (entity.metadata?.category) {
+    counters.push({
+      metric: "category",
+      key: entity.metadata.category,
+      delta: sign,
+    });
+  }
+  return counters;
+}
+
+/** Net counter changes for a write that moves `before` to `after` */
+function statsDeltas(
+  before: BrainEntity | null,
+  after: BrainEntity | null,
+  now: number = Date.now()
+): Counter[] {
+  const all = [
+    ...(before ? entityCounters(before, -1) : []),
+    ...(after ? entityCounters(after, 1) : []),
+  ];
+  const versioned = before?.metadata?.version !== after?.metadata?.version;
+  const activity: Metric | null =
+    !before && after
+      ? "created"
+      : before && !after
+      ? "deleted"
+      : before && after && versioned
+      ? "updated"
+      : null;
+  if (activity) {
+    all.push({ metric: activity, key: activityBucket(now), delta: 1 });
+  }
+
+  const net = new Map<string, Counter>();
+  for (const counter of all) {
+    const id = `${counter.metric}\u0000${counter.key}`;
+    const existing = net.get(id);
+    if (existing) existing.delta += counter.delta;
+    else net.set(id, { ...counter });
+  }
+  return [...net.values()].filter((counter) => counter.delta !== 0);
+}
+
+function applyCounters(stats: BrainStats, counters: Counter[]): void {
+  const bump = (bucket: Record<string, number>, key: string, by: number) => {
+    const next = (bucket[key] || 0) + by;
+    if (next > 0) bucket[key] = next;
+    else delete bucket[key];
+  };
+
+  for (const { metric, key, delta } of counters) {
+    switch (metric) {
+      case "total":
+        stats.totalEntities = Math.max(0, stats.totalEntities + delta);
+        break;
+      case "size":
+        stats.totalSize = Math.max(0, stats.totalSize + delta);
+        break;
+      case "type":
+        bump(stats.byType, key, delta);
+        break;
+      case "category":
+        bump(stats.byCategory, key, delta);
+        break;
+      case "status":
+        bump(stats.byStatus, key, delta);
+        break;
+      case "indexing":
+        bump(stats.indexing, key, delta);
+        break;
+      default: {
+        const counts = stats.activity[key] || {
+          created: 0,
+          updated: 0,
+          deleted: 0,
+        };
+        counts[metric] += delta;
+        stats.activity[key] = counts;
+      }
+    }
+  }
+}
+
+/** Keep the largest entities list and lastIndexed in step with a write */
+function trackEntity(
+  stats: BrainStats,
+  before: BrainEntity | null,
+  after: BrainEntity | null
+): void {
+  const id = (after ?? before)?.id;
+  stats.largest = stats.largest.filter((e) => e.id !== id);
+  if (!after) return;
+
+  stats.largest.push({ id: after.id, size: after.metadata?.size || 0 });
+  stats.largest.sort((a, b) => b.size - a.size);
+  stats.largest = stats.largest.slice(0, LARGEST_TRACKED);
+
+  const indexedAt = after.metadata?.indexedAt;
+  if (indexedAt && indexedAt > (stats.lastIndexed || 0)) {
+    stats.lastIndexed = indexedAt;
+  }
+}
+
+/**
+ * Count one stored entity into a recount, its create and last update
+ * landing in the activity buckets they happened in
+ */
+export function tallyEntity(stats: BrainStats, entity: BrainEntity): void {
+  applyCounters(stats, entityCounters(entity, 1));
+  trackEntity(stats, null, entity);
+
+  const since = Date.now() - ACTIVITY_WINDOW_MS - ACTIVITY_BUCKET_MS;
+  const createdAt = entity.metadata?.createdAt || 0;
+  const updatedAt = entity.metadata?.updatedAt || 0;
+  const activity: Counter[] = [];
+  if (createdAt >= since) {
+    activity.push({
+      metric: "created",
+      key: activityBucket(createdAt),
+      delta: 1,
+    });
+  }
+  if (updatedAt && updatedAt !== createdAt && updatedAt >= since) {
+    activity.push({
+      metric: "updated",
+      key: activityBucket(updatedAt),
+      delta: 1,
+    });
+  }
+  applyCounters(stats, activity);
+}
+
+/** Drop activity buckets that fell out of the reporting window */
+function pruneActivity(stats: BrainStats): void {
+  const cutoff = Date.now() - ACTIVITY_WINDOW_MS - ACTIVITY_BUCKET_MS;
+  for (const bucket of Object.keys(stats.activity)) {
+    if (Number(bucket) < cutoff) delete stats.activity[bucket];
+  }
+}
+
+/**
+ * Where the counters live. Until a recount seeds them read() is null; the
+ * recount runs as a background job, never inside a request.
+ */
+export interface StatsStore {
+  readonly kind: "d1" | "kv";
+  read(): Promise<BrainStats | null>;
+  /** Move an entity's contribution from `before` to `after` */
+  apply(before: BrainEntity | null, after: BrainEntity | null): Promise<void>;
+  /**
+   * Recount from the metadata mirror in one step; false when this store
+   * needs the entities scanned and handed to replace() instead
+   */
+  recount(): Promise<boolean>;
+  /** Swap in counters from a full scan */
+  replace(stats: BrainStats): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * D1 counters when BRAIN_DB is bound, otherwise a JSON record in storage:
+ * exact only on the memory backend, best-effort under ALLOW_KV_INDEXES.
+ */
+export function createStatsStore(
+  env: Env,
+  organizationId: string | undefined,
+  backend: StorageBackend,
+  tenantPrefix: string
+): StatsStore {
+  if (env.BRAIN_DB) return new D1StatsStore(env.BRAIN_DB, organizationId ?? "");
+  return new KVStatsStore(backend, `${tenantPrefix}stats:brain`);
+}
+
+// =====================================================
+// D1
+// =====================================================
+
+/** Applied once per database; mirrors migrations/0004_brain_stats.sql */
+const D1_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS brain_stats (
+    tenant TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    key TEXT NOT NULL DEFAULT '',
+    value INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (tenant, metric, key)
+  )`,
+];
+
+const schemaReady = new WeakMap<D1Database, Promise<unknown>>();
+
+const PER_VALUE: Record<string, keyof BrainStats> = {
+  type: "byType",
+  category: "byCategory",
+  status: "byStatus",
+  indexing: "indexing",
+};
+
+/**
+ * One row per counter, changed with `value = value + ?` so concurrent
+ * writers in any isolate add up. The largest entity comes from the
+ * entity_metadata mirror in the same database.
+ */
+class D1StatsStore implements StatsStore {
+  readonly kind = "d1";
+
+  constructor(private db: D1Database, private tenant: string) {}
+
+  private ready(): Promise<unknown> {
+    let ready = schemaReady.get(this.db);
+    if (!ready) {
+      ready = this.db
+        .batch(D1_SCHEMA.map((sql) => this.db.prepare(sql)))
+        .catch((error) => {
+          schemaReady.delete(this.db);
+          throw error;
+        });
+      schemaReady.set(this.db, ready);
+    }
+    return ready;
+  }
+
+  async read(): Promise<BrainStats | null> {
+    await this.ready();
+    const { results } = await this.db
+      .prepare("SELECT metric, key, value FROM brain_stats WHERE tenant = ?")
+      .bind(this.tenant)
+      .all<{ metric: string; key: string; value: number }>();
+    if (!results.some((row) => row.metric === "seededAt")) return null;
+
+    const stats = emptyStats();
+    const counters: Counter[] = [];
+    for (const row of results) {
+      if (row.metric === "seededAt") stats.updatedAt = row.value;
+      else if (row.metric === "lastIndexed") stats.lastIndexed = row.value;
+      else {
+        counters.push({
+          metric: row.metric as Metric,
+          key: row.key,
+          delta: row.value,
+        });
+      }
+    }
+    applyCounters(stats, counters);
+    pruneActivity(stats);
+
+    // Activity rows past the window are only ever read, so drop them here
+    await this.db
+      .prepare(
+        `DELETE FROM brain_stats WHERE tenant = ?
+         AND metric IN ('created', 'updated', 'deleted')
+         AND CAST(key AS INTEGER) < ?`
+      )
+      .bind(this.tenant, Date.now() - ACTIVITY_WINDOW_MS - ACTIVITY_BUCKET_MS)
+      .run();
+
+    const largest = await this.db
+      .prepare(
+        `SELECT id, size FROM entity_metadata WHERE tenant = ?
+         ORDER BY size DESC LIMIT ?`
+      )
+      .bind(this.tenant, LARGEST_TRACKED)
+      .all<{ id: string; size: number }>()
+      .catch(() => ({ results: [] }));
+    stats.largest = largest.results;
+    return stats;
+  }
+
+  async apply(
+    before: BrainEntity | null,
+    after: BrainEntity | null
+  ): Promise<void> {
+    await this.ready();
+    const statements = statsDeltas(before, after).map((counter) =>
+      this.db
+        .prepare(
+          `INSERT INTO brain_stats (tenant, metric, key, value)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT (tenant, metric, key)
+           DO UPDATE SET value = value + excluded.value`
+        )
+        .bind(this.tenant, counter.metric, counter.key, counter.delta)
+    );
+    const indexedAt = after?.metadata?.indexedAt;
+    if (indexedAt) {
+      statements.push(
+        this.db
+          .prepare(
+            `INSERT INTO brain_stats (tenant, metric, key, value)
+             VALUES (?, 'lastIndexed', '', ?)
+             ON CONFLICT (tenant, metric, key)
+             DO UPDATE SET value = MAX(value, excluded.value)`
+          )
+          .bind(this.tenant, indexedAt)
+      );
+    }
+    if (statements.length) await this.db.batch(statements);
+  }
+
+  /** One transaction, so writes landing meanwhile are counted exactly once */
+  async recount(): Promise<boolean> {
+    // The mirror may not have been written to (or created) yet
+    await Promise.all([this.ready(), metadataSchemaReady(this.db)]);
+    const since = Date.now() - ACTIVITY_WINDOW_MS - ACTIVITY_BUCKET_MS;
+    const insert = (metric: string, key: string, value: string) =>
+      this.db
+        .prepare(
+          `INSERT INTO brain_stats (tenant, metric, key, value)
+           SELECT tenant, ${metric}, ${key}, ${value} FROM entity_metadata
+           WHERE tenant = ? GROUP BY 1, 2, 3`
+        )
+        .bind(this.tenant);
+    const bucket = (column: string) =>
+      `${column} - (${column} % ${ACTIVITY_BUCKET_MS})`;
+
+    await this.db.batch([
+      this.db
+        .prepare("DELETE FROM brain_stats WHERE tenant = ?")
+        .bind(this.tenant),
+      insert("'total'", "''", "COUNT(*)"),
+      insert("'size'", "''", "COALESCE(SUM(size), 0)"),
+      insert("'type'", "type", "COUNT(*)"),
+      insert("'status'", "COALESCE(status, 'active')", "COUNT(*)"),
+      this.db
+        .prepare(
+          `INSERT INTO brain_stats (tenant, metric, key, value)
+           SELECT tenant, 'category', category, COUNT(*) FROM entity_metadata
+           WHERE tenant = ? AND category IS NOT NULL GROUP BY 1, 2, 3`
+        )
+        .bind(this.tenant),
+      insert(
+        "'indexing'",
+        `CASE WHEN json_extract(metadata, '$.indexed') THEN 'indexed'
+              WHEN json_extract(metadata, '$.indexError') IS NOT NULL
+              THEN 'failed' ELSE 'pending' END`,
+        "COUNT(*)"
+      ),
+      this.db
+        .prepare(
+          `INSERT INTO brain_stats (tenant, metric, key, value)
+           SELECT tenant, 'lastIndexed', '',
+             MAX(json_extract(metadata, '$.indexedAt'))
+           FROM entity_metadata WHERE tenant = ?
+           GROUP BY 1, 2, 3 HAVING MAX(json_extract(metadata, '$.indexedAt'))`
+        )
+        .bind(this.tenant),
+      this.db
+        .prepare(
+          `INSERT INTO brain_stats (tenant, metric, key, value)
+           SELECT tenant, 'created', ${bucket("created_at")}, COUNT(*)
+           FROM entity_metadata WHERE tenant = ? AND created_at >= ?
+           GROUP BY 1, 2, 3`
+        )
+        .bind(this.tenant, since),
+      this.db
+        .prepare(
+          `INSERT INTO brain_stats (tenant, metric, key, value)
+           SELECT tenant, 'updated', ${bucket("updated_at")}, COUNT(*)
+           FROM entity_metadata WHERE tenant = ? AND updated_at >= ?
+             AND updated_at != COALESCE(created_at, 0)
+           GROUP BY 1, 2, 3`
+        )
+        .bind(this.tenant, since),
+      this.db
+        .prepare(
+          `INSERT INTO brain_stats (tenant, metric, key, value)
+           VALUES (?, 'seededAt', '', ?)`
+        )
+        .bind(this.tenant, Date.now()),
+    ]);
+    return true;
+  }
+
+  async replace(stats: BrainStats): Promise<void> {
+    await this.ready();
+    const rows: Array<[string, string, number]> = [
+      ["total", "", stats.totalEntities],
+      ["size", "", stats.totalSize],
+      ["seededAt", "", Date.now()],
+    ];
+    for (const [metric, field] of Object.entries(PER_VALUE)) {
+      const counts = stats[field] as Record<string, number>;
+      for (const [key, value] of Object.entries(counts)) {
+        rows.push([metric, key, value]);
+      }
+    }
+    for (const [bucket, counts] of Object.entries(stats.activity)) {
+      rows.push(["created", bucket, counts.created]);
+      rows.push(["updated", bucket, counts.updated]);
+      rows.push(["deleted", bucket, counts.deleted]);
+    }
+    if (stats.lastIndexed) rows.push(["lastIndexed", "", stats.lastIndexed]);
+
+    await this.db.batch([
+      this.db
+        .prepare("DELETE FROM brain_stats WHERE tenant = ?")
+        .bind(this.tenant),
+      ...rows.map(([metric, key, value]) =>
+        this.db
+          .prepare(
+            "INSERT INTO brain_stats (tenant, metric, key, value) VALUES (?, ?, ?, ?)"
+          )
+          .bind(this.tenant, metric, key, value)
+      ),
+    ]);
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+    await this.db
+      .prepare("DELETE FROM brain_stats WHERE tenant = ?")
+      .bind(this.tenant)
+      .run();
+  }
+}
+
+// =====================================================
+// KEY/VALUE (KV fallback, in-memory backend)
+// =====================================================
+
+/**
+ * One JSON record per tenant. Updates are only serialized within an
+ * isolate, so concurrent KV writers can drop each other's deltas; bind
+ * BRAIN_DB for exact counts, or rebuild them with ?rebuild=true.
+ */
+class KVStatsStore implements StatsStore {
+  readonly kind = "kv";
+
+  constructor(private backend: StorageBackend, private key: string) {}
+
+  async read(): Promise<BrainStats | null> {
+    const raw = await this.backend.get(this.key);
+    if (!raw) return null;
+
+    try {
+      const stats: BrainStats = { ...emptyStats(), ...JSON.parse(raw) };
+      pruneActivity(stats);
+      return stats;
+    } catch (error) {
+      console.error("Error parsing brain stats:", error);
+      return null;
+    }
+  }
+
+  async apply(
+    before: BrainEntity | null,
+    after: BrainEntity | null
+  ): Promise<void> {
+    await withKeyLock(this.key, async () => {
+      // Not seeded yet: the pending recount will include this write
+      const stats = await this.read();
+      if (!stats) return;
+
+      applyCounters(stats, statsDeltas(before, after));
+      trackEntity(stats, before, after);
+      await this.save(stats);
+    });
+  }
+
+  async recount(): Promise<boolean> {
+    return false;
+  }
+
+  async replace(stats: BrainStats): Promise<void> {
+    await withKeyLock(this.key, () => this.save(stats));
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.delete(this.key);
+  }
+
+  private async save(stats: BrainStats): Promise<void> {
+    pruneActivity(stats);
+    stats.updatedAt = Date.now();
+    await this.backend.put(this.key, JSON.stringify(stats));
+  }
+}
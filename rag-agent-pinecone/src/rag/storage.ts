@@ -4,15 +4,164 @@ import {
   ConversationData,
   BrainEntity,
   BrainAnalytics,
-  EntityType,
-  EntityStatus,
+  EntityFilters,
+  EntityPage,
+  EntityQuery,
+  IndexTerm,
+  MaintenanceReport,
+  VectorIndexState,
 } from "../types";
+import { StorageBackend, createStorageBackend } from "./backends";
+import { IndexEntry, SecondaryIndexStore, indexTerms } from "./indexes";
+import {
+  ACTIVITY_BUCKET_MS,
+  ACTIVITY_WINDOW_MS,
+  BrainStats,
+  StatsStore,
+  createStatsStore,
+  emptyStats,
+  tallyEntity,
+} from "./stats";
+import {
+  MetadataPage,
+  MetadataStore,
+  createMetadataStore,
+  listMetadataTenants,
+  matchesQuery,
+  toMetadataRow,
+  QueryError,
+  TrashOptions,
+  validateQuery,
+} from "./metadata";
+
+const TENANT_KEY_PREFIX = "tenant:"; // one key per organization
+const TENANT_REFRESH_MS = 60 * 60 * 1000; // registry rewrite per isolate
+const INDEX_PAGE_SIZE = 100;
+const TENANT_DELETE_PAGE_SIZE = 500; // KV deletes per job step
+const STATS_JOB_TTL_SECONDS = 60 * 60; // a stuck seed job is replaced after this
+const MAINTENANCE_PAGE_SIZE = 100; // entities per maintenance job step
+const MAINTENANCE_JOB_TTL_SECONDS = 6 * 60 * 60; // then a new run may start
+const REPORT_PREFIX = "maintenance:report:";
+const LATEST_REPORT_KEY = `${REPORT_PREFIX}latest`;
+const REPORT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Serialize read-modify-write cycles on a shared KV key within this isolate,
+ * so concurrent batch writes don't drop each other's changes. Requests served
+ * by other isolates or colos are not serialized: expectedVersion checks
+ * narrow, but don't close, the window for a lost update across them.
+ */
+const keyLocks = new Map<string, Promise<unknown>>();
+
+export async function withKeyLock<T>(
+  key: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const previous = keyLocks.get(key) ?? Promise.resolve();
+  const run = previous.then(fn, fn);
+  const tail = run.catch(() => undefined);
+  keyLocks.set(key, tail);
+
+  try {
+    return await run;
+  } finally {
+    if (keyLocks.get(key) === tail) keyLocks.delete(key);
+  }
+}
+
+/** Soft-deleted entities stay in KV but are hidden from reads */
+export function isTrashed(entity: BrainEntity): boolean {
+  return entity.metadata?.status === "deleted";
+}
+
+/**
+ * KV prefix for an organization's keys; the default tenant (no organization)
+ * keeps the original unprefixed layout.
+ */
+export function tenantKeyPrefix(organizationId?: string): string {
+  return organizationId ? `org:${encodeURIComponent(organizationId)}:` : "";
+}
+
+/**
+ * Organizations with stored data (the default tenant isn't listed): the
+ * metadata mirror's tenants when BRAIN_DB is bound, else one registry key
+ * per organization, written by its writes.
+ */
+export async function listRegisteredTenants(
+  env: Env,
+  backend: StorageBackend
+): Promise<string[]> {
+  if (env.BRAIN_DB) return listMetadataTenants(env.BRAIN_DB);
+
+  const tenants: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await backend.list({ prefix: TENANT_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      tenants.push(decodeURIComponent(key.slice(TENANT_KEY_PREFIX.length)));
+    }
+    cursor = page.cursor;
+  } while (cursor);
+  return tenants;
+}
+
+function tenantKey(organizationId: string): string {
+  return `${TENANT_KEY_PREFIX}${encodeURIComponent(organizationId)}`;
+}
+
+/** A stored maintenance report by run id, or the latest one */
+export async function loadMaintenanceReport(
+  backend: StorageBackend,
+  runId?: string
+): Promise<MaintenanceReport | null> {
+  const raw = await backend.get(
+    runId ? `${REPORT_PREFIX}${runId}` : LATEST_REPORT_KEY
+  );
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * When this isolate last wrote each tenant's registry key. A deletion in
+ * another isolate is repaired by the next write after the refresh.
+ */
+const registeredTenants = new Map<string, number>();
 
 export class StorageService {
-  private keyPrefix = "brain:";
+  private tenantPrefix: string;
+  private keyPrefix: string;
+  private statsJobKey: string;
+  private maintenanceJobKey: string;
+  private historyPrefix: string;
+  private vectorIndexKey: string;
   private conversationPrefix = "conversation:"; // Backward compatibility
-
-  constructor(private env: Env) {}
+  private indexes: SecondaryIndexStore;
+  private metadata: MetadataStore | null;
+  private stats: StatsStore;
+
+  /**
+   * @param organizationId Tenant whose keys this instance reads and writes
+   * @param backend Where the keys live (STORAGE_BACKEND by default)
+   */
+  constructor(
+    env: Env,
+    private organizationId?: string,
+    private backend: StorageBackend = createStorageBackend(env)
+  ) {
+    this.tenantPrefix = tenantKeyPrefix(organizationId);
+    this.keyPrefix = `${this.tenantPrefix}brain:`;
+    this.statsJobKey = `${this.tenantPrefix}stats:seed-job`;
+    this.maintenanceJobKey = `${this.tenantPrefix}maintenance:job`;
+    this.historyPrefix = `${this.tenantPrefix}history:`;
+    this.vectorIndexKey = `${this.tenantPrefix}config:vector-index`;
+    this.indexes = backend.indexes(organizationId, this.tenantPrefix);
+    this.metadata = createMetadataStore(env, organizationId);
+    this.stats = createStatsStore(
+      env,
+      organizationId,
+      backend,
+      this.tenantPrefix
+    );
+  }
 
   // =====================================================
   // ENHANCED BRAIN OPERATIONS
@@ -22,6 +171,15 @@ export class StorageService {
   async storeBrainData(data: BrainEntity): Promise<void> {
     const key = `${this.keyPrefix}${data.id}`;
 
+    // Snapshot the previous record so the stats delta is exact
+    const previous = await this.readEntity(key);
+    await this.registerTenant();
+
+    // A version bump keeps the outgoing version as a revision
+    if (previous && previous.metadata?.version !== data.metadata?.version) {
+      await this.saveRevision(previous);
+    }
+
     // Add system metadata
     const enrichedData: BrainEntity = {
       ...data,
@@ -33,113 +191,160 @@ export class StorageService {
       },
     };
 
-    await this.env.RAG_CACHE.put(key, JSON.stringify(enrichedData), {
+    await this.backend.put(key, JSON.stringify(enrichedData), {
       expirationTtl: data.metadata?.expiresAt
         ? Math.max(0, Math.floor((data.metadata.expiresAt - Date.now()) / 1000))
         : 365 * 24 * 60 * 60, // 1 year default
     });
 
-    // Update type index for fast filtering
-    await this.updateTypeIndex(data.type, data.id, "add");
+    // Move the entity between type, category, tag, user and status indexes
+    await this.indexes.update(
+      data.id,
+      indexTerms(previous),
+      indexTerms(enrichedData)
+    );
+    await this.metadata?.upsert(enrichedData);
 
-    // Update category index if present
-    if (data.metadata?.category) {
-      await this.updateCategoryIndex(data.metadata.category, data.id, "add");
-    }
+    await this.recordStats(previous, enrichedData);
+  }
+
+  /**
+   * Run a read-check-write on one entity without interleaving other locked
+   * writers in this isolate (KV itself has no compare-and-swap). Writers in
+   * other isolates can still interleave; see withKeyLock.
+   */
+  async withEntityLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    return withKeyLock(`${this.keyPrefix}${id}`, fn);
   }
 
   /** Retrieve brain entity by ID */
   async retrieveBrainData(id: string): Promise<BrainEntity | null> {
     const key = `${this.keyPrefix}${id}`;
-    const data = await this.env.RAG_CACHE.get(key);
-
-    if (!data) return null;
+    const entity = await this.readEntity(key);
 
-    try {
-      const entity = JSON.parse(data) as BrainEntity;
+    if (!entity) return null;
 
-      // Check if expired
-      if (
-        entity.metadata?.expiresAt &&
-        entity.metadata.expiresAt < Date.now()
-      ) {
-        await this.deleteBrainData(id); // Auto-cleanup
-        return null;
-      }
-
-      return entity;
-    } catch (error) {
-      console.error("Error parsing brain data:", error);
+    // Check if expired
+    if (entity.metadata?.expiresAt && entity.metadata.expiresAt < Date.now()) {
+      await this.deleteBrainData(id); // Auto-cleanup
       return null;
     }
+
+    return entity;
   }
 
   /** Delete brain entity and cleanup indexes */
   async deleteBrainData(id: string): Promise<boolean> {
     const key = `${this.keyPrefix}${id}`;
 
-    // Get existing data for cleanup
-    const existing = await this.retrieveBrainData(id);
+    // Get existing data for cleanup (raw read: expired records still need cleanup)
+    const existing = await this.readEntity(key);
 
     // Delete main record
-    await this.env.RAG_CACHE.delete(key);
+    await this.backend.delete(key);
 
     // Cleanup indexes
+    await this.indexes.update(id, indexTerms(existing), []);
+    await this.metadata?.remove(id);
+
     if (existing) {
-      await this.updateTypeIndex(existing.type, id, "remove");
-      if (existing.metadata?.category) {
-        await this.updateCategoryIndex(
-          existing.metadata.category,
-          id,
-          "remove"
-        );
-      }
+      await this.recordStats(existing, null);
     }
 
+    await this.deleteRevisions(id);
+
     return true;
   }
 
-  /** List entities by type with pagination */
-  async listByType(
-    type: string,
-    limit: number = 100,
-    offset: number = 0
-  ): Promise<BrainEntity[]> {
-    // Get type index
-    const typeIndex = await this.getTypeIndex(type);
-    if (!typeIndex || typeIndex.length === 0) return [];
-
-    // Apply pagination
-    const paginatedIds = typeIndex.slice(offset, offset + limit);
+  /** Read and parse a stored entity without expiry handling */
+  private async readEntity(key: string): Promise<BrainEntity | null> {
+    const data = await this.backend.get(key);
+    if (!data) return null;
 
-    // Fetch entities
-    const entities: BrainEntity[] = [];
-    for (const id of paginatedIds) {
-      const entity = await this.retrieveBrainData(id);
-      if (entity) entities.push(entity);
+    try {
+      return JSON.parse(data) as BrainEntity;
+    } catch (error) {
+      console.error("Error parsing brain data:", error);
+      return null;
     }
+  }
 
-    return entities;
+  // =====================================================
+  // VERSION HISTORY
+  // =====================================================
+
+  private revisionKey(id: string, version: number): string {
+    return `${this.historyPrefix}${id}:${version}`;
   }
 
-  /** List entities by category */
-  async listByCategory(
-    category: string,
-    limit: number = 100
-  ): Promise<BrainEntity[]> {
-    const categoryIndex = await this.getCategoryIndex(category);
-    if (!categoryIndex || categoryIndex.length === 0) return [];
+  /** Keep a superseded version; embeddings are dropped, re-indexing recreates them */
+  private async saveRevision(entity: BrainEntity): Promise<void> {
+    const { embedding: _embedding, ...metadata } = entity.metadata;
+    await this.backend.put(
+      this.revisionKey(entity.id, entity.metadata?.version || 1),
+      JSON.stringify({ ...entity, metadata }),
+      { expirationTtl: 365 * 24 * 60 * 60 } // 1 year
+    );
+  }
 
-    const limitedIds = categoryIndex.slice(0, limit);
-    const entities: BrainEntity[] = [];
+  /** A stored past version, or null if it was never kept */
+  async getRevision(id: string, version: number): Promise<BrainEntity | null> {
+    return this.readEntity(this.revisionKey(id, version));
+  }
 
-    for (const id of limitedIds) {
-      const entity = await this.retrieveBrainData(id);
-      if (entity) entities.push(entity);
+  /** Every stored past version of an entity, oldest first */
+  async listRevisions(id: string): Promise<BrainEntity[]> {
+    const revisions: BrainEntity[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.backend.list({
+        prefix: `${this.historyPrefix}${id}:`,
+        cursor,
+      });
+      for (const key of page.keys) {
+        const revision = await this.readEntity(key);
+        // The prefix also matches ids that extend this one ("a" vs "a:b")
+        if (revision && revision.id === id) revisions.push(revision);
+      }
+      cursor = page.cursor;
+    } while (cursor);
+
+    return revisions.sort(
+      (a, b) => (a.metadata?.version || 0) - (b.metadata?.version || 0)
+    );
+  }
+
+  private async deleteRevisions(id: string): Promise<void> {
+    for (const revision of await this.listRevisions(id)) {
+      await this.backend.delete(
+        this.revisionKey(id, revision.metadata?.version || 1)
+      );
     }
+  }
 
-    return entities;
+  /** List entities by type, a page at a time */
+  async listByType(
+    type: string,
+    limit: number = 100,
+    cursor?: string
+  ): Promise<EntityPage> {
+    return this.collectIndexed([{ field: "type", value: type }], limit, cursor);
+  }
+
+  /** List entities by category, a page at a time */
+  async listByCategory(
+    category: string,
+    limit: number = 100,
+    cursor?: string
+  ): Promise<EntityPage> {
+    return this.collectIndexed(
+      [{ field: "category", value: category }],
+      limit,
+      cursor
+    );
   }
+
   /** Fetch entities based on BrainQueryOptions */
   async getEntities(options: {
     ids?: string[];
@@ -150,17 +355,17 @@ export class StorageService {
       const entities: BrainEntity[] = [];
       for (const id of options.ids) {
         const entity = await this.retrieveBrainData(id);
-        if (entity) entities.push(entity);
+        if (entity && !isTrashed(entity)) entities.push(entity);
       }
       return entities;
     }
 
     if (options.category) {
-      return this.listByCategory(options.category);
+      return (await this.listByCategory(options.category)).entities;
     }
 
     if (options.type) {
-      return this.listByType(options.type);
+      return (await this.listByType(options.type)).entities;
     }
 
     // fallback: return first 100 entities
@@ -169,303 +374,670 @@ export class StorageService {
     const entities: BrainEntity[] = [];
     for (const id of limitedIds) {
       const entity = await this.retrieveBrainData(id);
-      if (entity) entities.push(entity);
+      if (entity && !isTrashed(entity)) entities.push(entity);
     }
     return entities;
   }
-  /** Search entities with complex filters */
-  async searchEntities(filters: {
-    type?: string;
-    category?: string;
-    userId?: string;
-    status?: EntityStatus;
-    tags?: string[];
-    dateRange?: { start: number; end: number };
-    textSearch?: string;
-    limit?: number;
-  }): Promise<BrainEntity[]> {
-    console.log("🔍 Searching entities with filters:", filters);
 
-    // Start with all entities if no specific index to use
-    let candidates: string[] = [];
+  /** Search entities with complex filters */
+  async searchEntities(filters: EntityQuery): Promise<BrainEntity[]> {
+    return (await this.searchEntityPage(filters)).entities;
+  }
 
-    // Use type index if available (most efficient)
-    if (filters.type) {
-      candidates = await this.getTypeIndex(filters.type);
-    } else if (filters.category) {
-      candidates = await this.getCategoryIndex(filters.category);
+  /**
+   * One page of entities matching the query. With a metadata store the
+   * filters, conditions, sorting and count run as SQL; without one, type,
+   * category, tag, user and status narrow candidates through the secondary
+   * indexes and the rest is checked per entity. Pass the returned cursor to
+   * continue.
+   */
+  async searchEntityPage(
+    query: EntityQuery,
+    cursor?: string
+  ): Promise<EntityPage> {
+    console.log("🔍 Searching entities with filters:", query);
+    validateQuery(query);
+    const limit = query.limit || 100;
+    const accept = (entity: BrainEntity) =>
+      this.matchesFilters(entity, query) &&
+      matchesQuery(toMetadataRow(entity), query);
+
+    let page: EntityPage;
+    if (this.metadata) {
+      page = await this.collectQueried(
+        (next, count) =>
+          this.metadata!.query(
+            { ...query, count },
+            Math.max(limit, INDEX_PAGE_SIZE),
+            next
+          ),
+        limit,
+        cursor,
+        accept,
+        query.count
+      );
     } else {
-      // Fallback: scan all brain entities (expensive!)
-      candidates = await this.getAllBrainEntityIds();
+      if (query.sortBy || query.count) {
+        throw new QueryError(
+          "Sorting and counting need a metadata store (bind BRAIN_DB)",
+          query.sortBy ? "/sortBy" : "/count"
+        );
+      }
+      const terms = this.filterTerms(query);
+      page = terms.length
+        ? await this.collectIndexed(terms, limit, cursor, accept)
+        : await this.collectScanned(limit, cursor, accept);
     }
 
-    const results: BrainEntity[] = [];
-    let processed = 0;
-    const maxToProcess = Math.min(
-      candidates.length,
-      (filters.limit || 100) * 3
-    ); // Process 3x limit for filtering
+    console.log(`✅ Found ${page.entities.length} entities after filtering`);
+    return page;
+  }
 
-    for (const id of candidates) {
-      if (processed >= maxToProcess) break;
+  /**
+   * Ids matching the filters, from the metadata store; null without one or
+   * when more than `max` match (callers then filter some other way).
+   */
+  async prefilterIds(
+    query: EntityQuery,
+    max: number
+  ): Promise<string[] | null> {
+    if (!this.metadata) return null;
+    const { ids, more } = await this.metadata.query(query, max);
+    return more ? null : ids;
+  }
 
-      const entity = await this.retrieveBrainData(id);
-      if (!entity) continue;
+  /**
+   * Page through metadata store results (`fetch` gets the store cursor and
+   * whether to count), loading each entity from KV; the cursor is the
+   * store's keyset cursor after the last row looked at. textSearch (content)
+   * and anything KV disagrees with are filtered out here.
+   */
+  private async collectQueried(
+    fetch: (
+      cursor: string | undefined,
+      count: boolean
+    ) => Promise<MetadataPage>,
+    limit: number,
+    cursor: string | undefined,
+    accept: (entity: BrainEntity) => boolean,
+    count: boolean = false
+  ): Promise<EntityPage> {
+    const entities: BrainEntity[] = [];
+    let total: number | undefined;
 
-      processed++;
-
-      // Apply filters
-      if (filters.userId && entity.metadata?.userId !== filters.userId)
-        continue;
-      if (filters.status && entity.metadata?.status !== filters.status)
-        continue;
-      if (filters.category && entity.metadata?.category !== filters.category)
-        continue;
-
-      // Tag filtering
-      if (filters.tags && filters.tags.length > 0) {
-        const entityTags = entity.metadata?.tags || [];
-        const hasRequiredTags = filters.tags.every((tag) =>
-          entityTags.includes(tag)
-        );
-        if (!hasRequiredTags) continue;
+    for (;;) {
+      const page = await fetch(cursor, count && total === undefined);
+      total ??= page.total;
+
+      for (const [i, id] of page.ids.entries()) {
+        const entity = await this.retrieveBrainData(id);
+        if (entity && accept(entity)) entities.push(entity);
+        if (entities.length >= limit) {
+          const more = i < page.ids.length - 1 || page.more;
+          return {
+            entities,
+            cursor: more ? page.cursors[i] : undefined,
+            total,
+          };
+        }
       }
 
-      // Date range filtering
-      if (filters.dateRange) {
-        const createdAt = entity.metadata?.createdAt || 0;
-        if (
-          createdAt < filters.dateRange.start ||
-          createdAt > filters.dateRange.end
-        ) {
-          continue;
+      if (!page.more) return { entities, total };
+      cursor = page.cursors[page.cursors.length - 1];
+    }
+  }
+
+  /** Index terms implied by the filters (every one must match) */
+  private filterTerms(filters: EntityFilters): IndexTerm[] {
+    const terms: IndexTerm[] = [];
+    if (filters.type) terms.push({ field: "type", value: filters.type });
+    if (filters.category) {
+      terms.push({ field: "category", value: filters.category });
+    }
+    for (const tag of filters.tags || []) {
+      terms.push({ field: "tag", value: tag });
+    }
+    if (filters.userId) terms.push({ field: "user", value: filters.userId });
+    if (filters.status) terms.push({ field: "status", value: filters.status });
+    return terms;
+  }
+
+  /**
+   * Walk the index for `terms` until `limit` entities pass `accept`
+   * (by default: not trashed). The cursor is the last id looked at.
+   */
+  private async collectIndexed(
+    terms: IndexTerm[],
+    limit: number,
+    cursor?: string,
+    accept: (entity: BrainEntity) => boolean = (entity) => !isTrashed(entity)
+  ): Promise<EntityPage> {
+    const entities: BrainEntity[] = [];
+    let next = cursor;
+
+    do {
+      const page = await this.indexes.query(
+        terms,
+        Math.max(limit, INDEX_PAGE_SIZE),
+        next
+      );
+      for (const [i, id] of page.ids.entries()) {
+        const entity = await this.retrieveBrainData(id);
+        if (entity && accept(entity)) entities.push(entity);
+        if (entities.length >= limit) {
+          const more = i < page.ids.length - 1 || Boolean(page.cursor);
+          return { entities, cursor: more ? id : undefined };
         }
       }
+      next = page.cursor;
+    } while (next);
+
+    return { entities };
+  }
+
+  /** Like collectIndexed, but walking every stored entity in key order */
+  private async collectScanned(
+    limit: number,
+    cursor: string | undefined,
+    accept: (entity: BrainEntity) => boolean
+  ): Promise<EntityPage> {
+    const entities: BrainEntity[] = [];
+    let next = cursor;
+
+    do {
+      // Stop on a KV page boundary so the cursor stays valid
+      const page = await this.listEntityPage(next, INDEX_PAGE_SIZE);
+      entities.push(...page.entities.filter(accept));
+      next = page.cursor;
+      if (entities.length >= limit) break;
+    } while (next);
+
+    return { entities, cursor: next };
+  }
+
+  /**
+   * Stream every stored entity matching the filters, following KV list
+   * cursors page by page so there's no cap on how many keys are visited.
+   */
+  async *scanEntities(
+    filters: EntityFilters = {},
+    pageSize: number = 1000
+  ): AsyncGenerator<BrainEntity> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.backend.list({
+        prefix: this.keyPrefix,
+        limit: pageSize,
+        cursor,
+      });
+
+      for (const key of page.keys) {
+        const entity = await this.retrieveBrainData(
+          key.slice(this.keyPrefix.length)
+        );
+        if (entity && this.matchesFilters(entity, filters)) yield entity;
+      }
+
+      cursor = page.cursor;
+    } while (cursor);
+  }
 
-      // Text search (simple contains)
-      if (filters.textSearch) {
-        const searchText = filters.textSearch.toLowerCase();
-        const contentMatch = entity.content.toLowerCase().includes(searchText);
-        const idMatch = entity.id.toLowerCase().includes(searchText);
-        if (!contentMatch && !idMatch) continue;
+  /** One page of stored entities in key order, for jobs that resume by cursor */
+  async listEntityPage(
+    cursor?: string,
+    limit: number = 50
+  ): Promise<{ entities: BrainEntity[]; cursor?: string }> {
+    const page = await this.backend.list({
+      prefix: this.keyPrefix,
+      limit,
+      cursor,
+    });
+
+    const entities: BrainEntity[] = [];
+    for (const key of page.keys) {
+      const entity = await this.retrieveBrainData(
+        key.slice(this.keyPrefix.length)
+      );
+      if (entity) entities.push(entity);
+    }
+
+    return { entities, cursor: page.cursor };
+  }
+
+  /** Apply EntityFilters to a single entity (trash is hidden unless asked for) */
+  private matchesFilters(entity: BrainEntity, filters: EntityFilters): boolean {
+    if (filters.type && entity.type !== filters.type) return false;
+    if (filters.userId && entity.metadata?.userId !== filters.userId)
+      return false;
+    if (
+      filters.organizationId &&
+      entity.metadata?.organizationId !== filters.organizationId
+    )
+      return false;
+    if (filters.status && entity.metadata?.status !== filters.status)
+      return false;
+    if (!filters.status && !filters.includeTrashed && isTrashed(entity))
+      return false;
+    if (filters.category && entity.metadata?.category !== filters.category)
+      return false;
+
+    // Tag filtering
+    if (filters.tags && filters.tags.length > 0) {
+      const entityTags = entity.metadata?.tags || [];
+      const hasRequiredTags = filters.tags.every((tag) =>
+        entityTags.includes(tag)
+      );
+      if (!hasRequiredTags) return false;
+    }
+
+    // Date range filtering
+    if (filters.dateRange) {
+      const createdAt = entity.metadata?.createdAt || 0;
+      if (
+        createdAt < filters.dateRange.start ||
+        createdAt > filters.dateRange.end
+      ) {
+        return false;
       }
+    }
 
-      results.push(entity);
+    // Text search (simple contains)
+    if (filters.textSearch) {
+      const searchText = filters.textSearch.toLowerCase();
+      const contentMatch = entity.content.toLowerCase().includes(searchText);
+      const idMatch = entity.id.toLowerCase().includes(searchText);
+      if (!contentMatch && !idMatch) return false;
+    }
+
+    return true;
+  }
 
-      if (results.length >= (filters.limit || 100)) break;
+  /** Backend write/read/delete round trip used by the health check */
+  async probe(): Promise<string> {
+    const key = `health:probe:${crypto.randomUUID()}`;
+    const value = String(Date.now());
+
+    await this.backend.put(key, value, { expirationTtl: 60 });
+    const readBack = await this.backend.get(key);
+    await this.backend.delete(key);
+
+    if (readBack !== value) {
+      throw new Error(
+        `${this.backend.kind} round trip returned unexpected value`
+      );
     }
+    return `${this.backend.kind} backend`;
+  }
 
-    console.log(`✅ Found ${results.length} entities after filtering`);
-    return results;
+  /** The tenant's embedding model and namespace; null until first changed */
+  async getVectorIndexState(): Promise<VectorIndexState | null> {
+    const raw = await this.backend.get(this.vectorIndexKey);
+    return raw ? JSON.parse(raw) : null;
   }
 
-  /** Get comprehensive brain statistics */
-  async getBrainStats(): Promise<BrainAnalytics> {
-    console.log("📊 Generating brain statistics...");
+  async saveVectorIndexState(state: VectorIndexState): Promise<void> {
+    await this.backend.put(this.vectorIndexKey, JSON.stringify(state));
+  }
 
-    const allIds = await this.getAllBrainEntityIds();
-    const totalEntities = allIds.length;
+  /**
+   * One page of soft-deleted entities, optionally only those trashed at or
+   * before `deletedBefore`. With a metadata store they come oldest deletion
+   * first (and can be counted); without one, in id order from the status
+   * index, never counted. Pass the returned cursor to continue.
+   */
+  async listTrash(
+    limit: number = 100,
+    cursor?: string,
+    { deletedBefore, count }: TrashOptions = {}
+  ): Promise<EntityPage> {
+    const accept = (entity: BrainEntity) =>
+      isTrashed(entity) &&
+      (deletedBefore === undefined ||
+        (entity.metadata.deletedAt || 0) <= deletedBefore);
+
+    if (!this.metadata) {
+      return this.collectIndexed(
+        [{ field: "status", value: "deleted" }],
+        limit,
+        cursor,
+        accept
+      );
+    }
+    return this.collectQueried(
+      (next, count) =>
+        this.metadata!.trash(Math.max(limit, INDEX_PAGE_SIZE), next, {
+          deletedBefore,
+          count,
+        }),
+      limit,
+      cursor,
+      accept,
+      count
+    );
+  }
 
-    // Sample entities for detailed stats (limit for performance)
-    const sampleSize = Math.min(totalEntities, 1000);
-    const sampleIds = allIds.slice(0, sampleSize);
+  /**
+   * Delete one page of keys under this tenant's prefix. The first page (no
+   * cursor) also clears its D1 rows; the last takes it off the registry.
+   */
+  async deleteTenantPage(
+    cursor?: string
+  ): Promise<{ deleted: number; cursor?: string }> {
+    if (!this.tenantPrefix) {
+      throw new Error("Refusing to delete the unprefixed default tenant");
+    }
 
-    const byType: Record<string, number> = {};
-    const byCategory: Record<string, number> = {};
-    const byStatus: Record<string, number> = {};
+    if (!cursor) {
+      await this.indexes.clear();
+      await this.metadata?.clear();
+      await this.stats.clear();
+    }
 
-    let totalSize = 0;
-    let largestEntity = "";
-    let largestSize = 0;
-    let indexedCount = 0;
-    let recentActivity = { created: 0, updated: 0, deleted: 0 };
+    const page = await this.backend.list({
+      prefix: this.tenantPrefix,
+      cursor,
+      limit: TENANT_DELETE_PAGE_SIZE,
+    });
+    await Promise.all(page.keys.map((key) => this.backend.delete(key)));
 
-    const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
+    if (!page.cursor) {
+      await this.backend.delete(tenantKey(this.organizationId!));
+      registeredTenants.delete(this.organizationId!);
+    }
+    return { deleted: page.keys.length, cursor: page.cursor };
+  }
 
-    for (const id of sampleIds) {
-      const entity = await this.retrieveBrainData(id);
-      if (!entity) continue;
+  // =====================================================
+  // MAINTENANCE
+  // =====================================================
 
-      // Type stats
-      byType[entity.type] = (byType[entity.type] || 0) + 1;
+  /**
+   * One page of stored entities as written, including expired ones reads
+   * would hide, for maintenance jobs that resume by cursor
+   */
+  async listStoredEntityPage(
+    cursor?: string,
+    limit: number = MAINTENANCE_PAGE_SIZE
+  ): Promise<{ entities: BrainEntity[]; cursor?: string }> {
+    const page = await this.backend.list({
+      prefix: this.keyPrefix,
+      limit,
+      cursor,
+    });
 
-      // Category stats
-      if (entity.metadata?.category) {
-        byCategory[entity.metadata.category] =
-          (byCategory[entity.metadata.category] || 0) + 1;
+    const entities: BrainEntity[] = [];
+    for (const key of page.keys) {
+      const entity = await this.readEntity(key);
+      if (entity) entities.push(entity);
+    }
+    return { entities, cursor: page.cursor };
+  }
+
+  /**
+   * Drop one page of index rows whose entity is gone (e.g. expired through
+   * its KV TTL) or no longer carries that term. `missingIds` are the
+   * entities that no longer exist at all.
+   */
+  async pruneIndexPage(cursor?: string): Promise<{
+    entriesScanned: number;
+    idsRemoved: number;
+    missingIds: string[];
+    cursor?: string;
+  }> {
+    const entities = new Map<string, BrainEntity | null>();
+    const page = await this.indexes.scan(cursor);
+
+    const stale: IndexEntry[] = [];
+    for (const entry of page.entries) {
+      if (!entities.has(entry.id)) {
+        entities.set(
+          entry.id,
+          await this.readEntity(`${this.keyPrefix}${entry.id}`)
+        );
       }
+      const belongs = indexTerms(entities.get(entry.id) ?? null).some(
+        (term) => term.field === entry.field && term.value === entry.value
+      );
+      if (!belongs) stale.push(entry);
+    }
 
-      // Status stats
-      const status = entity.metadata?.status || "active";
-      byStatus[status] = (byStatus[status] || 0) + 1;
+    await this.indexes.removeEntries(stale);
+    for (const entry of stale) {
+      if (!entities.get(entry.id)) await this.metadata?.remove(entry.id);
+    }
+    if (stale.length) {
+      console.log(`🧹 Pruned ${stale.length} dangling index ids`);
+    }
 
-      // Size tracking
-      const entitySize = entity.metadata?.size || 0;
-      totalSize += entitySize;
-      if (entitySize > largestSize) {
-        largestSize = entitySize;
-        largestEntity = entity.id;
-      }
+    return {
+      entriesScanned: page.entries.length,
+      idsRemoved: stale.length,
+      missingIds: [...entities]
+        .filter(([, entity]) => !entity)
+        .map(([id]) => id),
+      cursor: page.cursor,
+    };
+  }
 
-      // Indexing status
-      if (entity.metadata?.indexed) {
-        indexedCount++;
-      }
+  /** The running maintenance job started by this tenant's agent, if any */
+  async getMaintenanceJobId(): Promise<string | null> {
+    return this.backend.get(this.maintenanceJobKey);
+  }
 
-      // Recent activity
-      const createdAt = entity.metadata?.createdAt || 0;
-      const updatedAt = entity.metadata?.updatedAt || 0;
+  async setMaintenanceJobId(jobId: string): Promise<void> {
+    await this.backend.put(this.maintenanceJobKey, jobId, {
+      expirationTtl: MAINTENANCE_JOB_TTL_SECONDS,
+    });
+  }
+
+  /** Store a finished run's report, by run id and as the latest */
+  async saveMaintenanceReport(report: MaintenanceReport): Promise<void> {
+    const body = JSON.stringify(report);
+    await this.backend.put(`${REPORT_PREFIX}${report.runId}`, body, {
+      expirationTtl: REPORT_TTL_SECONDS,
+    });
+    await this.backend.put(LATEST_REPORT_KEY, body, {
+      expirationTtl: REPORT_TTL_SECONDS,
+    });
+  }
+
+  /**
+   * Index one page of stored entities (by KV key order) under their current
+   * terms; backfills the index store after BRAIN_DB is first bound.
+   */
+  async rebuildIndexPage(
+    cursor?: string,
+    limit: number = 50
+  ): Promise<{ indexed: number; cursor?: string }> {
+    const page = await this.backend.list({
+      prefix: this.keyPrefix,
+      limit,
+      cursor,
+    });
 
-      if (createdAt > oneDayAgo) recentActivity.created++;
-      if (updatedAt > oneDayAgo && updatedAt !== createdAt)
-        recentActivity.updated++;
+    if (!cursor) {
+      // Trashed entities are now found through their "deleted" status
+      await this.backend.delete(`${this.tenantPrefix}index:trash`);
     }
 
-    // Extrapolate sample data to full dataset
-    const scaleFactor = totalEntities / sampleSize;
+    let indexed = 0;
+    for (const key of page.keys) {
+      const entity = await this.readEntity(key);
+      if (!entity) continue;
+      await this.indexes.update(entity.id, [], indexTerms(entity));
+      await this.metadata?.upsert(entity);
+      indexed++;
+    }
+
+    return { indexed, cursor: page.cursor };
+  }
+
+  /** Which store answers metadata queries, if any */
+  metadataStoreKind(): MetadataStore["kind"] | null {
+    return this.metadata?.kind ?? null;
+  }
+
+  /** Which store backs the secondary indexes */
+  indexStoreKind(): SecondaryIndexStore["kind"] {
+    return this.indexes.kind;
+  }
+
+  /**
+   * Brain statistics from the maintained counters. `pending` means they
+   * haven't been seeded yet (see rebuildStatsPage) and read as zero.
+   */
+  async getBrainStats(): Promise<BrainAnalytics & { pending?: boolean }> {
+    const seeded = await this.stats.read();
+    const stats = seeded ?? emptyStats();
+    const now = Date.now();
+    const since = now - ACTIVITY_WINDOW_MS;
+
+    const recentActivity = { created: 0, updated: 0, deleted: 0 };
+    for (const [bucket, counts] of Object.entries(stats.activity)) {
+      if (Number(bucket) < since - ACTIVITY_BUCKET_MS) continue;
+      recentActivity.created += counts.created;
+      recentActivity.updated += counts.updated;
+      recentActivity.deleted += counts.deleted;
+    }
 
     return {
-      totalEntities,
-      byType: this.scaleStats(byType, scaleFactor),
-      byCategory: this.scaleStats(byCategory, scaleFactor),
-      byStatus: this.scaleStats(byStatus, scaleFactor),
+      totalEntities: stats.totalEntities,
+      byType: { ...stats.byType },
+      byCategory: { ...stats.byCategory },
+      byStatus: { ...stats.byStatus },
       recentActivity: {
-        ...this.scaleStats(recentActivity, scaleFactor),
+        ...recentActivity,
         timeframe: "last_24_hours",
       },
       indexingStatus: {
-        indexed: Math.round(indexedCount * scaleFactor),
-        pending: totalEntities - Math.round(indexedCount * scaleFactor),
-        failed: 0, // TODO: track indexing failures
+        indexed: stats.indexing.indexed || 0,
+        pending: stats.indexing.pending || 0,
+        failed: stats.indexing.failed || 0,
+        lastIndexed: stats.lastIndexed,
       },
       storageUsage: {
-        totalSize: Math.round(totalSize * scaleFactor),
+        totalSize: stats.totalSize,
         averageSize:
-          totalEntities > 0
-            ? Math.round((totalSize * scaleFactor) / totalEntities)
+          stats.totalEntities > 0
+            ? Math.round(stats.totalSize / stats.totalEntities)
             : 0,
-        largestEntity,
+        largestEntity: stats.largest[0]?.id || "",
       },
-      generatedAt: Date.now(),
+      generatedAt: now,
+      ...(!seeded && { pending: true }),
     };
   }
 
-  // =====================================================
-  // INDEX MANAGEMENT
-  // =====================================================
-
-  /** Update type index for fast filtering */
-  private async updateTypeIndex(
-    type: string,
-    id: string,
-    operation: "add" | "remove"
-  ): Promise<void> {
-    const indexKey = `index:type:${type}`;
-    const existing = await this.env.RAG_CACHE.get(indexKey);
+  /**
+   * One step of recounting the stats (a background job). A D1 store
+   * recounts from the metadata mirror at once; otherwise each step tallies
+   * a page of entities into `partial` and the last one swaps it in.
+   */
+  async rebuildStatsPage(
+    cursor?: string,
+    partial: BrainStats = emptyStats(),
+    limit: number = 100
+  ): Promise<{ counted: number; cursor?: string; partial?: BrainStats }> {
+    if (!cursor && (await this.stats.recount())) {
+      return { counted: (await this.getBrainStats()).totalEntities };
+    }
 
-    let ids: string[] = [];
-    if (existing) {
-      try {
-        ids = JSON.parse(existing);
-      } catch (error) {
-        console.error("Error parsing type index:", error);
-      }
+    const page = await this.backend.list({
+      prefix: this.keyPrefix,
+      limit,
+      cursor,
+    });
+    for (const key of page.keys) {
+      const entity = await this.readEntity(key);
+      if (entity) tallyEntity(partial, entity);
     }
 
-    if (operation === "add" && !ids.includes(id)) {
-      ids.push(id);
-    } else if (operation === "remove") {
-      ids = ids.filter((existingId) => existingId !== id);
+    if (page.cursor) {
+      return { counted: page.keys.length, cursor: page.cursor, partial };
     }
+    await this.stats.replace(partial);
+    console.log(
+      `📊 Recounted brain statistics: ${partial.totalEntities} entities`
+    );
+    return { counted: page.keys.length };
+  }
 
-    await this.env.RAG_CACHE.put(indexKey, JSON.stringify(ids), {
-      expirationTtl: 365 * 24 * 60 * 60, // 1 year
-    });
+  /** The stats seed job already under way, if any */
+  async getStatsJobId(): Promise<string | null> {
+    return this.backend.get(this.statsJobKey);
   }
 
-  /** Get type index */
-  private async getTypeIndex(type: string): Promise<string[]> {
-    const indexKey = `index:type:${type}`;
-    const data = await this.env.RAG_CACHE.get(indexKey);
+  async setStatsJobId(jobId: string): Promise<void> {
+    await this.backend.put(this.statsJobKey, jobId, {
+      expirationTtl: STATS_JOB_TTL_SECONDS,
+    });
+  }
 
-    if (!data) return [];
+  // =====================================================
+  // STATS COUNTERS
+  // =====================================================
 
+  /**
+   * Apply a write's counter delta. The entity is already stored, so a
+   * failure here is logged (a recount repairs it) rather than thrown.
+   */
+  private async recordStats(
+    before: BrainEntity | null,
+    after: BrainEntity | null
+  ): Promise<void> {
     try {
-      return JSON.parse(data);
+      await this.stats.apply(before, after);
     } catch (error) {
-      console.error("Error parsing type index:", error);
-      return [];
+      console.error("❌ Stats update failed; rebuild the counters:", error);
     }
   }
 
-  /** Update category index */
-  private async updateCategoryIndex(
-    category: string,
-    id: string,
-    operation: "add" | "remove"
-  ): Promise<void> {
-    const indexKey = `index:category:${category}`;
-    const existing = await this.env.RAG_CACHE.get(indexKey);
-
-    let ids: string[] = [];
-    if (existing) {
-      try {
-        ids = JSON.parse(existing);
-      } catch (error) {
-        console.error("Error parsing category index:", error);
-      }
-    }
-
-    if (operation === "add" && !ids.includes(id)) {
-      ids.push(id);
-    } else if (operation === "remove") {
-      ids = ids.filter((existingId) => existingId !== id);
+  /**
+   * List the tenant for maintenance. The metadata mirror already does when
+   * there is one; otherwise its registry key is rewritten now and then.
+   */
+  private async registerTenant(): Promise<void> {
+    const organizationId = this.organizationId;
+    if (!organizationId || this.metadata) return;
+    const now = Date.now();
+    if (
+      now - (registeredTenants.get(organizationId) ?? 0) <
+      TENANT_REFRESH_MS
+    ) {
+      return;
     }
 
-    await this.env.RAG_CACHE.put(indexKey, JSON.stringify(ids), {
-      expirationTtl: 365 * 24 * 60 * 60,
-    });
+    await this.backend.put(tenantKey(organizationId), String(now));
+    registeredTenants.set(organizationId, now);
   }
 
-  /** Get category index */
-  private async getCategoryIndex(category: string): Promise<string[]> {
-    const indexKey = `index:category:${category}`;
-    const data = await this.env.RAG_CACHE.get(indexKey);
-
-    if (!data) return [];
-
-    try {
-      return JSON.parse(data);
-    } catch (error) {
-      console.error("Error parsing category index:", error);
-      return [];
-    }
-  }
+  // =====================================================
+  // INDEX MANAGEMENT
+  // =====================================================
 
   /** Get all brain entity IDs (expensive operation) */
   private async getAllBrainEntityIds(): Promise<string[]> {
     console.log("⚠️ Performing expensive scan of all brain entities");
 
-    const listResult = await this.env.RAG_CACHE.list({
-      prefix: this.keyPrefix,
-      limit: 10000, // KV limit
-    });
+    const ids: string[] = [];
+    let cursor: string | undefined;
 
-    return listResult.keys
-      .map((key) => key.name.replace(this.keyPrefix, ""))
-      .filter((id) => !id.startsWith("index:")); // Exclude index keys
-  }
+    do {
+      const listResult = await this.backend.list({
+        prefix: this.keyPrefix,
+        cursor,
+      });
 
-  /** Scale statistics from sample to full dataset */
-  private scaleStats(
-    stats: Record<string, number>,
-    scaleFactor: number
-  ): Record<string, number> {
-    const scaled: Record<string, number> = {};
-    for (const [key, value] of Object.entries(stats)) {
-      scaled[key] = Math.round(value * scaleFactor);
-    }
-    return scaled;
+      for (const key of listResult.keys) {
+        const id = key.replace(this.keyPrefix, "");
+        if (!id.startsWith("index:")) ids.push(id); // Exclude index keys
+      }
+
+      cursor = listResult.cursor;
+    } while (cursor);
+
+    return ids;
   }
 
   // =====================================================
@@ -475,7 +1047,7 @@ export class StorageService {
   /** Store conversation data (legacy method) */
   async store(data: ConversationData): Promise<void> {
     const key = `${this.conversationPrefix}${data.id}`;
-    await this.env.RAG_CACHE.put(key, JSON.stringify(data), {
+    await this.backend.put(key, JSON.stringify(data), {
       expirationTtl: 30 * 24 * 60 * 60, // 30 days
     });
   }
@@ -483,7 +1055,7 @@ export class StorageService {
   /** Retrieve conversation data (legacy method) */
   async retrieve(id: string): Promise<ConversationData | null> {
     const key = `${this.conversationPrefix}${id}`;
-    const data = await this.env.RAG_CACHE.get(key);
+    const data = await this.backend.get(key);
 
     if (!data) return null;
 
@@ -498,7 +1070,7 @@ export class StorageService {
   /** Delete conversation data (legacy method) */
   async delete(id: string): Promise<boolean> {
     const key = `${this.conversationPrefix}${id}`;
-    await this.env.RAG_CACHE.delete(key);
+    await this.backend.delete(key);
     return true;
   }
 
@@ -507,7 +1079,7 @@ export class StorageService {
     userId: string,
     limit: number = 100
   ): Promise<ConversationData[]> {
-    const listResult = await this.env.RAG_CACHE.list({
+    const listResult = await this.backend.list({
       prefix: this.conversationPrefix,
       limit: Math.min(limit * 2, 1000), // Get more to account for filtering
     });
@@ -515,7 +1087,7 @@ export class StorageService {
     const conversations: ConversationData[] = [];
 
     for (const key of listResult.keys) {
-      const data = await this.env.RAG_CACHE.get(key.name);
+      const data = await this.backend.get(key);
       if (data) {
         try {
           const conversation = JSON.parse(data);
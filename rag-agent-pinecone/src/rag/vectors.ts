@@ -0,0 +1,548 @@
+// src/rag/vectors.ts - Vector stores behind semantic search (Pinecone, Vectorize, in-memory)
+import { Env } from "../types";
+import { PineconeService } from "./pinecone";
+
+export type VectorStoreKind = "pinecone" | "vectorize" | "memory";
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: Record<string, any>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  values?: number[];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * `filter` uses Pinecone's metadata filter language: plain values for
+ * equality, or operators ($eq, $ne, $in, $nin, $gt, $gte, $lt, $lte,
+ * $exists) and $and / $or.
+ */
+export interface VectorQueryOptions {
+  topK: number;
+  filter?: Record<string, any>;
+  includeMetadata?: boolean;
+  includeValues?: boolean;
+  namespace?: string;
+}
+
+/**
+ * Outcome of a filtered or namespace-wide delete. `complete` is false when
+ * matching vectors may remain (Vectorize deletes by probing); callers retry
+ * later rather than report the vectors gone.
+ */
+export interface VectorDeleteResult {
+  complete: boolean;
+  /** Vectors removed, when the store can count them */
+  deleted?: number;
+}
+
+export interface VectorStoreStats {
+  dimension: number;
+  totalVectorCount: number;
+  indexFullness?: number;
+  /** Per-namespace counts, when the store reports them */
+  namespaces?: Record<string, { vectorCount: number }>;
+}
+
+/**
+ * Where chunk vectors live. Every operation takes an optional namespace
+ * (tenants and reindex targets each get their own); unset is the default
+ * namespace.
+ */
+export interface VectorStore {
+  readonly kind: VectorStoreKind;
+  upsert(vectors: VectorRecord[], namespace?: string): Promise<unknown>;
+  batchUpsert(
+    vectors: VectorRecord[],
+    batchSize?: number,
+    namespace?: string
+  ): Promise<unknown>;
+  query(
+    vector: number[],
+    options: VectorQueryOptions
+  ): Promise<{ matches: VectorMatch[] }>;
+  deleteById(ids: string[], namespace?: string): Promise<void>;
+  deleteByFilter(
+    filter: Record<string, any>,
+    namespace?: string
+  ): Promise<VectorDeleteResult>;
+  deleteAll(namespace?: string): Promise<VectorDeleteResult>;
+  fetch(
+    ids: string[],
+    namespace?: string
+  ): Promise<{ vectors: Record<string, VectorRecord> }>;
+  /** Vector ids page by page; throws where the store can't enumerate */
+  listIds(options?: {
+    namespace?: string;
+    prefix?: string;
+    limit?: number;
+    paginationToken?: string;
+  }): Promise<{ ids: string[]; next?: string }>;
+  getStats(namespace?: string): Promise<VectorStoreStats>;
+  healthCheck(): Promise<{
+    status: "healthy" | "unhealthy";
+    latency?: number;
+    error?: string;
+  }>;
+}
+
+export function hasPinecone(env: Env): boolean {
+  return Boolean(env.PINECONE_API_KEY && env.PINECONE_INDEX_URL);
+}
+
+export function pineconeFromEnv(env: Env): PineconeService {
+  return new PineconeService({
+    PINECONE_API_KEY: env.PINECONE_API_KEY,
+    PINECONE_ENVIRONMENT: env.PINECONE_ENVIRONMENT,
+    PINECONE_INDEX_NAME: "conversation-history",
+    PINECONE_INDEX_URL: env.PINECONE_INDEX_URL,
+  });
+}
+
+/** Shared by every agent in the isolate */
+let sharedMemoryStore: MemoryVectorStore | null = null;
+
+/**
+ * Store named by VECTOR_STORE ("pinecone", "vectorize" or "memory"). Unset
+ * picks Pinecone when configured, then a bound VECTORIZE index, otherwise
+ * null: entities then only carry a doc-level embedding searched from KV.
+ */
+export function createVectorStore(env: Env): VectorStore | null {
+  const kind = (env.VECTOR_STORE || "").toLowerCase();
+  switch (kind) {
+    case "":
+      if (hasPinecone(env)) return pineconeFromEnv(env);
+      return env.VECTORIZE ? new VectorizeStore(env.VECTORIZE) : null;
+    case "pinecone":
+      if (!hasPinecone(env)) {
+        throw new Error(
+          'VECTOR_STORE is "pinecone" but PINECONE_API_KEY or PINECONE_INDEX_URL is missing'
+        );
+      }
+      return pineconeFromEnv(env);
+    case "vectorize":
+      if (!env.VECTORIZE) {
+        throw new Error(
+          'VECTOR_STORE is "vectorize" but the VECTORIZE binding is missing'
+        );
+      }
+      return new VectorizeStore(env.VECTORIZE);
+    case "memory":
+      sharedMemoryStore ??= new MemoryVectorStore();
+      return sharedMemoryStore;
+    default:
+      throw new Error(
+        `Unknown VECTOR_STORE "${env.VECTOR_STORE}" (use pinecone, vectorize or memory)`
+      );
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i];
+    const y = b[i];
+    dot += x * y;
+    na += x * x;
+    nb += y * y;
+  }
+  const denom = Math.sqrt(na) * Math.sqrt(nb);
+  return denom === 0 ? 0 : dot / denom;
+}
+
+/** Evaluate a Pinecone-style metadata filter against one vector's metadata */
+export function matchesFilter(
+  metadata: Record<string, any> = {},
+  filter: Record<string, any> = {}
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") {
+      return (condition as Record<string, any>[]).every((f) =>
+        matchesFilter(metadata, f)
+      );
+    }
+    if (key === "$or") {
+      return (condition as Record<string, any>[]).some((f) =>
+        matchesFilter(metadata, f)
+      );
+    }
+
+    const value = metadata[key];
+    const isOperators =
+      condition !== null &&
+      typeof condition === "object" &&
+      !Array.isArray(condition);
+    if (!isOperators) return matchesOperator(value, "$eq", condition);
+    return Object.entries(condition).every(([op, operand]) =>
+      matchesOperator(value, op, operand)
+    );
+  });
+}
+
+function matchesOperator(value: any, op: string, operand: any): boolean {
+  // List-valued metadata (e.g. tags) matches when any element does
+  const values = Array.isArray(value) ? value : [value];
+  switch (op) {
+    case "$eq":
+      return values.some((v) => v === operand);
+    case "$ne":
+      return values.every((v) => v !== operand);
+    case "$in":
+      return values.some((v) => (operand as any[]).includes(v));
+    case "$nin":
+      return values.every((v) => !(operand as any[]).includes(v));
+    case "$gt":
+      return value != null && value > operand;
+    case "$gte":
+      return value != null && value >= operand;
+    case "$lt":
+      return value != null && value < operand;
+    case "$lte":
+      return value != null && value <= operand;
+    case "$exists":
+      return (value !== undefined) === Boolean(operand);
+    default:
+      throw new Error(`Unsupported filter operator ${op}`);
+  }
+}
+
+// =====================================================
+// CLOUDFLARE VECTORIZE
+// =====================================================
+
+/** Vectorize caps topK lower when full metadata comes back */
+const VECTORIZE_MAX_TOP_K = 100;
+const VECTORIZE_MAX_TOP_K_WITH_METADATA = 50;
+const VECTORIZE_UPSERT_BATCH = 1000;
+const VECTORIZE_FETCH_BATCH = 20;
+const VECTORIZE_DELETE_ROUNDS = 20;
+
+/**
+ * A Vectorize index binding. Ids are unique across a whole Vectorize index,
+ * so each vector is stored under a hash of (namespace, id) and keeps its own
+ * id in `vectorId` metadata. Vectorize can't delete by filter or list ids:
+ * filtered deletes query for matches and delete those, reporting the delete
+ * incomplete while matches remain (mutations apply asynchronously), and
+ * listing throws. Filters need metadata indexes
+ * (`wrangler vectorize create-metadata-index`).
+ */
+export class VectorizeStore implements VectorStore {
+  readonly kind = "vectorize";
+
+  constructor(private index: Vectorize) {}
+
+  private async storedId(id: string, namespace?: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(`${namespace ?? ""}\u0000${id}`)
+    );
+    return [...new Uint8Array(digest)]
+      .slice(0, 24)
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+  }
+
+  async upsert(vectors: VectorRecord[], namespace?: string): Promise<void> {
+    const stored = await Promise.all(
+      vectors.map(async (vector) => ({
+        id: await this.storedId(vector.id, namespace),
+        values: vector.values,
+        namespace,
+        metadata: { ...vector.metadata, vectorId: vector.id },
+      }))
+    );
+    // Vectorize rejects null metadata values; JSON drops undefined ones
+    await this.index.upsert(JSON.parse(JSON.stringify(stored)));
+  }
+
+  async batchUpsert(
+    vectors: VectorRecord[],
+    batchSize = VECTORIZE_UPSERT_BATCH,
+    namespace?: string
+  ): Promise<void> {
+    for (let i = 0; i < vectors.length; i += batchSize) {
+      await this.upsert(vectors.slice(i, i + batchSize), namespace);
+    }
+  }
+
+  async query(
+    vector: number[],
+    options: VectorQueryOptions
+  ): Promise<{ matches: VectorMatch[] }> {
+    const detailed = options.includeMetadata ?? true;
+    const result = await this.index.query(vector, {
+      topK: Math.min(options.topK, VECTORIZE_MAX_TOP_K_WITH_METADATA),
+      namespace: options.namespace,
+      returnValues: options.includeValues ?? false,
+      // Ids are stored hashed, so the original always comes from metadata
+      returnMetadata: "all",
+      filter: options.filter as VectorizeVectorMetadataFilter | undefined,
+    });
+
+    return {
+      matches: result.matches.map((match) => {
+        const { vectorId, ...metadata } = (match.metadata ?? {}) as Record<
+          string,
+          any
+        >;
+        return {
+          id: vectorId ?? match.id,
+          score: match.score,
+          values: match.values ? [...match.values] : undefined,
+          metadata: detailed ? metadata : undefined,
+        };
+      }),
+    };
+  }
+
+  async deleteById(ids: string[], namespace?: string): Promise<void> {
+    if (!ids.length) return;
+    await this.index.deleteByIds(
+      await Promise.all(ids.map((id) => this.storedId(id, namespace)))
+    );
+  }
+
+  /**
+   * Complete only once a probe finds no matches. Stops early, incomplete,
+   * when every match is one already deleted: Vectorize hasn't applied those
+   * deletes yet, and they may be hiding others.
+   */
+  async deleteByFilter(
+    filter: Record<string, any>,
+    namespace?: string
+  ): Promise<VectorDeleteResult> {
+    const { dimensions } = await this.index.describe();
+    const seen = new Set<string>();
+
+    // Each round probes from a random direction, so matches whose delete
+    // hasn't applied yet don't hide the rest
+    for (let round = 0; round < VECTORIZE_DELETE_ROUNDS; round++) {
+      const probe = Array.from(
+        { length: dimensions },
+        () => Math.random() * 2 - 1
+      );
+      const { matches } = await this.index.query(probe, {
+        topK: VECTORIZE_MAX_TOP_K,
+        namespace,
+        returnMetadata: "none",
+        filter: Object.keys(filter).length
+          ? (filter as VectorizeVectorMetadataFilter)
+          : undefined,
+      });
+      if (!matches.length) return { complete: true, deleted: seen.size };
+
+      const fresh = matches
+        .map((match) => match.id)
+        .filter((id) => !seen.has(id));
+      if (!fresh.length) break;
+
+      fresh.forEach((id) => seen.add(id));
+      await this.index.deleteByIds(fresh);
+    }
+    return { complete: false, deleted: seen.size };
+  }
+
+  async deleteAll(namespace?: string): Promise<VectorDeleteResult> {
+    return this.deleteByFilter({}, namespace);
+  }
+
+  async fetch(
+    ids: string[],
+    namespace?: string
+  ): Promise<{ vectors: Record<string, VectorRecord> }> {
+    const stored = await Promise.all(
+      ids.map((id) => this.storedId(id, namespace))
+    );
+    const found: VectorizeVector[] = [];
+    for (let i = 0; i < stored.length; i += VECTORIZE_FETCH_BATCH) {
+      found.push(
+        ...(await this.index.getByIds(
+          stored.slice(i, i + VECTORIZE_FETCH_BATCH)
+        ))
+      );
+    }
+
+    const vectors: Record<string, VectorRecord> = {};
+    for (const vector of found) {
+      const { vectorId, ...metadata } = (vector.metadata ?? {}) as Record<
+        string,
+        any
+      >;
+      const id = vectorId ?? ids[stored.indexOf(vector.id)];
+      vectors[id] = { id, values: [...vector.values], metadata };
+    }
+    return { vectors };
+  }
+
+  async listIds(): Promise<{ ids: string[]; next?: string }> {
+    throw new Error("Vectorize can't list vector ids");
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    const info = await this.index.describe();
+    return {
+      dimension: info.dimensions,
+      totalVectorCount: info.vectorCount,
+    };
+  }
+
+  async healthCheck(): Promise<{
+    status: "healthy" | "unhealthy";
+    latency?: number;
+    error?: string;
+  }> {
+    try {
+      const start = Date.now();
+      await this.index.describe();
+      return { status: "healthy", latency: Date.now() - start };
+    } catch (error) {
+      return {
+        status: "unhealthy",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
+
+// =====================================================
+// IN-MEMORY (tests, offline retrieval)
+// =====================================================
+
+/** Brute-force cosine search over vectors kept in this process */
+export class MemoryVectorStore implements VectorStore {
+  readonly kind = "memory";
+  private spaces = new Map<string, Map<string, VectorRecord>>();
+
+  private space(namespace?: string): Map<string, VectorRecord> {
+    const key = namespace ?? "";
+    let space = this.spaces.get(key);
+    if (!space) {
+      space = new Map();
+      this.spaces.set(key, space);
+    }
+    return space;
+  }
+
+  async upsert(vectors: VectorRecord[], namespace?: string): Promise<void> {
+    const space = this.space(namespace);
+    for (const vector of vectors) {
+      space.set(vector.id, {
+        id: vector.id,
+        values: [...vector.values],
+        metadata: vector.metadata && { ...vector.metadata },
+      });
+    }
+  }
+
+  async batchUpsert(
+    vectors: VectorRecord[],
+    _batchSize?: number,
+    namespace?: string
+  ): Promise<void> {
+    await this.upsert(vectors, namespace);
+  }
+
+  async query(
+    vector: number[],
+    options: VectorQueryOptions
+  ): Promise<{ matches: VectorMatch[] }> {
+    const matches = [...this.space(options.namespace).values()]
+      .filter((stored) => matchesFilter(stored.metadata, options.filter))
+      .map((stored) => ({
+        id: stored.id,
+        score: cosineSimilarity(vector, stored.values),
+        values: options.includeValues ? stored.values : undefined,
+        metadata:
+          options.includeMetadata === false ? undefined : stored.metadata,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK);
+    return { matches };
+  }
+
+  async deleteById(ids: string[], namespace?: string): Promise<void> {
+    const space = this.space(namespace);
+    ids.forEach((id) => space.delete(id));
+  }
+
+  async deleteByFilter(
+    filter: Record<string, any>,
+    namespace?: string
+  ): Promise<VectorDeleteResult> {
+    const space = this.space(namespace);
+    let deleted = 0;
+    for (const [id, stored] of space) {
+      if (matchesFilter(stored.metadata, filter) && space.delete(id)) deleted++;
+    }
+    return { complete: true, deleted };
+  }
+
+  async deleteAll(namespace?: string): Promise<VectorDeleteResult> {
+    const deleted = this.space(namespace).size;
+    this.spaces.delete(namespace ?? "");
+    return { complete: true, deleted };
+  }
+
+  async fetch(
+    ids: string[],
+    namespace?: string
+  ): Promise<{ vectors: Record<string, VectorRecord> }> {
+    const space = this.space(namespace);
+    const vectors: Record<string, VectorRecord> = {};
+    for (const id of ids) {
+      const stored = space.get(id);
+      if (stored) vectors[id] = stored;
+    }
+    return { vectors };
+  }
+
+  async listIds(
+    options: {
+      namespace?: string;
+      prefix?: string;
+      limit?: number;
+      paginationToken?: string;
+    } = {}
+  ): Promise<{ ids: string[]; next?: string }> {
+    const limit = options.limit ?? 100;
+    const matching = [...this.space(options.namespace).keys()]
+      .filter(
+        (id) =>
+          id.startsWith(options.prefix ?? "") &&
+          (!options.paginationToken || id > options.paginationToken)
+      )
+      .sort();
+
+    const ids = matching.slice(0, limit);
+    return {
+      ids,
+      next: matching.length > limit ? ids[ids.length - 1] : undefined,
+    };
+  }
+
+  async getStats(namespace?: string): Promise<VectorStoreStats> {
+    const namespaces: Record<string, { vectorCount: number }> = {};
+    let dimension = 0;
+    let totalVectorCount = 0;
+    for (const [name, space] of this.spaces) {
+      if (namespace !== undefined && name !== namespace) continue;
+      if (!space.size) continue;
+      namespaces[name] = { vectorCount: space.size };
+      totalVectorCount += space.size;
+      dimension ||= space.values().next().value!.values.length;
+    }
+    return { dimension, totalVectorCount, indexFullness: 0, namespaces };
+  }
+
+  async healthCheck(): Promise<{ status: "healthy"; latency: number }> {
+    return { status: "healthy", latency: 0 };
+  }
+}
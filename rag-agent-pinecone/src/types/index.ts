@@ -6,6 +6,28 @@ export interface Env {
   RAG_CACHE: KVNamespace;
   PINECONE_API_KEY: string;
   PINECONE_INDEX_URL?: string;
+  TRASH_RETENTION_DAYS?: string; // soft-deleted entities are purged after this (default 30)
+  ADMIN_API_KEY?: string; // bootstrap key with admin scope across all organizations
+  AUTH_DISABLED?: string; // "true" skips API key checks (local dev only)
+  CORS_ALLOWED_ORIGINS?: string; // comma-separated; defaults to "*"
+  RATE_LIMITS?: string; // JSON map of path (or "*") → { windowMs, maxRequests }
+  RATE_LIMIT_DISABLED?: string; // "true" turns throttling off
+  RATE_LIMITER?: DurableObjectNamespace; // RateLimitCounter; per-isolate counts when unbound
+  INDEX_QUEUE?: Queue<JobMessage>; // background jobs; run in-process when unbound
+  BACKGROUND_INDEXING?: string; // "false" indexes inline during create
+  MAINTENANCE_PURGE_TRASH?: string; // "false" keeps scheduled runs from purging trash
+  BRAIN_DB?: D1Database; // secondary indexes, metadata mirror and stats counters
+  ALLOW_KV_INDEXES?: string; // "true" runs "kv" without BRAIN_DB (best-effort indexes and stats)
+  EMBEDDING_MODEL?: string; // model new tenants start on (default @cf/baai/bge-small-en-v1.5)
+  OPENAI_API_KEY?: string; // for "openai/..." embedding models
+  OPENAI_BASE_URL?: string; // OpenAI-compatible endpoint (default https://api.openai.com/v1)
+  EMBEDDING_BATCH_SIZE?: string; // texts per embedding call (default 50, Workers AI max 100)
+  EMBEDDING_CONCURRENCY?: string; // embedding calls in flight at once (default 4)
+  EMBEDDING_MAX_RETRIES?: string; // retries for rate-limited or failed calls (default 3)
+  CHUNKING?: string; // JSON map of entity type (or "*") → { chunkSize, overlapTokens, maxTokens }
+  STORAGE_BACKEND?: string; // "kv" (default) or "d1", both need BRAIN_DB; or "memory"
+  VECTORIZE?: Vectorize; // Cloudflare Vectorize index, an alternative to Pinecone
+  VECTOR_STORE?: string; // "pinecone", "vectorize" or "memory"; unset picks what's configured
 }
 
 // =====================================================
@@ -82,7 +104,16 @@ export interface BrainEntity extends BrainData {
     version: number;
     indexed?: boolean;
     indexedAt?: number;
+    indexError?: string;
     previousVersion?: number;
+    createdBy?: string; // API key id
+    updatedBy?: string; // API key id
+    revertedFrom?: number;
+    embeddingModel?: string; // model behind metadata.embedding and the vectors
+    embeddingProvider?: string; // "workers-ai", "openai" or "hash"
+    embeddingDimensions?: number;
+    deletedAt?: number;
+    statusBeforeDelete?: BrainMetadata["status"];
   };
 }
 
@@ -158,6 +189,71 @@ export interface BrainQueryOptions {
   maxWordCount?: number;
 }
 
+/** Metadata filters shared by searchEntities and export */
+export interface EntityFilters {
+  type?: string;
+  category?: string;
+  userId?: string;
+  organizationId?: string;
+  status?: EntityStatus;
+  tags?: string[];
+  dateRange?: { start: number; end: number };
+  textSearch?: string;
+  includeTrashed?: boolean;
+  limit?: number;
+}
+
+/** A page of entities; pass `cursor` back to get the next one */
+export interface EntityPage {
+  entities: BrainEntity[];
+  cursor?: string;
+  total?: number; // matches across all pages, when counted
+}
+
+export type MetadataOperator =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "exists"
+  | "contains";
+
+/**
+ * A condition on an entity field (id, type, createdAt, ...) or any metadata
+ * key, dotted for nested values ("source.kind"). `contains` tests arrays.
+ */
+export interface MetadataCondition {
+  field: string;
+  op?: MetadataOperator; // default "eq"
+  value?: any;
+}
+
+/** EntityFilters plus arbitrary conditions, sorting and counting */
+export interface EntityQuery extends EntityFilters {
+  where?: MetadataCondition[];
+  sortBy?: string; // any condition field; default id
+  sortOrder?: "asc" | "desc";
+  count?: boolean;
+  cursor?: string;
+}
+
+/** Fields with a secondary index (tag covers each of metadata.tags) */
+export type IndexField = "type" | "category" | "tag" | "user" | "status";
+
+export interface IndexTerm {
+  field: IndexField;
+  value: string;
+}
+
+/** Ids in ascending order; `cursor` is set when more follow */
+export interface IndexPage {
+  ids: string[];
+  cursor?: string;
+}
+
 /** CRUD operation result */
 export interface CRUDResult {
   success: boolean;
@@ -208,6 +304,8 @@ export interface BrainAnalytics {
     largestEntity: string;
   };
   generatedAt: number;
+  pending?: boolean; // counters not seeded yet; they read as zero until then
+  jobId?: string; // background recount started by this request
 }
 
 /** Vector search configuration */
@@ -218,12 +316,16 @@ export interface VectorSearchConfig {
   namespace?: string;
 }
 
-/** Embedding generation options */
+/**
+ * Embedding generation options. Chunk sizes are in model tokens as estimated
+ * by src/rag/chunking.ts (a heuristic that errs high), not exact tokenizer
+ * counts.
+ */
 export interface EmbeddingOptions {
   model?: string;
-  maxTokens?: number;
-  chunkSize?: number;
-  overlapTokens?: number;
+  maxTokens?: number; // hard cap per chunk, below the model's own limit
+  chunkSize?: number; // target tokens per chunk (default 200)
+  overlapTokens?: number; // trailing sentences (or words) repeated in the next chunk (default 32)
 }
 
 /** Data import/export structures */
@@ -249,6 +351,25 @@ export interface DataImport {
   };
 }
 
+/** One version of an entity as listed by the history endpoint */
+export interface EntityRevision {
+  version: number;
+  updatedAt: number;
+  updatedBy?: string;
+  author?: string;
+  size?: number;
+  current: boolean;
+}
+
+/** Changes between two versions: metadata fields and a line-level content diff */
+export interface VersionDiff {
+  id: string;
+  from: EntityRevision;
+  to: EntityRevision;
+  fields: Array<{ field: string; before?: any; after?: any }>;
+  content: Array<{ op: "equal" | "added" | "removed"; text: string }>;
+}
+
 // =====================================================
 // SYSTEM OPERATION TYPES
 // =====================================================
@@ -267,6 +388,16 @@ export interface HealthCheck {
     memoryUsage: number;
     storageUsage: number;
   };
+  checks?: Record<keyof HealthCheck["services"], ProbeResult>;
+  version?: string;
+}
+
+/** Outcome of a single dependency probe */
+export interface ProbeResult {
+  status: "ok" | "error";
+  latency: number;
+  error?: string;
+  detail?: string;
 }
 
 export interface JobStatus {
@@ -281,6 +412,131 @@ export interface JobStatus {
   metadata?: any;
 }
 
+/**
+ * Which embedding model and vector namespace serve a tenant's reads. Kept
+ * in one KV record so a reindex switches reads over with a single write.
+ */
+export interface VectorIndexState {
+  model: string;
+  dimensions?: number;
+  namespace?: string; // unset = the tenant's original namespace
+  switchedAt?: number;
+  previousModel?: string;
+  previousNamespace?: string;
+  migration?: {
+    jobId: string;
+    model: string;
+    namespace: string;
+    startedAt: number;
+  };
+}
+
+export interface ReindexRequest {
+  model: string; // e.g. "@cf/baai/bge-base-en-v1.5", "openai/text-embedding-3-small", "hash/384"
+  deletePrevious?: boolean; // drop the old namespace once reads have switched
+}
+
+/** What one maintenance run did for one organization */
+export interface TenantMaintenanceReport {
+  organizationId?: string; // unset = the default tenant
+  expiredPurged: string[]; // ids past metadata.expiresAt, removed from KV and vectors
+  published: string[]; // ids whose scheduledFor passed
+  indexEntriesScanned: number;
+  danglingIdsPruned: number;
+  orphanVectorsRemoved: number; // vectors of entities that vanished via KV TTL
+  cacheEntriesDropped: number;
+  trashPurged?: number;
+  statsRebuilt: boolean; // a background recount was started
+  errors: string[];
+  durationMs: number; // time spent in job steps, not waiting in the queue
+}
+
+/** Summary of a scheduled (or manually triggered) maintenance run */
+export interface MaintenanceReport {
+  runId: string;
+  trigger: "cron" | "manual";
+  cron?: string;
+  startedAt: number;
+  completedAt: number;
+  tenants: TenantMaintenanceReport[];
+  totals: {
+    expiredPurged: number;
+    published: number;
+    danglingIdsPruned: number;
+    orphanVectorsRemoved: number;
+    cacheEntriesDropped: number;
+    trashPurged: number;
+    errors: number;
+  };
+}
+
+export type ConsistencyIssueKind =
+  | "missing_vectors" // entity has no vectors
+  | "orphan_vectors" // vectors of a deleted or trashed entity, or extra chunks
+  | "chunk_mismatch" // vector count differs from the entity's chunks
+  | "stale_content" // vectors embed old content or another model
+  | "not_marked_indexed"; // vectors are fine but metadata.indexed is false
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind;
+  id: string; // entity id
+  vectorIds?: string[];
+  detail?: string;
+  fixed?: boolean;
+  fixError?: string;
+}
+
+/** Result of comparing a tenant's KV entities with its stored vectors */
+export interface ConsistencyReport {
+  namespace?: string;
+  model: string;
+  fix: boolean;
+  entitiesChecked: number;
+  vectorsChecked: number;
+  expectedVectors: number; // chunks of live entities
+  namespaceVectorCount?: number; // from describe_index_stats
+  orphanScan: "pending" | "complete" | "unavailable";
+  orphanScanError?: string;
+  counts: Partial<Record<ConsistencyIssueKind, number>>;
+  fixed: number;
+  issues: ConsistencyIssue[]; // capped; see truncated
+  truncated: boolean;
+}
+
+/** Queue message for a background job; the job record itself lives in KV */
+export interface JobMessage {
+  jobId: string;
+  organizationId?: string;
+}
+
+export type ApiKeyScope = "read" | "write" | "admin";
+
+/** Stored API key; only the SHA-256 hash of the secret is kept */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  organizationId: string;
+  scopes: ApiKeyScope[];
+  keyHash: string;
+  prefix: string; // first characters of the key, for identification
+  createdAt: number;
+  createdBy?: string;
+  revokedAt?: number;
+}
+
+/** Caller identity resolved from the Authorization header */
+export interface AuthPrincipal {
+  keyId: string;
+  scopes: ApiKeyScope[];
+  organizationId?: string; // undefined only for the bootstrap admin key
+}
+
+export interface IssueApiKeyRequest {
+  name: string;
+  organizationId: string;
+  scopes: ApiKeyScope[];
+}
+
 export interface RateLimit {
   windowMs: number;
   maxRequests: number;
@@ -303,6 +559,7 @@ export interface CreateRequest {
 export interface UpdateRequest {
   id: string;
   updates: Partial<BrainData> & { metadata?: BrainMetadata };
+  expectedVersion?: number; // rejected with a conflict if no longer current
   options?: {
     reindex?: boolean;
     incrementVersion?: boolean;
@@ -327,6 +584,7 @@ export interface BulkUpdateRequest {
   updates: Array<{
     id: string;
     data: Partial<BrainData>;
+    expectedVersion?: number;
   }>;
   options?: {
     batchSize?: number;
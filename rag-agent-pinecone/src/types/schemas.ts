@@ -0,0 +1,854 @@
+// src/types/schemas.ts - JSON Schemas mirroring the API types
+//
+// Each object schema is declared through `objectSchema<T>()`, whose
+// `properties` must name every field of T: adding a field to an interface
+// without describing it here fails the type-check. These schemas feed both
+// request validation and the OpenAPI document served at /docs/openapi.json.
+
+import {
+  BrainData,
+  BrainMetadata,
+  BrainEntity,
+  BrainDataUpdate,
+  BrainQueryOptions,
+  EntityQuery,
+  MetadataCondition,
+  QueryRequest,
+  BulkCreateRequest,
+  BulkUpdateRequest,
+  BulkDeleteRequest,
+  DataImport,
+  DataExport,
+  CRUDResult,
+  BatchResult,
+  SearchResult,
+  QueryResult,
+  BrainAnalytics,
+  HealthCheck,
+  ProbeResult,
+  ApiKeyRecord,
+  IssueApiKeyRequest,
+  UpdateRequest,
+  EntityRevision,
+  VersionDiff,
+  JobStatus,
+  ReindexRequest,
+  VectorIndexState,
+} from "./index";
+
+export type JsonType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly (string | number | boolean | null)[];
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+  format?: string;
+  $ref?: string;
+}
+
+/** An object schema whose properties are checked against T's fields */
+type ObjectSchema<T> = Omit<JsonSchema, "properties" | "required"> & {
+  type: "object";
+  properties: { [K in keyof T as string extends K ? never : K]-?: JsonSchema };
+  required?: Array<keyof T & string>;
+};
+
+function objectSchema<T>(schema: ObjectSchema<T>): JsonSchema {
+  return schema as JsonSchema;
+}
+
+export type SchemaName =
+  | "BrainMetadata"
+  | "BrainData"
+  | "BrainEntity"
+  | "BrainDataUpdate"
+  | "UpdateBody"
+  | "MergePatch"
+  | "JsonPatch"
+  | "BrainQueryOptions"
+  | "QueryRequest"
+  | "EntityQuery"
+  | "MetadataCondition"
+  | "SearchResult"
+  | "QueryResult"
+  | "BulkCreateRequest"
+  | "BulkUpdateRequest"
+  | "BulkDeleteRequest"
+  | "DataImport"
+  | "DataExport"
+  | "CRUDResult"
+  | "BatchResult"
+  | "BrainAnalytics"
+  | "ProbeResult"
+  | "HealthCheck"
+  | "ErrorResponse"
+  | "ValidationError"
+  | "IssueApiKeyRequest"
+  | "ApiKey"
+  | "EntityRevision"
+  | "VersionDiff"
+  | "JobStatus"
+  | "ReindexRequest"
+  | "VectorIndexState";
+
+export const ref = (name: SchemaName): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const str = (description?: string): JsonSchema => ({
+  type: "string",
+  ...(description && { description }),
+});
+const num = (description?: string): JsonSchema => ({
+  type: "number",
+  ...(description && { description }),
+});
+const bool = (description?: string): JsonSchema => ({
+  type: "boolean",
+  ...(description && { description }),
+});
+const strArray = (description?: string): JsonSchema => ({
+  type: "array",
+  items: { type: "string" },
+  ...(description && { description }),
+});
+const any = (description?: string): JsonSchema => ({
+  ...(description && { description }),
+});
+
+const dateRange: JsonSchema = {
+  type: "object",
+  properties: { start: num(), end: num() },
+  required: ["start", "end"],
+};
+
+// =====================================================
+// DATA
+// =====================================================
+
+const BrainMetadataSchema = objectSchema<BrainMetadata>({
+  type: "object",
+  description: "Flexible metadata; unknown keys are kept as custom fields",
+  additionalProperties: true,
+  properties: {
+    agentId: str(),
+    userId: str(),
+    organizationId: str(),
+    category: str(),
+    tags: strArray(),
+    priority: { type: "string", enum: ["low", "medium", "high", "critical"] },
+    parentId: str(),
+    relatedIds: strArray(),
+    conversationId: str(),
+    language: str(),
+    format: str("markdown, json, text, html, etc."),
+    source: str(),
+    author: str(),
+    status: {
+      type: "string",
+      enum: ["draft", "active", "archived", "deleted"],
+    },
+    visibility: { type: "string", enum: ["public", "private", "shared"] },
+    publishedAt: num(),
+    expiresAt: num("Epoch ms after which the entity is dropped"),
+    scheduledFor: num(),
+  },
+});
+
+const BrainDataSchema = objectSchema<BrainData>({
+  type: "object",
+  properties: {
+    id: { type: "string", minLength: 1 },
+    content: { type: "string", minLength: 1 },
+    type: {
+      type: "string",
+      minLength: 1,
+      description: "document, conversation, note, task, knowledge, etc.",
+    },
+    metadata: ref("BrainMetadata"),
+  },
+  required: ["id", "content", "type"],
+});
+
+const BrainEntitySchema = objectSchema<BrainEntity>({
+  type: "object",
+  properties: {
+    id: str(),
+    content: str(),
+    type: str(),
+    metadata: {
+      type: "object",
+      additionalProperties: true,
+      description:
+        "BrainMetadata plus system fields (createdAt, updatedAt, version, indexed, ...)",
+      properties: {
+        createdAt: num(),
+        updatedAt: num(),
+        version: { type: "integer" },
+        indexed: bool(),
+        indexedAt: num(),
+        indexError: str(),
+        previousVersion: { type: "integer" },
+        createdBy: str("API key id"),
+        updatedBy: str("API key id"),
+        revertedFrom: { type: "integer" },
+        embeddingModel: str("Model that produced the embedding and vectors"),
+        embeddingProvider: str("workers-ai, openai or hash"),
+        embeddingDimensions: { type: "integer" },
+        deletedAt: num(),
+      },
+      required: ["createdAt", "updatedAt", "version"],
+    },
+  },
+  required: ["id", "content", "type", "metadata"],
+});
+
+// `id?: never`: the id comes from the query string, so it's rejected here
+const BrainDataUpdateSchema = objectSchema<Omit<BrainDataUpdate, "id">>({
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    content: { type: "string", minLength: 1 },
+    type: { type: "string", minLength: 1 },
+    metadata: ref("BrainMetadata"),
+  },
+});
+
+const UpdateBodySchema = objectSchema<
+  Omit<BrainDataUpdate, "id"> & Pick<UpdateRequest, "expectedVersion">
+>({
+  type: "object",
+  additionalProperties: false,
+  description: "BrainDataUpdate plus an optional expectedVersion (or If-Match)",
+  properties: {
+    content: { type: "string", minLength: 1 },
+    type: { type: "string", minLength: 1 },
+    metadata: ref("BrainMetadata"),
+    expectedVersion: {
+      type: "integer",
+      minimum: 1,
+      description: "Fail with 409 unless this is the current version",
+    },
+  },
+});
+
+const MergePatchSchema: JsonSchema = {
+  type: "object",
+  description:
+    "RFC 7396 merge patch over { content, type, metadata }; null removes a key",
+  additionalProperties: true,
+};
+
+const JsonPatchSchema: JsonSchema = {
+  type: "array",
+  description: "RFC 6902 operations over { content, type, metadata }",
+  items: {
+    type: "object",
+    properties: {
+      op: {
+        type: "string",
+        enum: ["add", "remove", "replace", "move", "copy", "test"],
+      },
+      path: str("JSON pointer, e.g. /metadata/tags/0"),
+      from: str("Source pointer for move and copy"),
+      value: any(),
+    },
+    required: ["op", "path"],
+  },
+};
+
+// =====================================================
+// QUERIES
+// =====================================================
+
+const BrainQueryOptionsSchema = objectSchema<BrainQueryOptions>({
+  type: "object",
+  properties: {
+    agentId: str(),
+    type: str(),
+    category: str(),
+    tags: strArray(),
+    userId: str(),
+    status: str(),
+    limit: { type: "integer", minimum: 1, maximum: 1000 },
+    offset: { type: "integer", minimum: 0 },
+    threshold: { type: "number", minimum: 0, maximum: 1 },
+    includeMetadata: bool(),
+    dateRange,
+    ids: strArray("Fetch these ids directly instead of searching"),
+    responseStyle: {
+      type: "string",
+      enum: ["summary", "detailed", "default"],
+    },
+    sortBy: { type: "string", enum: ["relevance", "date", "priority"] },
+    sortOrder: { type: "string", enum: ["asc", "desc"] },
+    includeArchived: bool(),
+    includeExpired: bool(),
+    minWordCount: { type: "integer", minimum: 0 },
+    maxWordCount: { type: "integer", minimum: 0 },
+  },
+});
+
+const QueryRequestSchema = objectSchema<QueryRequest>({
+  type: "object",
+  properties: {
+    query: {
+      anyOf: [
+        { type: "string", minLength: 1 },
+        {
+          type: "object",
+          properties: {
+            id: str(),
+            type: str(),
+            filters: { type: "object", additionalProperties: true },
+          },
+        },
+      ],
+    },
+    options: ref("BrainQueryOptions"),
+  },
+  required: ["query"],
+});
+
+const MetadataConditionSchema = objectSchema<MetadataCondition>({
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    field: str(
+      'id, type, category, status, userId, organizationId, createdAt, updatedAt, version, size, tags, or any metadata key ("priority", "source.kind")'
+    ),
+    op: {
+      type: "string",
+      enum: ["eq", "ne", "gt", "gte", "lt", "lte", "in", "exists", "contains"],
+      description: 'Default "eq"; "contains" tests array membership',
+    },
+    value: any('An array for "in"; a boolean (default true) for "exists"'),
+  },
+  required: ["field"],
+});
+
+const EntityQuerySchema = objectSchema<EntityQuery>({
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    type: str(),
+    category: str(),
+    userId: str(),
+    organizationId: str(),
+    status: {
+      type: "string",
+      enum: ["draft", "active", "archived", "deleted", "processing", "error"],
+    },
+    tags: strArray("All must match"),
+    dateRange: { ...dateRange, description: "createdAt bounds (epoch ms)" },
+    textSearch: str("Substring of content or id"),
+    includeTrashed: bool(),
+    limit: { type: "integer", minimum: 1, maximum: 1000 },
+    where: { type: "array", items: ref("MetadataCondition") },
+    sortBy: str("Any condition field; default id"),
+    sortOrder: { type: "string", enum: ["asc", "desc"] },
+    count: bool("Include the total number of matches"),
+    cursor: str("From the previous page's response"),
+  },
+});
+
+const SearchResultSchema = objectSchema<SearchResult>({
+  type: "object",
+  properties: {
+    id: str(),
+    content: str(),
+    score: num(),
+    metadata: any(),
+  },
+  required: ["id", "content", "score"],
+});
+
+const QueryResultSchema = objectSchema<QueryResult>({
+  type: "object",
+  properties: {
+    answer: str(),
+    sources: { type: "array", items: ref("SearchResult") },
+    confidence: num(),
+    strategy: str(),
+    metadata: any(),
+  },
+  required: ["answer", "sources", "confidence"],
+});
+
+// =====================================================
+// BULK / TRANSFER
+// =====================================================
+
+const BulkCreateRequestSchema = objectSchema<BulkCreateRequest>({
+  type: "object",
+  properties: {
+    items: {
+      type: "array",
+      description: "Items without an id are assigned a random UUID",
+      items: {
+        type: "object",
+        additionalProperties: true,
+        properties: {
+          id: { type: ["string", "number"] },
+          content: str(),
+          type: str(),
+          metadata: ref("BrainMetadata"),
+        },
+      },
+    },
+    options: {
+      type: "object",
+      properties: {
+        batchSize: { type: "integer", minimum: 1 },
+        skipIndexing: bool(),
+        stopOnError: bool(),
+      },
+    },
+  },
+  required: ["items"],
+});
+
+const BulkUpdateRequestSchema = objectSchema<BulkUpdateRequest>({
+  type: "object",
+  properties: {
+    updates: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", minLength: 1 },
+          data: ref("BrainDataUpdate"),
+          expectedVersion: { type: "integer", minimum: 1 },
+        },
+        required: ["id"],
+      },
+    },
+    options: {
+      type: "object",
+      properties: {
+        batchSize: { type: "integer", minimum: 1 },
+        reindexAll: bool(),
+      },
+    },
+  },
+  required: ["updates"],
+});
+
+const BulkDeleteRequestSchema = objectSchema<BulkDeleteRequest>({
+  type: "object",
+  properties: {
+    ids: { type: "array", items: { type: "string", minLength: 1 } },
+    options: {
+      type: "object",
+      properties: {
+        batchSize: { type: "integer", minimum: 1 },
+        softDelete: bool(),
+      },
+    },
+  },
+  required: ["ids"],
+});
+
+const DataImportSchema = objectSchema<DataImport>({
+  type: "object",
+  additionalProperties: true,
+  description: "A DataExport document is accepted as-is",
+  properties: {
+    entities: { type: "array", items: ref("BrainData") },
+    options: {
+      type: "object",
+      properties: {
+        skipExisting: bool(),
+        updateExisting: bool(),
+        preserveIds: bool(),
+        batchSize: { type: "integer", minimum: 1 },
+      },
+    },
+  },
+  required: ["entities"],
+});
+
+const DataExportSchema = objectSchema<DataExport>({
+  type: "object",
+  properties: {
+    version: str(),
+    exportedAt: num(),
+    totalEntities: { type: "integer" },
+    entities: { type: "array", items: ref("BrainEntity") },
+    metadata: {
+      type: "object",
+      properties: {
+        exportType: { type: "string", enum: ["full", "filtered"] },
+        filters: any(),
+        format: { type: "string", enum: ["json", "ndjson"] },
+      },
+      required: ["exportType", "format"],
+    },
+  },
+  required: ["version", "exportedAt", "totalEntities", "entities", "metadata"],
+});
+
+// =====================================================
+// RESULTS
+// =====================================================
+
+const CRUDResultSchema = objectSchema<CRUDResult>({
+  type: "object",
+  properties: {
+    success: bool(),
+    message: str(),
+    data: { anyOf: [ref("BrainEntity"), { type: "null" }] },
+    metadata: {
+      type: "object",
+      additionalProperties: true,
+      properties: {
+        operation: {
+          type: "string",
+          enum: ["create", "read", "update", "delete"],
+        },
+        duration: num(),
+        version: { type: "integer" },
+      },
+    },
+  },
+  required: ["success", "message", "data"],
+});
+
+const BatchResultSchema = objectSchema<BatchResult>({
+  type: "object",
+  properties: {
+    success: bool(),
+    message: str(),
+    results: { type: "array", items: ref("CRUDResult") },
+    summary: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        successful: { type: "integer" },
+        failed: { type: "integer" },
+        errors: strArray(),
+      },
+      required: ["total", "successful", "failed", "errors"],
+    },
+  },
+  required: ["success", "message", "results", "summary"],
+});
+
+const countMap: JsonSchema = {
+  type: "object",
+  additionalProperties: { type: "integer" },
+};
+
+const BrainAnalyticsSchema = objectSchema<BrainAnalytics>({
+  type: "object",
+  properties: {
+    totalEntities: { type: "integer" },
+    byType: countMap,
+    byCategory: countMap,
+    byStatus: countMap,
+    recentActivity: {
+      type: "object",
+      properties: {
+        created: { type: "integer" },
+        updated: { type: "integer" },
+        deleted: { type: "integer" },
+        timeframe: str(),
+      },
+    },
+    indexingStatus: {
+      type: "object",
+      properties: {
+        indexed: { type: "integer" },
+        pending: { type: "integer" },
+        failed: { type: "integer" },
+        lastIndexed: num(),
+      },
+    },
+    storageUsage: {
+      type: "object",
+      properties: {
+        totalSize: { type: "integer" },
+        averageSize: { type: "integer" },
+        largestEntity: str(),
+      },
+    },
+    generatedAt: num(),
+    pending: {
+      type: "boolean",
+      description: "Counters not seeded yet; they read as zero until then",
+    },
+    jobId: str("Background recount started by this request"),
+  },
+  required: [
+    "totalEntities",
+    "byType",
+    "byCategory",
+    "byStatus",
+    "recentActivity",
+    "indexingStatus",
+    "storageUsage",
+    "generatedAt",
+  ],
+});
+
+const serviceStatus: JsonSchema = { type: "string", enum: ["ok", "error"] };
+
+const ProbeResultSchema = objectSchema<ProbeResult>({
+  type: "object",
+  properties: {
+    status: serviceStatus,
+    latency: num("Milliseconds"),
+    error: str(),
+    detail: str(),
+  },
+  required: ["status", "latency"],
+});
+
+const HealthCheckSchema = objectSchema<HealthCheck>({
+  type: "object",
+  properties: {
+    status: { type: "string", enum: ["healthy", "degraded", "unhealthy"] },
+    timestamp: num(),
+    services: {
+      type: "object",
+      properties: {
+        storage: serviceStatus,
+        vectorDB: serviceStatus,
+        embedding: serviceStatus,
+        cache: serviceStatus,
+      },
+    },
+    metrics: {
+      type: "object",
+      properties: {
+        responseTime: num(),
+        memoryUsage: num(),
+        storageUsage: num(),
+      },
+    },
+    checks: { type: "object", additionalProperties: ref("ProbeResult") },
+    version: str(),
+  },
+  required: ["status", "timestamp", "services"],
+});
+
+const JobStatusSchema = objectSchema<JobStatus>({
+  type: "object",
+  properties: {
+    id: str(),
+    type: {
+      type: "string",
+      enum: ["indexing", "bulk_operation", "maintenance"],
+    },
+    status: {
+      type: "string",
+      enum: ["pending", "running", "completed", "failed"],
+    },
+    progress: num("0-100"),
+    createdAt: num(),
+    startedAt: num(),
+    completedAt: num(),
+    error: str("Last failure; kept while a retry is pending"),
+    metadata: {
+      type: "object",
+      additionalProperties: true,
+      description: "Job inputs and results, e.g. entityId, attempts, chunks",
+    },
+  },
+  required: ["id", "type", "status", "createdAt"],
+});
+
+const ReindexRequestSchema = objectSchema<ReindexRequest>({
+  type: "object",
+  properties: {
+    model: {
+      type: "string",
+      minLength: 1,
+      description:
+        'Embedding model; the prefix picks the provider: "@cf/..." (Workers AI), "openai/..." or "hash/<dimensions>" (offline)',
+    },
+    deletePrevious: bool("Drop the old namespace once reads have switched"),
+  },
+  required: ["model"],
+});
+
+const VectorIndexStateSchema = objectSchema<VectorIndexState>({
+  type: "object",
+  properties: {
+    model: str("Embedding model serving reads"),
+    dimensions: { type: "integer" },
+    namespace: str("Vector namespace serving reads; unset = original"),
+    switchedAt: num(),
+    previousModel: str(),
+    previousNamespace: str(),
+    migration: {
+      type: "object",
+      description: "Reindex in progress; writes go to both namespaces",
+      properties: {
+        jobId: str(),
+        model: str(),
+        namespace: str(),
+        startedAt: num(),
+      },
+      required: ["jobId", "model", "namespace", "startedAt"],
+    },
+  },
+  required: ["model"],
+});
+
+// =====================================================
+// HISTORY
+// =====================================================
+
+const EntityRevisionSchema = objectSchema<EntityRevision>({
+  type: "object",
+  properties: {
+    version: { type: "integer" },
+    updatedAt: num(),
+    updatedBy: str("API key id that made the change"),
+    author: str(),
+    size: { type: "integer" },
+    current: bool(),
+  },
+  required: ["version", "updatedAt", "current"],
+});
+
+const VersionDiffSchema = objectSchema<VersionDiff>({
+  type: "object",
+  properties: {
+    id: str(),
+    from: ref("EntityRevision"),
+    to: ref("EntityRevision"),
+    fields: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { field: str(), before: any(), after: any() },
+        required: ["field"],
+      },
+    },
+    content: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          op: { type: "string", enum: ["equal", "added", "removed"] },
+          text: str(),
+        },
+        required: ["op", "text"],
+      },
+    },
+  },
+  required: ["id", "from", "to", "fields", "content"],
+});
+
+// =====================================================
+// AUTH
+// =====================================================
+
+const scopeSchema: JsonSchema = {
+  type: "string",
+  enum: ["read", "write", "admin"],
+};
+
+const IssueApiKeyRequestSchema = objectSchema<IssueApiKeyRequest>({
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    organizationId: { type: "string", minLength: 1 },
+    scopes: { type: "array", items: scopeSchema, minItems: 1 },
+  },
+  required: ["name", "organizationId", "scopes"],
+});
+
+const ApiKeySchema = objectSchema<Omit<ApiKeyRecord, "keyHash">>({
+  type: "object",
+  description: "API key metadata; the secret itself is only returned on issue",
+  properties: {
+    id: str(),
+    name: str(),
+    organizationId: str(),
+    scopes: { type: "array", items: scopeSchema },
+    prefix: str(),
+    createdAt: num(),
+    createdBy: str(),
+    revokedAt: num(),
+  },
+  required: ["id", "name", "organizationId", "scopes", "prefix", "createdAt"],
+});
+
+const ErrorResponseSchema: JsonSchema = {
+  type: "object",
+  properties: { success: bool(), message: str(), error: str() },
+};
+
+const ValidationErrorSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", enum: [false] },
+    message: str(),
+    errors: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          path: str("JSON pointer to the offending field"),
+          message: str(),
+        },
+        required: ["path", "message"],
+      },
+    },
+  },
+  required: ["success", "message", "errors"],
+};
+
+export const schemas: Record<SchemaName, JsonSchema> = {
+  BrainMetadata: BrainMetadataSchema,
+  BrainData: BrainDataSchema,
+  BrainEntity: BrainEntitySchema,
+  EntityQuery: EntityQuerySchema,
+  MetadataCondition: MetadataConditionSchema,
+  BrainDataUpdate: BrainDataUpdateSchema,
+  UpdateBody: UpdateBodySchema,
+  MergePatch: MergePatchSchema,
+  JsonPatch: JsonPatchSchema,
+  BrainQueryOptions: BrainQueryOptionsSchema,
+  QueryRequest: QueryRequestSchema,
+  SearchResult: SearchResultSchema,
+  QueryResult: QueryResultSchema,
+  BulkCreateRequest: BulkCreateRequestSchema,
+  BulkUpdateRequest: BulkUpdateRequestSchema,
+  BulkDeleteRequest: BulkDeleteRequestSchema,
+  DataImport: DataImportSchema,
+  DataExport: DataExportSchema,
+  CRUDResult: CRUDResultSchema,
+  BatchResult: BatchResultSchema,
+  BrainAnalytics: BrainAnalyticsSchema,
+  ProbeResult: ProbeResultSchema,
+  HealthCheck: HealthCheckSchema,
+  ErrorResponse: ErrorResponseSchema,
+  ValidationError: ValidationErrorSchema,
+  IssueApiKeyRequest: IssueApiKeyRequestSchema,
+  ApiKey: ApiKeySchema,
+  EntityRevision: EntityRevisionSchema,
+  VersionDiff: VersionDiffSchema,
+  JobStatus: JobStatusSchema,
+  ReindexRequest: ReindexRequestSchema,
+  VectorIndexState: VectorIndexStateSchema,
+};
@@ -0,0 +1,176 @@
+import {
+  Env,
+  ApiKeyRecord,
+  ApiKeyScope,
+  AuthPrincipal,
+  IssueApiKeyRequest,
+} from "../types";
+
+const KEY_PREFIX = "rbk_";
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function randomSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** admin implies write, write implies read */
+export function hasScope(
+  principal: AuthPrincipal,
+  required: ApiKeyScope
+): boolean {
+  const rank: Record<ApiKeyScope, number> = { read: 0, write: 1, admin: 2 };
+  return principal.scopes.some((s) => rank[s] >= rank[required]);
+}
+
+/** API keys stored hashed in KV, sent as `Authorization: Bearer <key>` */
+export class AuthService {
+  private hashPrefix = "apikey:hash:";
+  private idPrefix = "apikey:id:";
+
+  constructor(private env: Env) {}
+
+  get disabled(): boolean {
+    return this.env.AUTH_DISABLED === "true";
+  }
+
+  /** Resolve the caller, or null if the key is missing, unknown or revoked */
+  async authenticate(request: Request): Promise<AuthPrincipal | null> {
+    if (this.disabled) {
+      return { keyId: "auth-disabled", scopes: ["admin"] };
+    }
+
+    const header = request.headers.get("Authorization") || "";
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    if (!match) return null;
+
+    const keyHash = await sha256Hex(match[1]);
+
+    if (
+      this.env.ADMIN_API_KEY &&
+      keyHash === (await sha256Hex(this.env.ADMIN_API_KEY))
+    ) {
+      return { keyId: "bootstrap-admin", scopes: ["admin"] };
+    }
+
+    const record = await this.getRecord(`${this.hashPrefix}${keyHash}`);
+    if (!record || record.revokedAt) return null;
+
+    return {
+      keyId: record.id,
+      scopes: record.scopes,
+      organizationId: record.organizationId,
+    };
+  }
+
+  /** Create a key; the plaintext is returned once and never stored */
+  async issueKey(
+    input: IssueApiKeyRequest,
+    createdBy?: string
+  ): Promise<{ key: string; record: Omit<ApiKeyRecord, "keyHash"> }> {
+    const key = `${KEY_PREFIX}${randomSecret()}`;
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      organizationId: input.organizationId,
+      scopes: [...new Set(input.scopes)],
+      keyHash: await sha256Hex(key),
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      createdAt: Date.now(),
+      createdBy,
+    };
+
+    await this.env.RAG_CACHE.put(
+      `${this.hashPrefix}${record.keyHash}`,
+      JSON.stringify(record)
+    );
+    await this.env.RAG_CACHE.put(
+      `${this.idPrefix}${record.id}`,
+      JSON.stringify(record)
+    );
+
+    console.log("🔑 Issued API key:", record.id, record.organizationId);
+    const { keyHash: _keyHash, ...visible } = record;
+    return { key, record: visible };
+  }
+
+  /** Revoke by key id; returns the updated record, or null if not found */
+  async revokeKey(
+    id: string,
+    organizationId?: string
+  ): Promise<Omit<ApiKeyRecord, "keyHash"> | null> {
+    const record = await this.getRecord(`${this.idPrefix}${id}`);
+    if (!record) return null;
+    if (organizationId && record.organizationId !== organizationId) {
+      return null;
+    }
+
+    const revoked: ApiKeyRecord = {
+      ...record,
+      revokedAt: record.revokedAt ?? Date.now(),
+    };
+    await this.env.RAG_CACHE.put(
+      `${this.hashPrefix}${record.keyHash}`,
+      JSON.stringify(revoked)
+    );
+    await this.env.RAG_CACHE.put(
+      `${this.idPrefix}${record.id}`,
+      JSON.stringify(revoked)
+    );
+
+    console.log("🔒 Revoked API key:", id);
+    const { keyHash: _keyHash, ...visible } = revoked;
+    return visible;
+  }
+
+  /** List keys (without hashes), optionally for one organization */
+  async listKeys(
+    organizationId?: string
+  ): Promise<Omit<ApiKeyRecord, "keyHash">[]> {
+    const records: Omit<ApiKeyRecord, "keyHash">[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.env.RAG_CACHE.list({
+        prefix: this.idPrefix,
+        cursor,
+      });
+      for (const key of page.keys) {
+        const record = await this.getRecord(key.name);
+        if (!record) continue;
+        if (organizationId && record.organizationId !== organizationId) {
+          continue;
+        }
+        const { keyHash: _keyHash, ...visible } = record;
+        records.push(visible);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return records.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  private async getRecord(key: string): Promise<ApiKeyRecord | null> {
+    const raw = await this.env.RAG_CACHE.get(key);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as ApiKeyRecord;
+    } catch (error) {
+      console.error("Error parsing API key record:", error);
+      return null;
+    }
+  }
+}
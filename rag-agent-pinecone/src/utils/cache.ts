@@ -1,4 +1,7 @@
 import { Env } from "../types";
+import { StorageBackend, createStorageBackend } from "../rag/backends";
+
+const PURGE_PAGE_SIZE = 100; // entries read per purgeExpiredPage call
 
 interface CachedItem<T> {
   value: T;
@@ -6,11 +9,19 @@ interface CachedItem<T> {
 }
 
 export class CacheService {
-  constructor(private env: Env) {}
+  /**
+   * @param keyPrefix Tenant prefix, so each organization has its own cache
+   * @param backend Where entries live (STORAGE_BACKEND by default)
+   */
+  constructor(
+    env: Env,
+    private keyPrefix: string = "",
+    private backend: StorageBackend = createStorageBackend(env)
+  ) {}
 
   async get<T>(key: string): Promise<T | null> {
     try {
-      const raw = await this.env.RAG_CACHE.get(`cache:${key}`);
+      const raw = await this.backend.get(`${this.keyPrefix}cache:${key}`);
       if (!raw) return null;
 
       const parsed: CachedItem<T> = JSON.parse(raw);
@@ -36,15 +47,52 @@ export class CacheService {
       const expires = Date.now() + ttlSeconds * 1000;
       const data: CachedItem<T> = { value, expires };
 
-      await this.env.RAG_CACHE.put(`cache:${key}`, JSON.stringify(data));
+      // Backend TTL (KV's minimum is 60s) reclaims entries nobody reads again
+      await this.backend.put(
+        `${this.keyPrefix}cache:${key}`,
+        JSON.stringify(data),
+        { expirationTtl: Math.max(60, ttlSeconds) }
+      );
     } catch (error) {
       console.error(`Cache set failed for key=${key}`, error);
     }
   }
 
+  /**
+   * Delete expired (or unreadable) entries from one page of the cache;
+   * pass the returned cursor to continue
+   */
+  async purgeExpiredPage(
+    cursor?: string
+  ): Promise<{ dropped: number; cursor?: string }> {
+    const page = await this.backend.list({
+      prefix: `${this.keyPrefix}cache:`,
+      cursor,
+      limit: PURGE_PAGE_SIZE,
+    });
+
+    let dropped = 0;
+    for (const key of page.keys) {
+      const raw = await this.backend.get(key);
+      let expired = true;
+      try {
+        const item: CachedItem<unknown> = JSON.parse(raw ?? "");
+        expired = Boolean(item.expires && Date.now() > item.expires);
+      } catch {
+        // unparsable entries can never be served; drop them too
+      }
+      if (raw !== null && expired) {
+        await this.backend.delete(key);
+        dropped++;
+      }
+    }
+
+    return { dropped, cursor: page.cursor };
+  }
+
   async delete(key: string): Promise<void> {
     try {
-      await this.env.RAG_CACHE.delete(`cache:${key}`);
+      await this.backend.delete(`${this.keyPrefix}cache:${key}`);
     } catch (error) {
       console.error(`Cache delete failed for key=${key}`, error);
     }
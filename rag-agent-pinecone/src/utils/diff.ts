@@ -0,0 +1,61 @@
+import { VersionDiff } from "../types";
+
+type DiffLine = VersionDiff["content"][number];
+
+/** Line diff via longest common subsequence; fine for document-sized text */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: "removed", text: a[i++] });
+    } else {
+      lines.push({ op: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ op: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ op: "added", text: b[j++] });
+
+  return lines;
+}
+
+/** Top-level keys whose values differ (compared as JSON) */
+export function diffFields(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  ignore: string[] = []
+): VersionDiff["fields"] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const fields: VersionDiff["fields"] = [];
+
+  for (const field of [...keys].sort()) {
+    if (ignore.includes(field)) continue;
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) {
+      continue;
+    }
+    fields.push({ field, before: before[field], after: after[field] });
+  }
+
+  return fields;
+}
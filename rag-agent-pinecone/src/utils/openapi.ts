@@ -0,0 +1,660 @@
+import { JsonSchema, SchemaName, schemas, ref } from "../types/schemas";
+
+interface ParamSpec {
+  name: string;
+  description?: string;
+  required?: boolean;
+  schema?: JsonSchema;
+}
+
+interface OperationSpec {
+  method: "get" | "post" | "put" | "delete" | "patch";
+  path: string;
+  summary: string;
+  tag: string;
+  params?: ParamSpec[]; // path parameters, e.g. {id}
+  query?: ParamSpec[];
+  headers?: ParamSpec[];
+  body?: SchemaName;
+  bodyContentTypes?: Partial<Record<string, SchemaName>>; // overrides body
+  response?: SchemaName;
+  responseContentTypes?: string[]; // defaults to application/json
+  extraResponses?: Record<number, string>;
+  public?: boolean; // no API key required
+}
+
+const idParam: ParamSpec = {
+  name: "id",
+  required: true,
+  description: "Entity id",
+};
+
+const ifMatchHeader: ParamSpec = {
+  name: "If-Match",
+  description: 'ETag from GET /brain/get, e.g. "v3"; 409 if no longer current',
+};
+
+const versionParam: ParamSpec = {
+  name: "v",
+  required: true,
+  description: "Version number",
+  schema: { type: "integer" },
+};
+
+const createParams: ParamSpec[] = [
+  {
+    name: "backgroundIndex",
+    schema: { type: "boolean" },
+    description:
+      "Index in a background job (default unless BACKGROUND_INDEXING=false)",
+  },
+  {
+    name: "skipIndexing",
+    schema: { type: "boolean" },
+    description: "Store without indexing",
+  },
+];
+
+const filterParams: ParamSpec[] = [
+  { name: "type" },
+  { name: "category" },
+  { name: "userId" },
+  { name: "status" },
+  { name: "tags", description: "Comma-separated; all must match" },
+  { name: "start", description: "createdAt lower bound (epoch ms or ISO)" },
+  { name: "end", description: "createdAt upper bound (epoch ms or ISO)" },
+  { name: "textSearch" },
+  {
+    name: "includeTrashed",
+    schema: { type: "boolean" },
+    description: "Include soft-deleted entities",
+  },
+];
+
+/** Every route served by src/index.ts */
+const operations: OperationSpec[] = [
+  {
+    method: "post",
+    path: "/query",
+    summary: "Query the brain (ids lookup or semantic search)",
+    tag: "query",
+    body: "QueryRequest",
+    response: "QueryResult",
+  },
+  {
+    method: "post",
+    path: "/brain/create",
+    summary:
+      "Create an entity; indexing runs as a background job reported in metadata.jobId",
+    tag: "brain",
+    query: createParams,
+    body: "BrainData",
+    response: "CRUDResult",
+    extraResponses: {
+      202: "Created; indexing in background",
+      409: "The id is already taken",
+    },
+  },
+  {
+    method: "post",
+    path: "/brain/write",
+    summary: "Alias of /brain/create",
+    tag: "brain",
+    query: createParams,
+    body: "BrainData",
+    response: "CRUDResult",
+    extraResponses: {
+      202: "Created; indexing in background",
+      409: "The id is already taken",
+    },
+  },
+  {
+    method: "get",
+    path: "/brain/jobs/{id}",
+    summary:
+      "Background job status, progress and last error ({ success, job: JobStatus })",
+    tag: "jobs",
+    params: [{ name: "id", description: "Job id" }],
+    extraResponses: { 404: "Unknown or expired job" },
+  },
+  {
+    method: "post",
+    path: "/brain/jobs/{id}/retry",
+    summary: "Requeue a failed job ({ success, message, job: JobStatus })",
+    tag: "jobs",
+    params: [{ name: "id", description: "Job id" }],
+    extraResponses: {
+      202: "Requeued",
+      404: "Unknown or expired job",
+      409: "Job has not failed",
+    },
+  },
+  {
+    method: "post",
+    path: "/brain/read",
+    summary: "Read by id, type or semantic query (alias: /brain/query)",
+    tag: "brain",
+    body: "QueryRequest",
+    response: "QueryResult",
+  },
+  {
+    method: "put",
+    path: "/brain/update",
+    summary:
+      "Update an entity, re-indexing when content changes; If-Match or expectedVersion guards against stale writes",
+    tag: "brain",
+    query: [idParam],
+    headers: [ifMatchHeader],
+    body: "UpdateBody",
+    response: "CRUDResult",
+    extraResponses: {
+      409: "Version conflict; body carries the current entity",
+    },
+  },
+  {
+    method: "delete",
+    path: "/brain/delete",
+    summary: "Delete an entity, or move it to the trash",
+    tag: "brain",
+    headers: [ifMatchHeader],
+    extraResponses: {
+      409: "Version conflict; body carries the current entity",
+    },
+    query: [
+      idParam,
+      {
+        name: "soft",
+        schema: { type: "boolean" },
+        description: "Move to trash instead of deleting permanently",
+      },
+    ],
+    response: "CRUDResult",
+  },
+  {
+    method: "get",
+    path: "/brain/get",
+    summary: "Fetch an entity by id (ETag carries its version)",
+    tag: "brain",
+    query: [idParam],
+    response: "CRUDResult",
+  },
+  {
+    method: "get",
+    path: "/brain/entity/{id}",
+    summary: "Fetch an entity by id (ETag carries its version)",
+    tag: "brain",
+    params: [idParam],
+    response: "CRUDResult",
+  },
+  {
+    method: "patch",
+    path: "/brain/entity/{id}",
+    summary:
+      "Patch content, type and metadata with a merge patch or JSON Patch; system metadata is read-only",
+    tag: "brain",
+    params: [idParam],
+    headers: [ifMatchHeader],
+    bodyContentTypes: {
+      "application/merge-patch+json": "MergePatch",
+      "application/json-patch+json": "JsonPatch",
+    },
+    response: "CRUDResult",
+    extraResponses: {
+      409: "Version conflict; body carries the current entity",
+      415: "Unsupported patch Content-Type",
+    },
+  },
+  {
+    method: "get",
+    path: "/brain/history",
+    summary: "List an entity's versions with timestamps and authors",
+    tag: "history",
+    query: [idParam],
+    extraResponses: { 404: "Entity not found" },
+  },
+  {
+    method: "get",
+    path: "/brain/version",
+    summary: "Fetch one version of an entity",
+    tag: "history",
+    query: [idParam, versionParam],
+    response: "CRUDResult",
+  },
+  {
+    method: "get",
+    path: "/brain/diff",
+    summary: "Diff two versions (metadata fields and content lines)",
+    tag: "history",
+    query: [
+      idParam,
+      { name: "from", required: true, schema: { type: "integer" } },
+      {
+        name: "to",
+        schema: { type: "integer" },
+        description: "Defaults to the current version",
+      },
+    ],
+    response: "VersionDiff",
+    extraResponses: { 404: "Entity or version not found" },
+  },
+  {
+    method: "post",
+    path: "/brain/revert",
+    summary: "Restore a version as a new version and re-index it",
+    tag: "history",
+    query: [idParam, versionParam],
+    headers: [ifMatchHeader],
+    response: "CRUDResult",
+    extraResponses: {
+      409: "Version conflict; body carries the current entity",
+    },
+  },
+  {
+    method: "get",
+    path: "/brain/trash",
+    summary:
+      "Soft-deleted entities, oldest deletion first with a metadata store ({ success, count, total?, retentionDays, items, cursor })",
+    tag: "trash",
+    query: [
+      { name: "limit", schema: { type: "integer" } },
+      { name: "cursor", description: "From the previous page's response" },
+    ],
+  },
+  {
+    method: "post",
+    path: "/brain/restore",
+    summary: "Restore a soft-deleted entity as a new version and re-index it",
+    tag: "trash",
+    query: [idParam],
+    headers: [ifMatchHeader],
+    response: "CRUDResult",
+    extraResponses: {
+      409: "Version conflict; body carries the current entity",
+    },
+  },
+  {
+    method: "post",
+    path: "/brain/trash/purge",
+    summary:
+      "Hard-delete one page of entities trashed longer than the retention window (BatchResult plus cursor)",
+    tag: "trash",
+    query: [
+      { name: "olderThanDays", schema: { type: "number", minimum: 0 } },
+      { name: "cursor", description: "From the previous page's response" },
+    ],
+    response: "BatchResult",
+    extraResponses: { 422: "Negative or non-numeric olderThanDays" },
+  },
+  {
+    method: "post",
+    path: "/brain/bulk/create",
+    summary: "Create entities in batches",
+    tag: "bulk",
+    body: "BulkCreateRequest",
+    response: "BatchResult",
+  },
+  {
+    method: "post",
+    path: "/brain/bulk/update",
+    summary: "Update entities in concurrent batches",
+    tag: "bulk",
+    body: "BulkUpdateRequest",
+    response: "BatchResult",
+  },
+  {
+    method: "post",
+    path: "/brain/bulk/delete",
+    summary: "Delete (or soft-delete) entities in batches",
+    tag: "bulk",
+    body: "BulkDeleteRequest",
+  },
+  {
+    method: "get",
+    path: "/brain/list",
+    summary:
+      "Entities matching metadata filters, in id order ({ success, count, items, cursor })",
+    tag: "brain",
+    query: [
+      ...filterParams,
+      { name: "sortBy", description: "Needs a metadata store (BRAIN_DB)" },
+      { name: "sortOrder", schema: { type: "string", enum: ["asc", "desc"] } },
+      {
+        name: "count",
+        schema: { type: "boolean" },
+        description: "Include the total (needs a metadata store)",
+      },
+      { name: "limit", schema: { type: "integer" } },
+      { name: "cursor", description: "From the previous page's response" },
+    ],
+    extraResponses: { 422: "Unusable sort field, or no metadata store" },
+  },
+  {
+    method: "post",
+    path: "/brain/search",
+    summary:
+      "Entities matching filters plus metadata conditions, sorted and optionally counted ({ success, count, total?, items, cursor })",
+    tag: "brain",
+    body: "EntityQuery",
+  },
+  {
+    method: "get",
+    path: "/brain/export",
+    summary: "Stream a DataExport document (JSON) or NDJSON",
+    tag: "transfer",
+    query: [
+      ...filterParams,
+      { name: "format", schema: { type: "string", enum: ["json", "ndjson"] } },
+    ],
+    response: "DataExport",
+    responseContentTypes: ["application/json", "application/x-ndjson"],
+  },
+  {
+    method: "post",
+    path: "/brain/import",
+    summary: "Import a DataImport, DataExport or NDJSON export",
+    tag: "transfer",
+    query: [
+      { name: "preserveIds", schema: { type: "boolean" } },
+      { name: "skipExisting", schema: { type: "boolean" } },
+      { name: "updateExisting", schema: { type: "boolean" } },
+      { name: "batchSize", schema: { type: "integer" } },
+    ],
+    body: "DataImport",
+    response: "BatchResult",
+  },
+  {
+    method: "get",
+    path: "/brain/analytics",
+    summary: "Entity counters",
+    tag: "system",
+    query: [
+      {
+        name: "rebuild",
+        schema: { type: "boolean" },
+        description: "Recount the counters in a background job",
+      },
+    ],
+    response: "BrainAnalytics",
+  },
+  {
+    method: "get",
+    path: "/health",
+    summary: "Probe storage, vector DB, embeddings and cache",
+    tag: "system",
+    response: "HealthCheck",
+    extraResponses: { 503: "Unhealthy" },
+    public: true,
+  },
+  {
+    method: "get",
+    path: "/admin/keys",
+    summary: "List API keys (own organization for organization-bound admins)",
+    tag: "admin",
+  },
+  {
+    method: "post",
+    path: "/admin/keys",
+    summary: "Issue an API key; the secret is only returned in this response",
+    tag: "admin",
+    body: "IssueApiKeyRequest",
+    extraResponses: { 201: "Created" },
+  },
+  {
+    method: "delete",
+    path: "/admin/keys",
+    summary: "Revoke an API key",
+    tag: "admin",
+    query: [{ name: "id", required: true, description: "API key id" }],
+    extraResponses: { 404: "Unknown key" },
+  },
+  {
+    method: "delete",
+    path: "/admin/tenants",
+    summary:
+      "Revoke an organization's keys and start a job deleting its entities, indexes, cache and vector namespaces",
+    tag: "admin",
+    query: [{ name: "organizationId", required: true }],
+    extraResponses: {
+      202: "Deletion job started",
+      400: "organizationId missing",
+    },
+  },
+  {
+    method: "get",
+    path: "/admin/maintenance",
+    summary:
+      "Report of the latest (or a given) maintenance run ({ success, report: MaintenanceReport })",
+    tag: "admin",
+    query: [{ name: "runId", description: "Defaults to the latest run" }],
+    extraResponses: { 404: "No report stored" },
+  },
+  {
+    method: "post",
+    path: "/admin/maintenance",
+    summary:
+      "Start a maintenance job now, or return the one running (own organization only for organization-bound admins)",
+    tag: "admin",
+    extraResponses: {
+      202: "Job started; the report is stored when it completes",
+    },
+  },
+  {
+    method: "get",
+    path: "/admin/reindex",
+    summary:
+      "Embedding model and namespace serving reads, and any reindex ({ success, state: VectorIndexState })",
+    tag: "admin",
+  },
+  {
+    method: "post",
+    path: "/admin/reindex",
+    summary:
+      "Re-embed every entity with a new model into a fresh namespace, then switch reads over; progress via /brain/jobs/{id}",
+    tag: "admin",
+    body: "ReindexRequest",
+    extraResponses: {
+      202: "Reindex job started",
+      409: "A reindex is running, or the model is unusable",
+    },
+  },
+  {
+    method: "delete",
+    path: "/admin/reindex",
+    summary: "Cancel the reindex in progress; reads stay on the current model",
+    tag: "admin",
+    extraResponses: { 404: "No reindex in progress" },
+  },
+  {
+    method: "post",
+    path: "/admin/indexes/rebuild",
+    summary:
+      "Re-index every entity under its type, category, tags, user and status (run after binding BRAIN_DB)",
+    tag: "admin",
+    extraResponses: { 202: "Rebuild job started; follow /brain/jobs/{id}" },
+  },
+  {
+    method: "post",
+    path: "/admin/reconcile",
+    summary:
+      "Compare KV entities with the vector index (missing, orphan, mismatched and stale vectors); the job's metadata.report holds a ConsistencyReport",
+    tag: "admin",
+    query: [
+      {
+        name: "fix",
+        description: "true to repair every issue found",
+        schema: { type: "boolean" },
+      },
+    ],
+    extraResponses: {
+      202: "Check started; follow /brain/jobs/{id}",
+      409: "No vector store configured",
+    },
+  },
+];
+
+function buildOperation(op: OperationSpec): Record<string, any> {
+  const contentTypes = op.responseContentTypes || ["application/json"];
+  const responseSchema = op.response ? ref(op.response) : { type: "object" };
+
+  const operation: Record<string, any> = {
+    summary: op.summary,
+    tags: [op.tag],
+    operationId: `${op.method}${op.path
+      .split("/")
+      .filter(Boolean)
+      .map((p) => p.replace(/[{}]/g, ""))
+      .map((p) => p[0].toUpperCase() + p.slice(1))
+      .join("")}`,
+    responses: {
+      200: {
+        description: "OK",
+        content: Object.fromEntries(
+          contentTypes.map((type) => [type, { schema: responseSchema }])
+        ),
+      },
+      ...Object.fromEntries(
+        Object.entries(op.extraResponses || {}).map(([status, description]) => [
+          status,
+          {
+            description,
+            content: { "application/json": { schema: responseSchema } },
+          },
+        ])
+      ),
+      ...(!op.public && {
+        401: {
+          description: "Missing or invalid API key",
+          content: { "application/json": { schema: ref("ErrorResponse") } },
+        },
+        403: {
+          description: "API key lacks the required scope",
+          content: { "application/json": { schema: ref("ErrorResponse") } },
+        },
+      }),
+      429: {
+        description: "Rate limit exceeded; retry after Retry-After seconds",
+        headers: {
+          "Retry-After": { schema: { type: "integer" } },
+          "X-RateLimit-Limit": { schema: { type: "integer" } },
+          "X-RateLimit-Remaining": { schema: { type: "integer" } },
+          "X-RateLimit-Reset": {
+            description: "Epoch seconds when the window resets",
+            schema: { type: "integer" },
+          },
+        },
+        content: { "application/json": { schema: ref("ErrorResponse") } },
+      },
+      500: {
+        description: "Internal server error",
+        content: { "application/json": { schema: ref("ErrorResponse") } },
+      },
+    },
+  };
+
+  if (op.public) {
+    operation.security = [];
+  } else {
+    operation.parameters = [
+      {
+        name: "X-Organization-Id",
+        in: "header",
+        required: false,
+        description:
+          "Tenant to act in; only honored for keys not bound to an organization",
+        schema: { type: "string" },
+      },
+    ];
+  }
+
+  if (op.params) {
+    operation.parameters = [
+      ...(operation.parameters || []),
+      ...op.params.map((p) => ({
+        name: p.name,
+        in: "path",
+        required: true,
+        ...(p.description && { description: p.description }),
+        schema: p.schema || { type: "string" },
+      })),
+    ];
+  }
+
+  if (op.headers) {
+    operation.parameters = [
+      ...(operation.parameters || []),
+      ...op.headers.map((p) => ({
+        name: p.name,
+        in: "header",
+        required: p.required ?? false,
+        ...(p.description && { description: p.description }),
+        schema: p.schema || { type: "string" },
+      })),
+    ];
+  }
+
+  if (op.query) {
+    operation.parameters = [
+      ...(operation.parameters || []),
+      ...op.query.map((p) => ({
+        name: p.name,
+        in: "query",
+        required: p.required ?? false,
+        ...(p.description && { description: p.description }),
+        schema: p.schema || { type: "string" },
+      })),
+    ];
+  }
+
+  const bodyTypes =
+    op.bodyContentTypes || (op.body && { "application/json": op.body });
+  if (bodyTypes) {
+    operation.requestBody = {
+      required: true,
+      content: Object.fromEntries(
+        Object.entries(bodyTypes).map(([type, name]) => [
+          type,
+          { schema: ref(name as SchemaName) },
+        ])
+      ),
+    };
+    operation.responses[422] = {
+      description: "Request body failed validation",
+      content: { "application/json": { schema: ref("ValidationError") } },
+    };
+  }
+
+  return operation;
+}
+
+/** OpenAPI 3.1 document for the API, built from the shared schemas */
+export function buildOpenApiDocument(
+  serverUrl: string,
+  version: string
+): Record<string, any> {
+  const paths: Record<string, Record<string, any>> = {};
+  for (const op of operations) {
+    paths[op.path] = { ...paths[op.path], [op.method]: buildOperation(op) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "RAG Brain Agent API",
+      version,
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "API key with read, write or admin scope, bound to an organization",
+        },
+      },
+    },
+  };
+}
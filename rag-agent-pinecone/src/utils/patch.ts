@@ -0,0 +1,226 @@
+// RFC 7396 JSON Merge Patch and RFC 6902 JSON Patch over plain JSON values
+
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  from?: string;
+  value?: any;
+}
+
+/** A patch that can't be applied; `path` is a JSON pointer into the body */
+export class PatchError extends Error {
+  constructor(message: string, public path: string = "") {
+    super(message);
+    this.name = "PatchError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Own keys only: `"toString" in {}` is true through the prototype */
+function hasKey(object: Record<string, any>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/** Structural JSON equality; object member order doesn't matter */
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => deepEqual(item, b[i]))
+    );
+  }
+  if (!isObject(a) || !isObject(b)) return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => hasKey(b, key) && deepEqual(a[key], b[key]))
+  );
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** RFC 7396: objects merge recursively, null deletes, anything else replaces */
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isObject(patch)) return clone(patch);
+
+  const result: Record<string, any> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === "__proto__") continue;
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/** RFC 6902: apply operations in order; the input document is not modified */
+export function applyJsonPatch(
+  document: any,
+  operations: JsonPatchOperation[]
+): any {
+  let doc = clone(document);
+
+  operations.forEach((operation, i) => {
+    const at = `/${i}`;
+    try {
+      doc = applyOperation(doc, operation);
+    } catch (error) {
+      if (error instanceof PatchError) {
+        throw new PatchError(error.message, `${at}${error.path}`);
+      }
+      throw error;
+    }
+  });
+
+  return doc;
+}
+
+function applyOperation(doc: any, operation: JsonPatchOperation): any {
+  switch (operation.op) {
+    case "add":
+      return add(doc, operation.path, clone(operation.value));
+    case "remove":
+      return remove(doc, operation.path);
+    case "replace":
+      get(doc, operation.path, "/path"); // must exist
+      return add(
+        remove(doc, operation.path),
+        operation.path,
+        clone(operation.value)
+      );
+    case "move": {
+      const from = requireFrom(operation);
+      if (operation.path.startsWith(`${from}/`)) {
+        throw new PatchError("Cannot move a value into itself", "/path");
+      }
+      const value = get(doc, from, "/from");
+      return add(remove(doc, from), operation.path, value);
+    }
+    case "copy": {
+      const value = clone(get(doc, requireFrom(operation), "/from"));
+      return add(doc, operation.path, value);
+    }
+    case "test": {
+      const actual = get(doc, operation.path, "/path");
+      if (!deepEqual(actual, operation.value)) {
+        throw new PatchError(`Test failed at ${operation.path}`, "/value");
+      }
+      return doc;
+    }
+    default:
+      throw new PatchError(`Unknown op "${(operation as any).op}"`, "/op");
+  }
+}
+
+function requireFrom(operation: JsonPatchOperation): string {
+  if (typeof operation.from !== "string") {
+    throw new PatchError(`"${operation.op}" requires "from"`, "/from");
+  }
+  return operation.from;
+}
+
+function parsePointer(pointer: string, field: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new PatchError(`Invalid JSON pointer "${pointer}"`, field);
+  }
+  const tokens = pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+  if (tokens.includes("__proto__")) {
+    throw new PatchError(`Invalid JSON pointer "${pointer}"`, field);
+  }
+  return tokens;
+}
+
+function arrayIndex(
+  array: any[],
+  token: string,
+  field: string,
+  allowEnd: boolean
+): number {
+  if (allowEnd && token === "-") return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new PatchError(`Invalid array index "${token}"`, field);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new PatchError(`Array index ${index} out of bounds`, field);
+  }
+  return index;
+}
+
+/** Resolve the container holding the pointer's last token */
+function parentOf(
+  doc: any,
+  pointer: string,
+  field: string
+): { parent: any; key: string } {
+  const tokens = parsePointer(pointer, field);
+  if (tokens.length === 0) {
+    throw new PatchError(
+      "Operations on the whole document are not supported",
+      field
+    );
+  }
+
+  let parent = doc;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(parent)) {
+      parent = parent[arrayIndex(parent, token, field, false)];
+    } else if (isObject(parent) && hasKey(parent, token)) {
+      parent = parent[token];
+    } else {
+      throw new PatchError(`Path ${pointer} does not exist`, field);
+    }
+  }
+  if (!Array.isArray(parent) && !isObject(parent)) {
+    throw new PatchError(`Path ${pointer} does not exist`, field);
+  }
+
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function get(doc: any, pointer: string, field: string): any {
+  const { parent, key } = parentOf(doc, pointer, field);
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, key, field, false)];
+  }
+  if (!hasKey(parent, key)) {
+    throw new PatchError(`Path ${pointer} does not exist`, field);
+  }
+  return parent[key];
+}
+
+function add(doc: any, pointer: string, value: any): any {
+  const { parent, key } = parentOf(doc, pointer, "/path");
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, "/path", true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return doc;
+}
+
+function remove(doc: any, pointer: string): any {
+  const { parent, key } = parentOf(doc, pointer, "/path");
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, "/path", false), 1);
+  } else if (hasKey(parent, key)) {
+    delete parent[key];
+  } else {
+    throw new PatchError(`Path ${pointer} does not exist`, "/path");
+  }
+  return doc;
+}
@@ -0,0 +1,260 @@
+import { AuthPrincipal, Env, RateLimit } from "../types";
+
+/** Per-route limits; "*" applies to every route not listed */
+const DEFAULT_LIMITS: Record<string, RateLimit> = {
+  // Embedding-heavy: every item or query calls Workers AI
+  "/brain/bulk/create": { windowMs: 60_000, maxRequests: 10 },
+  "/brain/import": { windowMs: 60_000, maxRequests: 10 },
+  "/brain/read": { windowMs: 60_000, maxRequests: 30 },
+  "/query": { windowMs: 60_000, maxRequests: 30 },
+  "/health": { windowMs: 60_000, maxRequests: 30 },
+  "/brain/create": { windowMs: 60_000, maxRequests: 60 },
+  "/brain/write": { windowMs: 60_000, maxRequests: 60 },
+  "/brain/update": { windowMs: 60_000, maxRequests: 60 },
+  "/brain/bulk/update": { windowMs: 60_000, maxRequests: 20 },
+  // Plain KV reads
+  "/brain/get": { windowMs: 60_000, maxRequests: 300 },
+  "*": { windowMs: 60_000, maxRequests: 120 },
+};
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms when the current window ends
+  client: string;
+  counterKey: string;
+  rule: RateLimit;
+}
+
+/** One step against a counter; `limit` null charges unconditionally */
+interface CounterRequest {
+  counterKey: string;
+  resetAt: number;
+  limit: number | null;
+  charge: boolean;
+}
+
+/**
+ * The route a path is limited under: ids collapse into the pattern and
+ * aliases share their target's bucket.
+ */
+export function routePattern(pathname: string): string {
+  if (pathname === "/brain/query") return "/brain/read";
+  if (pathname.startsWith("/brain/entity/")) return "/brain/entity/:id";
+  if (pathname.startsWith("/brain/jobs/")) return "/brain/jobs/:id";
+  return pathname;
+}
+
+/**
+ * Caller identity: the authenticated key, else the client IP. Missing and
+ * invalid keys fall to the IP, so random tokens can't mint fresh buckets.
+ */
+export function clientKey(
+  request: Request,
+  principal: AuthPrincipal | null
+): string {
+  if (principal && principal.keyId !== "auth-disabled") {
+    return `key:${principal.keyId}`;
+  }
+  return `ip:${request.headers.get("CF-Connecting-IP") || "unknown"}`;
+}
+
+// =====================================================
+// DURABLE OBJECT
+// =====================================================
+
+/**
+ * Fixed-window counters for one client (one object per `clientKey`). A
+ * Durable Object handles its requests one at a time, so the read and the
+ * increment can't interleave across isolates the way a KV counter's do.
+ */
+export class RateLimitCounter {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { counterKey, resetAt, limit, charge } =
+      (await request.json()) as CounterRequest;
+    const storage = this.state.storage;
+    const used = (await storage.get<number>(counterKey)) ?? 0;
+
+    let count = used;
+    if (charge && (limit === null || used < limit)) {
+      count = used + 1;
+      await storage.put(counterKey, count);
+      if ((await storage.getAlarm()) === null) await storage.setAlarm(resetAt);
+    }
+    return Response.json({ count, allowed: limit === null || used < limit });
+  }
+
+  /** Drop counters for windows that have ended */
+  async alarm(): Promise<void> {
+    const storage = this.state.storage;
+    const now = Date.now();
+    const counters = await storage.list<number>();
+    const expired = [...counters.keys()].filter(
+      (key) => Number(key.split(":")[0]) <= now
+    );
+    for (let i = 0; i < expired.length; i += 128) {
+      await storage.delete(expired.slice(i, i + 128));
+    }
+    if (counters.size > expired.length) {
+      await storage.setAlarm(now + 60_000);
+    }
+  }
+}
+
+// =====================================================
+// LIMITER
+// =====================================================
+
+// Counts seen by this isolate when RATE_LIMITER is unbound (local dev)
+const localCounts = new Map<string, { count: number; resetAt: number }>();
+
+/** Fixed-window request counters per route and caller */
+export class RateLimiter {
+  private limits: Record<string, RateLimit>;
+
+  constructor(private env: Env, limits?: Record<string, RateLimit>) {
+    this.limits = limits || { ...DEFAULT_LIMITS, ...this.configuredLimits() };
+  }
+
+  get disabled(): boolean {
+    return this.env.RATE_LIMIT_DISABLED === "true";
+  }
+
+  /** Limit for a path, or null if the path is not limited */
+  ruleFor(pathname: string): RateLimit | null {
+    return this.limits[routePattern(pathname)] || this.limits["*"] || null;
+  }
+
+  /**
+   * Count the request against its route's window. Call after authenticating
+   * so the caller is bucketed by key id. Rules with skipSuccessfulRequests
+   * are only charged in record(), once the response status is known.
+   */
+  async check(
+    request: Request,
+    principal: AuthPrincipal | null
+  ): Promise<RateLimitDecision | null> {
+    if (this.disabled || request.method === "OPTIONS") return null;
+
+    const route = routePattern(new URL(request.url).pathname);
+    const rule = this.ruleFor(route);
+    if (!rule) return null;
+
+    const client = rule.keyGenerator
+      ? rule.keyGenerator(request)
+      : clientKey(request, principal);
+    const windowStart = Math.floor(Date.now() / rule.windowMs) * rule.windowMs;
+    const resetAt = windowStart + rule.windowMs;
+    // Window end first, so the counter's alarm can tell expired keys apart
+    const counterKey = `${resetAt}:${route}`;
+
+    const { count, allowed } = await this.counter(client, {
+      counterKey,
+      resetAt,
+      limit: rule.maxRequests,
+      charge: !rule.skipSuccessfulRequests,
+    });
+
+    return {
+      allowed,
+      limit: rule.maxRequests,
+      remaining: allowed ? Math.max(0, rule.maxRequests - count) : 0,
+      resetAt,
+      client,
+      counterKey,
+      rule,
+    };
+  }
+
+  /** Charge failed responses for rules that skip successful ones */
+  async record(decision: RateLimitDecision, status: number): Promise<void> {
+    if (!decision.rule.skipSuccessfulRequests || status < 400) return;
+
+    await this.counter(decision.client, {
+      counterKey: decision.counterKey,
+      resetAt: decision.resetAt,
+      limit: null,
+      charge: true,
+    });
+  }
+
+  headers(decision: RateLimitDecision): Record<string, string> {
+    const headers: Record<string, string> = {
+      "X-RateLimit-Limit": String(decision.limit),
+      "X-RateLimit-Remaining": String(decision.remaining),
+      "X-RateLimit-Reset": String(Math.ceil(decision.resetAt / 1000)),
+    };
+    if (!decision.allowed) {
+      headers["Retry-After"] = String(
+        Math.max(1, Math.ceil((decision.resetAt - Date.now()) / 1000))
+      );
+    }
+    return headers;
+  }
+
+  /** Apply a step in the client's Durable Object, or in this isolate */
+  private async counter(
+    client: string,
+    step: CounterRequest
+  ): Promise<{ count: number; allowed: boolean }> {
+    if (this.env.RATE_LIMITER) {
+      try {
+        const stub = this.env.RATE_LIMITER.get(
+          this.env.RATE_LIMITER.idFromName(client)
+        );
+        const response = await stub.fetch("https://rate-limiter/", {
+          method: "POST",
+          body: JSON.stringify(step),
+        });
+        return await response.json();
+      } catch (error) {
+        // Fail open: a counter hiccup should not take the API down
+        console.error("Rate limit counter failed:", error);
+        return { count: 0, allowed: true };
+      }
+    }
+
+    const key = `${client}:${step.counterKey}`;
+    const used = localCounts.get(key)?.count || 0;
+    const allowed = step.limit === null || used < step.limit;
+    if (!step.charge || !allowed) return { count: used, allowed };
+
+    localCounts.set(key, { count: used + 1, resetAt: step.resetAt });
+    this.pruneLocal();
+    return { count: used + 1, allowed };
+  }
+
+  /** Drop counters for windows that have ended */
+  private pruneLocal(): void {
+    if (localCounts.size < 1000) return;
+    const now = Date.now();
+    for (const [key, entry] of localCounts) {
+      if (entry.resetAt <= now) localCounts.delete(key);
+    }
+  }
+
+  /**
+   * RATE_LIMITS env var: JSON map of route → { windowMs, maxRequests }, with
+   * ids written as ":id" (e.g. "/brain/entity/:id")
+   */
+  private configuredLimits(): Record<string, RateLimit> {
+    if (!this.env.RATE_LIMITS) return {};
+    try {
+      const limits: Record<string, RateLimit> = JSON.parse(
+        this.env.RATE_LIMITS
+      );
+      return Object.fromEntries(
+        Object.entries(limits).map(([path, rule]) => [
+          path === "*" ? path : routePattern(path),
+          rule,
+        ])
+      );
+    } catch (error) {
+      console.error("Invalid RATE_LIMITS, using defaults:", error);
+      return {};
+    }
+  }
+}
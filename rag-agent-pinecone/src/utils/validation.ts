@@ -0,0 +1,149 @@
+import { JsonSchema, JsonType, SchemaName, schemas } from "../types/schemas";
+
+export interface FieldError {
+  path: string; // JSON pointer, "" for the body itself
+  message: string;
+}
+
+export type ParsedBody<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+/** Parse a JSON request body and validate it against a named schema */
+export async function parseBody<T>(
+  request: Request,
+  schema: SchemaName
+): Promise<ParsedBody<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      ok: false,
+      errors: [{ path: "", message: "Body is not valid JSON" }],
+    };
+  }
+
+  const errors = validate(body, schemas[schema]);
+  return errors.length ? { ok: false, errors } : { ok: true, value: body as T };
+}
+
+/** Validate a value against the JSON Schema subset used in types/schemas */
+export function validate(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = ""
+): FieldError[] {
+  if (schema.$ref) {
+    const name = schema.$ref.split("/").pop() as SchemaName;
+    return validate(value, schemas[name], path);
+  }
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((s) => validate(value, s, path));
+    if (branches.some((b) => b.length === 0)) return [];
+    // Report the branch that got furthest (fewest errors)
+    return branches.sort((a, b) => a.length - b.length)[0];
+  }
+
+  const errors: FieldError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some((t) => matchesType(value, t))) {
+      fail(`Expected ${allowed.join(" or ")}, got ${describe(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    fail(`Must be one of: ${schema.enum.join(", ")}`);
+  }
+
+  if (typeof value === "string" && schema.minLength !== undefined) {
+    if (value.length < schema.minLength) {
+      fail(
+        schema.minLength === 1
+          ? "Must not be empty"
+          : `Must be at least ${schema.minLength} characters`
+      );
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`Must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`Must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`Must contain at least ${schema.minItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        errors.push(...validate(item, schema.items!, `${path}/${i}`))
+      );
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ path: `${path}/${key}`, message: "Is required" });
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (properties[key]) {
+        if (child !== undefined) {
+          errors.push(...validate(child, properties[key], childPath));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath, message: "Unknown field" });
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validate(child, schema.additionalProperties, childPath));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
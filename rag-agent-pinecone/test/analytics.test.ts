@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { Env } from "../src/types";
+import { createBrain } from "./helpers";
+import { createMemoryDatabase } from "./sqlite";
+
+const stores: Array<[string, () => Partial<Env>]> = [
+  ["storage", () => ({})],
+  ["D1", () => ({ BRAIN_DB: createMemoryDatabase() })],
+];
+
+/** A brain whose counters a finished recount has seeded */
+async function seededBrain(overrides: Partial<Env>) {
+  const brain = createBrain(overrides);
+  await brain.brain.getAnalytics(true);
+  await brain.settled();
+  return brain;
+}
+
+describe.each(stores)("analytics counters in %s", (_, overrides) => {
+  it("read as pending until a background recount seeds them", async () => {
+    const { brain, settled } = createBrain(overrides());
+    await brain.create({ id: "a", content: "one", type: "note" });
+    await brain.create({ id: "b", content: "two", type: "doc" });
+
+    const pending = await brain.getAnalytics();
+    expect(pending).toMatchObject({ pending: true, totalEntities: 0 });
+    expect(pending.jobId).toBeDefined();
+
+    await settled();
+    const seeded = await brain.getAnalytics();
+    expect(seeded.pending).toBeUndefined();
+    expect(seeded.jobId).toBeUndefined();
+    expect(seeded).toMatchObject({
+      totalEntities: 2,
+      byType: { note: 1, doc: 1 },
+      recentActivity: { created: 2 },
+    });
+  });
+
+  it("follow creates, updates and deletes once seeded", async () => {
+    const { brain } = await seededBrain(overrides());
+    await brain.create({
+      id: "a",
+      content: "a note about the roadmap",
+      type: "note",
+      metadata: { category: "plans" },
+    });
+    await brain.create({
+      id: "b",
+      content: "a much longer document ".repeat(20),
+      type: "doc",
+      metadata: { category: "plans", status: "draft" },
+    });
+    await brain.create({ id: "c", content: "scratch", type: "note" });
+    await brain.update("a", { type: "doc", metadata: { category: "ideas" } });
+    await brain.delete("c");
+
+    expect(await brain.getAnalytics()).toMatchObject({
+      totalEntities: 2,
+      byType: { doc: 2 },
+      byCategory: { plans: 1, ideas: 1 },
+      byStatus: { active: 1, draft: 1 },
+      recentActivity: { created: 3, updated: 1, deleted: 1 },
+      indexingStatus: { indexed: 2, pending: 0, failed: 0 },
+      storageUsage: { largestEntity: "b" },
+    });
+  });
+
+  it("add up concurrent writes", async () => {
+    const { brain } = await seededBrain(overrides());
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        brain.create({ id: `c${i}`, content: `entity ${i}`, type: "note" })
+      )
+    );
+
+    expect(await brain.getAnalytics()).toMatchObject({
+      totalEntities: 20,
+      byType: { note: 20 },
+      recentActivity: { created: 20 },
+    });
+  });
+
+  it("are recounted when maintenance finds expired entities", async () => {
+    const { brain, storage, settled } = await seededBrain(overrides());
+    await brain.create({ id: "a", content: "kept", type: "note" });
+    await brain.create({ id: "b", content: "expires", type: "note" });
+    // Gone through its KV TTL, so no write took it off the counters
+    await storage.delete("brain:b");
+    expect((await brain.getAnalytics()).totalEntities).toBe(2);
+
+    await brain.startMaintenance({ tenants: [undefined], trigger: "manual" });
+    await settled();
+    expect(await brain.getAnalytics()).toMatchObject({
+      totalEntities: 1,
+      byType: { note: 1 },
+    });
+  });
+});
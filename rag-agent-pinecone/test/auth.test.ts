@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import worker from "../src/index";
+import { ApiKeyScope, AuthPrincipal, Env } from "../src/types";
+import { AuthService, hasScope } from "../src/utils/auth";
+import { createBrain, memoryKV, testEnv } from "./helpers";
+
+/** Auth on, rate limits off, keys in a KV namespace of its own */
+function authEnv(overrides: Partial<Env> = {}): Env {
+  return testEnv({
+    RAG_CACHE: memoryKV(),
+    RATE_LIMIT_DISABLED: "true",
+    ADMIN_API_KEY: "bootstrap-secret",
+    ...overrides,
+  });
+}
+
+/** Call the worker with `key` as the bearer token (none when undefined) */
+function client(env: Env) {
+  const ctx = {
+    waitUntil() {},
+    passThroughOnException() {},
+  } as unknown as ExecutionContext;
+  return (path: string, key?: string, init: RequestInit = {}) =>
+    worker.fetch(
+      new Request(`https://brain.test${path}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          ...(key && { Authorization: `Bearer ${key}` }),
+          ...init.headers,
+        },
+      }),
+      env,
+      ctx
+    );
+}
+
+async function issue(
+  env: Env,
+  organizationId: string,
+  scopes: ApiKeyScope[]
+): Promise<string> {
+  const issued = await new AuthService(env).issueKey({
+    name: `${organizationId} ${scopes.join(",")}`,
+    organizationId,
+    scopes,
+  });
+  return issued.key;
+}
+
+/** A unique organization, since the memory backend is shared */
+const org = (name: string) => `${name}-${crypto.randomUUID()}`;
+
+describe("hasScope", () => {
+  it("ranks admin over write over read", () => {
+    const principal = (scopes: ApiKeyScope[]) =>
+      ({ keyId: "k", scopes } as AuthPrincipal);
+    expect(hasScope(principal(["read"]), "read")).toBe(true);
+    expect(hasScope(principal(["read"]), "write")).toBe(false);
+    expect(hasScope(principal(["write"]), "read")).toBe(true);
+    expect(hasScope(principal(["write"]), "admin")).toBe(false);
+    expect(hasScope(principal(["admin"]), "write")).toBe(true);
+  });
+});
+
+describe("AuthService", () => {
+  it("resolves issued keys until they are revoked", async () => {
+    const env = authEnv();
+    const auth = new AuthService(env);
+    const { key, record } = await auth.issueKey({
+      name: "ci",
+      organizationId: "acme",
+      scopes: ["read", "read", "write"],
+    });
+    expect(record).not.toHaveProperty("keyHash");
+    expect(key.startsWith(record.prefix)).toBe(true);
+
+    const request = (token: string) =>
+      new Request("https://brain.test/brain/list", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    expect(await auth.authenticate(request(key))).toEqual({
+      keyId: record.id,
+      scopes: ["read", "write"],
+      organizationId: "acme",
+    });
+    expect(await auth.authenticate(request("rbk_unknown"))).toBeNull();
+    expect(
+      await auth.authenticate(new Request("https://brain.test/"))
+    ).toBeNull();
+    expect(await auth.authenticate(request("bootstrap-secret"))).toEqual({
+      keyId: "bootstrap-admin",
+      scopes: ["admin"],
+    });
+
+    expect(await auth.revokeKey(record.id, "globex")).toBeNull();
+    expect((await auth.revokeKey(record.id, "acme"))?.revokedAt).toBeDefined();
+    expect(await auth.authenticate(request(key))).toBeNull();
+    expect(await auth.listKeys("acme")).toHaveLength(1);
+    expect(await auth.listKeys("globex")).toEqual([]);
+  });
+});
+
+describe("API key scopes", () => {
+  it("rejects missing keys but not public routes", async () => {
+    const call = client(authEnv());
+    const res = await call("/brain/list");
+    expect(res.status).toBe(401);
+    expect(res.headers.get("WWW-Authenticate")).toContain("Bearer");
+    expect((await call("/health")).status).toBe(200);
+  });
+
+  it("needs write for writes and admin for analytics and keys", async () => {
+    const env = authEnv();
+    const call = client(env);
+    const tenant = org("scopes");
+    const reader = await issue(env, tenant, ["read"]);
+    const writer = await issue(env, tenant, ["write"]);
+    const create = (key: string) =>
+      call("/brain/create", key, {
+        method: "POST",
+        body: JSON.stringify({ id: "s", content: "scoped", type: "note" }),
+      });
+
+    const denied = await create(reader);
+    expect(denied.status).toBe(403);
+    expect(((await denied.json()) as any).message).toContain('"write"');
+    expect((await create(writer)).status).toBe(200);
+
+    expect((await call("/brain/get?id=s", reader)).status).toBe(200);
+    expect(
+      (
+        await call("/brain/read", reader, {
+          method: "POST",
+          body: JSON.stringify({ query: "scoped" }),
+        })
+      ).status
+    ).toBe(200);
+    expect((await call("/brain/analytics", writer)).status).toBe(403);
+    expect((await call("/admin/keys", writer)).status).toBe(403);
+  });
+});
+
+describe("organization binding", () => {
+  it("keeps bound keys in their organization", async () => {
+    const env = authEnv();
+    const call = client(env);
+    const acme = org("acme");
+    const globex = org("globex");
+    const acmeKey = await issue(env, acme, ["write"]);
+    const globexKey = await issue(env, globex, ["write"]);
+
+    // The header can't move a bound key to another tenant
+    const created = await call("/brain/create", acmeKey, {
+      method: "POST",
+      headers: { "X-Organization-Id": globex },
+      body: JSON.stringify({ id: "o", content: "acme only", type: "note" }),
+    });
+    expect(((await created.json()) as any).data.metadata.organizationId).toBe(
+      acme
+    );
+
+    const found = (key: string) =>
+      call("/brain/get?id=o", key).then((res) => res.json() as any);
+    expect((await found(acmeKey)).success).toBe(true);
+    expect((await found(globexKey)).success).toBe(false);
+  });
+
+  it("lets bound admins manage only their organization's keys", async () => {
+    const env = authEnv();
+    const call = client(env);
+    const acme = org("acme");
+    const admin = await issue(env, acme, ["admin"]);
+    await issue(env, org("globex"), ["read"]);
+
+    const listed = await call("/admin/keys", admin);
+    const keys = ((await listed.json()) as any).keys;
+    expect(keys.map((key: any) => key.organizationId)).toEqual([acme]);
+
+    const issueFor = (organizationId: string) =>
+      call("/admin/keys", admin, {
+        method: "POST",
+        body: JSON.stringify({
+          name: "more",
+          organizationId,
+          scopes: ["read"],
+        }),
+      });
+    expect((await issueFor("globex")).status).toBe(403);
+    expect((await issueFor(acme)).status).toBe(201);
+
+    const tenants = await call(`/admin/tenants?organizationId=${acme}`, admin, {
+      method: "DELETE",
+    });
+    expect(tenants.status).toBe(403);
+  });
+
+  it("stamps entities with the organization they are stored under", async () => {
+    const { brain } = createBrain({}, "stamped");
+    const created = await brain.create({
+      id: "e",
+      content: "x",
+      type: "note",
+      metadata: { organizationId: "other" } as any,
+    });
+    expect(created.data?.metadata.organizationId).toBe("stamped");
+
+    const updated = await brain.update("e", {
+      metadata: { organizationId: "other" } as any,
+    });
+    expect(updated.data?.metadata.organizationId).toBe("stamped");
+  });
+});
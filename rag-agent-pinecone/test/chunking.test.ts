@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  chunkByTokens,
+  estimateTokens,
+  splitSentences,
+  truncateToTokens,
+} from "../src/rag/chunking";
+
+/** The sentences splitSentences finds, as text */
+function sentences(text: string): string[] {
+  return splitSentences(text).map(({ start, end }) => text.slice(start, end));
+}
+
+describe("estimateTokens", () => {
+  it("counts words, symbols and extra pieces for long words", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("the cat sat.")).toBe(4);
+    expect(estimateTokens("internationalization")).toBe(5);
+    expect(estimateTokens("123456")).toBe(3);
+  });
+
+  it("truncates to the longest prefix within budget", () => {
+    expect(truncateToTokens("one two three four", 2)).toBe("one two");
+    expect(truncateToTokens("short", 10)).toBe("short");
+  });
+});
+
+describe("splitSentences", () => {
+  it("splits on terminal punctuation and paragraph breaks", () => {
+    expect(sentences('He left. "Why?" she asked!\n\nNew para')).toEqual([
+      "He left.",
+      '"Why?" she asked!',
+      "New para",
+    ]);
+  });
+
+  it("keeps abbreviations, initials, acronyms and decimals together", () => {
+    expect(
+      sentences(
+        "Dr. Smith paid 3.14 dollars. J. R. Tolkien wrote it. " +
+          "The U.S. Army arrived e.g. today."
+      )
+    ).toEqual([
+      "Dr. Smith paid 3.14 dollars.",
+      "J. R. Tolkien wrote it.",
+      "The U.S. Army arrived e.g. today.",
+    ]);
+  });
+
+  it("joins wrapped lines that continue in lowercase", () => {
+    expect(sentences("A line that\nwraps here. Next")).toEqual([
+      "A line that\nwraps here.",
+      "Next",
+    ]);
+  });
+});
+
+describe("chunkByTokens", () => {
+  const text = Array.from(
+    { length: 12 },
+    (_, i) => `Sentence number ${i} has a few words in it.`
+  ).join(" ");
+
+  it("slices the source and stays within the chunk size", () => {
+    const chunks = chunkByTokens(text, { chunkSize: 40, overlapTokens: 12 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(text.slice(chunk.start, chunk.end));
+      expect(chunk.tokens).toBeLessThanOrEqual(40);
+      expect(chunk.tokens).toBe(estimateTokens(chunk.text));
+    }
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+
+  it("starts each chunk with the previous chunk's last sentence", () => {
+    const chunks = chunkByTokens(text, { chunkSize: 40, overlapTokens: 12 });
+    for (let i = 1; i < chunks.length; i++) {
+      const last = sentences(chunks[i - 1].text).pop()!;
+      expect(chunks[i].text.startsWith(last)).toBe(true);
+    }
+  });
+
+  it("carries trailing words when no whole sentence fits the overlap", () => {
+    const chunks = chunkByTokens(text, { chunkSize: 30, overlapTokens: 4 });
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+      expect(text.slice(chunks[i].start, chunks[i - 1].end)).toBe(
+        "words in it."
+      );
+    }
+  });
+
+  it("splits words and blobs longer than a chunk", () => {
+    const blob = "x".repeat(400);
+    const chunks = chunkByTokens(`Intro. ${blob}`, {
+      chunkSize: 20,
+      overlapTokens: 0,
+    });
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe(`Intro.${blob}`);
+    for (const chunk of chunks) expect(chunk.tokens).toBeLessThanOrEqual(20);
+  });
+
+  it("returns one empty chunk for blank text", () => {
+    expect(chunkByTokens("  ", { chunkSize: 10, overlapTokens: 2 })).toEqual([
+      { text: "  ", start: 0, end: 2, tokens: 0 },
+    ]);
+  });
+});
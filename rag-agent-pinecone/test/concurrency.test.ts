@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { apiClient, createBrain } from "./helpers";
+
+describe("expectedVersion", () => {
+  it("writes only while the expected version is current", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "v", content: "a", type: "note" });
+
+    const ok = await brain.update(
+      "v",
+      { content: "b" },
+      { expectedVersion: 1 }
+    );
+    expect(ok.success).toBe(true);
+
+    const stale = await brain.update(
+      "v",
+      { content: "c" },
+      { expectedVersion: 1 }
+    );
+    expect(stale.success).toBe(false);
+    expect(stale.metadata?.conflict).toBe(true);
+    expect(stale.data?.metadata.version).toBe(2);
+    expect((await brain.getById("v")).data?.content).toBe("b");
+  });
+
+  it("guards deletes, patches and reverts too", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "g", content: "a", type: "note" });
+    await brain.update("g", { content: "b" });
+
+    const patch = await brain.patch(
+      "g",
+      "merge",
+      { content: "c" },
+      { expectedVersion: 1 }
+    );
+    expect(patch.metadata?.conflict).toBe(true);
+
+    const revert = await brain.revert("g", 1, { expectedVersion: 1 });
+    expect(revert.metadata?.conflict).toBe(true);
+
+    const del = await brain.delete("g", { expectedVersion: 1 });
+    expect(del.metadata?.conflict).toBe(true);
+    expect((await brain.getById("g")).success).toBe(true);
+  });
+});
+
+describe("If-Match", () => {
+  it("updates only while the ETag is current", async () => {
+    const call = apiClient();
+    await call("/brain/create", {
+      method: "POST",
+      body: JSON.stringify({ id: "m", content: "a", type: "note" }),
+    });
+
+    const update = (etag: string, content: string) =>
+      call("/brain/update?id=m", {
+        method: "PUT",
+        headers: { "If-Match": etag },
+        body: JSON.stringify({ content }),
+      });
+
+    const ok = await update('"v1"', "b");
+    expect(ok.status).toBe(200);
+    expect(ok.headers.get("ETag")).toBe('"v2"');
+
+    const stale = await update('"v1"', "c");
+    expect(stale.status).toBe(409);
+    expect(stale.headers.get("ETag")).toBe('"v2"');
+
+    expect((await update("v2", "d")).status).toBe(400);
+  });
+
+  it("guards deletes", async () => {
+    const call = apiClient();
+    await call("/brain/create", {
+      method: "POST",
+      body: JSON.stringify({ id: "d", content: "a", type: "note" }),
+    });
+
+    const stale = await call("/brain/delete?id=d", {
+      method: "DELETE",
+      headers: { "If-Match": '"v2"' },
+    });
+    expect(stale.status).toBe(409);
+
+    const ok = await call("/brain/delete?id=d", {
+      method: "DELETE",
+      headers: { "If-Match": '"v1"' },
+    });
+    expect(ok.status).toBe(200);
+  });
+});
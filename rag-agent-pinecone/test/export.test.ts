@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createBrain, exportAll } from "./helpers";
+
+describe("exportData", () => {
+  it("exports every live entity without embeddings", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "e1", content: "first", type: "note" });
+    await brain.create({ id: "e2", content: "second", type: "task" });
+    await brain.create({ id: "gone", content: "trashed", type: "note" });
+    await brain.delete("gone", { softDelete: true });
+
+    const exported = await exportAll(brain.exportData());
+    expect(exported.metadata.exportType).toBe("full");
+    expect(exported.totalEntities).toBe(2);
+    expect(exported.entities.map((e) => e.id)).toEqual(["e1", "e2"]);
+    expect(exported.entities[0].metadata.embedding).toBeUndefined();
+  });
+
+  it("filters, and streams NDJSON with a header line", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "n", content: "a note", type: "note" });
+    await brain.create({ id: "t", content: "a task", type: "task" });
+
+    let body = "";
+    for await (const chunk of brain.exportData({ type: "task" }, "ndjson")) {
+      body += chunk;
+    }
+    const [header, ...lines] = body
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(header.metadata).toMatchObject({
+      exportType: "filtered",
+      filters: { type: "task" },
+      format: "ndjson",
+    });
+    expect(lines.map((entity) => entity.id)).toEqual(["t"]);
+  });
+});
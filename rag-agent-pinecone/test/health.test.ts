@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import { Env } from "../src/types";
+import { apiClient, createBrain } from "./helpers";
+
+/** A brain of its own tenant, so results cached by others don't answer */
+function healthBrain(overrides: Partial<Env> = {}) {
+  return createBrain(overrides, `health-${crypto.randomUUID()}`);
+}
+
+describe("health", () => {
+  it("is healthy when every probe passes", async () => {
+    const { brain } = healthBrain();
+    const health = await brain.healthCheck();
+
+    expect(health.status).toBe("healthy");
+    expect(health.services).toEqual({
+      storage: "ok",
+      vectorDB: "ok",
+      embedding: "ok",
+      cache: "ok",
+    });
+    expect(health.checks?.embedding.detail).toBe("64 dimensions");
+  });
+
+  it("degrades when the vector store fails", async () => {
+    const { brain, vectors } = healthBrain();
+    vi.spyOn(vectors, "healthCheck").mockResolvedValue({
+      status: "unhealthy",
+      error: "index unreachable",
+    } as any);
+    const health = await brain.healthCheck();
+
+    expect(health.status).toBe("degraded");
+    expect(health.services.vectorDB).toBe("error");
+    expect(health.checks?.vectorDB.error).toBe("index unreachable");
+    expect(health.services.storage).toBe("ok");
+  });
+
+  it("degrades when a probe outlasts its timeout", async () => {
+    const { brain, vectors } = healthBrain();
+    vi.spyOn(vectors, "healthCheck").mockReturnValue(new Promise(() => {}));
+    const health = await brain.healthCheck();
+
+    expect(health.status).toBe("degraded");
+    expect(health.services.vectorDB).toBe("error");
+  }, 10_000);
+
+  it("is unhealthy when storage fails", async () => {
+    const { brain, storage } = healthBrain();
+    vi.spyOn(storage, "put").mockRejectedValue(new Error("KV down"));
+    const health = await brain.healthCheck();
+
+    expect(health.status).toBe("unhealthy");
+    expect(health.services.storage).toBe("error");
+    expect(health.checks?.storage.error).toBe("KV down");
+    expect(health.metrics?.storageUsage).toBe(0);
+  });
+
+  it("reuses a recent result instead of probing again", async () => {
+    const { brain, vectors } = healthBrain();
+    const probe = vi.spyOn(vectors, "healthCheck");
+
+    const first = await brain.healthCheck();
+    const second = await brain.healthCheck();
+    expect(second).toBe(first);
+    expect(probe).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves the result with the API version", async () => {
+    const api = apiClient();
+    const res = await api("/health");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    const body = (await res.json()) as any;
+    expect(body.status).toBe("healthy");
+    expect(body.version).toBeDefined();
+  });
+});
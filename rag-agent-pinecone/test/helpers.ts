@@ -0,0 +1,132 @@
+// test/helpers.ts - Offline brains: memory storage, memory vectors, hash embedder
+import worker from "../src/index";
+import { MemoryStorageBackend } from "../src/rag/backends";
+import { RAGBrainAgent } from "../src/rag/brain";
+import { MemoryVectorStore } from "../src/rag/vectors";
+import { DataExport, Env } from "../src/types";
+
+/** An Env needing no Workers bindings; indexing runs inline */
+export function testEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    PINECONE_ENVIRONMENT: "",
+    PINECONE_API_KEY: "",
+    AI: null,
+    RAG_CACHE: undefined as unknown as KVNamespace,
+    STORAGE_BACKEND: "memory",
+    VECTOR_STORE: "memory",
+    EMBEDDING_MODEL: "hash/64",
+    BACKGROUND_INDEXING: "false",
+    ...overrides,
+  };
+}
+
+/**
+ * A brain on its own fresh stores, so tests don't see each other's data.
+ * `settled` waits for what it handed to waitUntil, such as in-process jobs.
+ */
+export function createBrain(
+  overrides: Partial<Env> = {},
+  organizationId?: string
+) {
+  const vectors = new MemoryVectorStore();
+  const storage = new MemoryStorageBackend();
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+    passThroughOnException() {},
+  } as unknown as ExecutionContext;
+  const brain = new RAGBrainAgent(
+    testEnv(overrides),
+    organizationId,
+    "test",
+    ctx,
+    { storage, vectors }
+  );
+  const settled = async () => {
+    while (pending.length > 0) await pending.shift();
+  };
+  return { brain, vectors, storage, settled };
+}
+
+/**
+ * Agents for several organizations (undefined: the default tenant) sharing
+ * one set of fresh stores, as the tenants of one deployment do
+ */
+export function createTenants(overrides: Partial<Env> = {}) {
+  const env = testEnv(overrides);
+  const vectors = new MemoryVectorStore();
+  const storage = new MemoryStorageBackend();
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+    passThroughOnException() {},
+  } as unknown as ExecutionContext;
+  const agent = (organizationId?: string) =>
+    new RAGBrainAgent(env, organizationId, "test", ctx, { storage, vectors });
+  const settled = async () => {
+    while (pending.length > 0) await pending.shift();
+  };
+  return { env, vectors, storage, agent, settled };
+}
+
+/** A KV namespace in a Map: enough of get/put/delete/list for API keys */
+export function memoryKV(): KVNamespace {
+  const values = new Map<string, string>();
+  return {
+    async get(key: string) {
+      return values.get(key) ?? null;
+    },
+    async put(key: string, value: string) {
+      values.set(key, value);
+    },
+    async delete(key: string) {
+      values.delete(key);
+    },
+    async list(options: { prefix?: string } = {}) {
+      const keys = [...values.keys()]
+        .filter((name) => name.startsWith(options.prefix ?? ""))
+        .sort()
+        .map((name) => ({ name }));
+      return { keys, list_complete: true, cacheStatus: null };
+    },
+  } as unknown as KVNamespace;
+}
+
+/** Collect an exportData stream into the DataExport it encodes */
+export async function exportAll(
+  chunks: AsyncGenerator<string>
+): Promise<DataExport> {
+  let body = "";
+  for await (const chunk of chunks) body += chunk;
+  return JSON.parse(body);
+}
+
+/**
+ * Call the worker, auth and rate limits off, as a tenant of its own; the
+ * memory backend is shared
+ */
+export function apiClient(overrides: Partial<Env> = {}) {
+  const env = testEnv({
+    AUTH_DISABLED: "true",
+    RATE_LIMIT_DISABLED: "true",
+    ...overrides,
+  });
+  const ctx = {
+    waitUntil() {},
+    passThroughOnException() {},
+  } as unknown as ExecutionContext;
+  const organizationId = `api-${crypto.randomUUID()}`;
+  return (path: string, init: RequestInit = {}) =>
+    worker.fetch(
+      new Request(`https://brain.test${path}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          "X-Organization-Id": organizationId,
+          ...init.headers,
+        },
+      }),
+      env,
+      ctx
+    );
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { BrainEntity } from "../src/types";
+import { createBrain, exportAll } from "./helpers";
+
+describe("importData", () => {
+  it("round-trips entities through an export", async () => {
+    const source = createBrain().brain;
+    await source.create({
+      id: "e1",
+      content: "first",
+      type: "note",
+      metadata: { category: "a" },
+    });
+    await source.create({ id: "e2", content: "second", type: "task" });
+    await source.update("e2", { content: "second, edited" });
+
+    const exported = await exportAll(source.exportData());
+    const target = createBrain().brain;
+    const imported = await target.importData({
+      entities: exported.entities,
+      options: { preserveIds: true },
+    });
+    expect(imported.summary.successful).toBe(2);
+
+    const e2 = (await target.getById("e2")).data as BrainEntity;
+    expect(e2.content).toBe("second, edited");
+    expect(e2.metadata.version).toBe(2);
+    expect((await target.getById("e1")).data?.metadata.category).toBe("a");
+  });
+
+  it("skips or updates existing ids as asked", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "x", content: "original", type: "note" });
+    const entities = [{ id: "x", content: "incoming", type: "note" }];
+
+    const skipped = await brain.importData({
+      entities,
+      options: { preserveIds: true, skipExisting: true },
+    });
+    expect(skipped.summary.successful).toBe(1);
+    expect((await brain.getById("x")).data?.content).toBe("original");
+
+    const refused = await brain.importData({
+      entities,
+      options: { preserveIds: true },
+    });
+    expect(refused.summary.failed).toBe(1);
+
+    await brain.importData({
+      entities,
+      options: { preserveIds: true, updateExisting: true },
+    });
+    expect((await brain.getById("x")).data?.content).toBe("incoming");
+  });
+
+  it("continues the history of an entity it replaces", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "h", content: "one", type: "note" });
+    await brain.update("h", { content: "two" });
+    await brain.update("h", { content: "three" });
+
+    const res = await brain.importData({
+      entities: [
+        { id: "h", content: "old", type: "note", metadata: { version: 1 } },
+      ],
+      options: { preserveIds: true, updateExisting: true },
+    });
+    expect(res.results[0].data?.metadata.version).toBe(4);
+    expect((await brain.getVersion("h", 1)).data?.content).toBe("one");
+    expect((await brain.getVersion("h", 3)).data?.content).toBe("three");
+  });
+
+  it("stores an id repeated in one batch in order", async () => {
+    const { brain } = createBrain();
+    const entities = [
+      { id: "d", content: "first copy", type: "note" },
+      { id: "d", content: "second copy", type: "note" },
+    ];
+
+    const refused = await brain.importData({
+      entities,
+      options: { preserveIds: true },
+    });
+    expect(refused.summary).toMatchObject({ successful: 1, failed: 1 });
+    expect((await brain.getById("d")).data?.content).toBe("first copy");
+
+    const { brain: other, vectors } = createBrain();
+    const replaced = await other.importData({
+      entities,
+      options: { preserveIds: true, updateExisting: true },
+    });
+    expect(replaced.summary.successful).toBe(2);
+    const d = (await other.getById("d")).data as BrainEntity;
+    expect(d.content).toBe("second copy");
+    expect(d.metadata.version).toBe(2);
+    expect((await other.getVersion("d", 1)).data?.content).toBe("first copy");
+    expect((await vectors.listIds({ prefix: "d_" })).ids).toHaveLength(1);
+  });
+
+  it("creates fresh ids without preserveIds", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "x", content: "original", type: "note" });
+
+    const res = await brain.importData({
+      entities: [{ id: "x", content: "copy", type: "note" }],
+    });
+    expect(res.summary.successful).toBe(1);
+    expect(res.results[0].data?.id).not.toBe("x");
+    expect((await brain.getById("x")).data?.content).toBe("original");
+  });
+});
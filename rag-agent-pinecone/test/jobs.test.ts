@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest";
+import { CRUDResult, Env, JobMessage } from "../src/types";
+import { apiClient, createBrain } from "./helpers";
+
+describe("background jobs", () => {
+  it("indexes new entities in a job", async () => {
+    const { brain, vectors, settled } = createBrain({
+      BACKGROUND_INDEXING: "true",
+    });
+    const created = await brain.create({
+      id: "bg",
+      content: "indexed later",
+      type: "note",
+    });
+    const jobId = created.metadata?.jobId;
+    expect(jobId).toBeDefined();
+
+    await settled();
+    expect(await brain.getJob(jobId)).toMatchObject({
+      status: "completed",
+      progress: 100,
+    });
+    expect((await vectors.listIds({ prefix: "bg_" })).ids).toHaveLength(1);
+  });
+
+  it("fails after the last attempt and resumes on retry", async () => {
+    const { brain, storage, settled } = createBrain();
+    await brain.bulkCreate(
+      Array.from({ length: 60 }, (_, i) => ({
+        id: `r${i}`,
+        content: `entity ${i}`,
+        type: "note",
+      })),
+      { skipIndexing: true }
+    );
+
+    // The second page of the rebuild can't be read
+    const list = storage.list.bind(storage);
+    const broken = vi
+      .spyOn(storage, "list")
+      .mockImplementation(async (options) => {
+        if (options.cursor) throw new Error("backend down");
+        return list(options);
+      });
+    const job = await brain.startIndexRebuild();
+    await settled();
+    const failed = await brain.getJob(job.id);
+    expect(failed).toMatchObject({ status: "failed", error: "backend down" });
+    expect(failed?.metadata).toMatchObject({ indexed: 50, attempts: 3 });
+    expect(failed?.metadata?.cursor).toBeDefined();
+
+    broken.mockRestore();
+    expect((await brain.retryJob(job.id))?.retried).toBe(true);
+    await settled();
+    const retried = await brain.getJob(job.id);
+    expect(retried?.status).toBe("completed");
+    expect(retried?.metadata).toMatchObject({ indexed: 60 });
+
+    expect((await brain.retryJob(job.id))?.retried).toBe(false);
+    expect(await brain.retryJob("missing")).toBeNull();
+  });
+
+  it("retries a failed job over HTTP", async () => {
+    const sent: JobMessage[] = [];
+    let down = true;
+    const queue = {
+      async send(message: JobMessage) {
+        if (down) throw new Error("queue down");
+        sent.push(message);
+      },
+    };
+    const call = apiClient({
+      BACKGROUND_INDEXING: "true",
+      INDEX_QUEUE: queue as unknown as Env["INDEX_QUEUE"],
+    });
+
+    const created = await call("/brain/create", {
+      method: "POST",
+      body: JSON.stringify({ id: "q", content: "queued", type: "note" }),
+    });
+    const jobId = ((await created.json()) as CRUDResult).metadata?.jobId;
+    const status: any = await (await call(`/brain/jobs/${jobId}`)).json();
+    expect(status.job).toMatchObject({
+      status: "failed",
+      error: "Dispatch failed: queue down",
+    });
+
+    down = false;
+    const retry = () => call(`/brain/jobs/${jobId}/retry`, { method: "POST" });
+    expect((await retry()).status).toBe(202);
+    expect(sent).toEqual([expect.objectContaining({ jobId })]);
+    expect((await retry()).status).toBe(409);
+    const missing = await call("/brain/jobs/missing/retry", { method: "POST" });
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  listRegisteredTenants,
+  loadMaintenanceReport,
+} from "../src/rag/storage";
+import { createBrain, createTenants } from "./helpers";
+import { createMemoryDatabase } from "./sqlite";
+
+/** Enough sentences to take several chunks */
+const longContent = Array.from(
+  { length: 300 },
+  (_, i) => `Sentence ${i} of the long maintenance note.`
+).join(" ");
+
+describe("maintenance", () => {
+  it("counts the vectors it removes for entities that vanished", async () => {
+    const { brain, vectors, storage, settled } = createBrain();
+    await brain.create({ id: "long", content: longContent, type: "note" });
+    await brain.create({ id: "bare", content: "short", type: "note" });
+    await brain.create({ id: "kept", content: "still here", type: "note" });
+    const chunks = (await vectors.listIds({ prefix: "long_" })).ids;
+    expect(chunks.length).toBeGreaterThan(1);
+
+    // Expired through their KV TTL; "bare" had already lost its vectors
+    await storage.delete("brain:long");
+    await storage.delete("brain:bare");
+    await vectors.deleteById((await vectors.listIds({ prefix: "bare_" })).ids);
+
+    await brain.startMaintenance({ tenants: [undefined], trigger: "manual" });
+    await settled();
+    const report = await loadMaintenanceReport(storage);
+    expect(report?.tenants[0]).toMatchObject({
+      orphanVectorsRemoved: chunks.length,
+      errors: [],
+    });
+    expect(report?.totals.orphanVectorsRemoved).toBe(chunks.length);
+    expect((await vectors.listIds({ prefix: "long_" })).ids).toEqual([]);
+    expect((await vectors.listIds({ prefix: "kept_" })).ids).toHaveLength(1);
+  });
+
+  it("lists organizations from their registry keys until deleted", async () => {
+    const { env, storage, agent, settled } = createTenants();
+    await agent("globex").create({ id: "g", content: "x", type: "note" });
+    await agent("acme").create({ id: "a", content: "x", type: "note" });
+    await agent().create({ id: "d", content: "x", type: "note" });
+
+    expect((await listRegisteredTenants(env, storage)).sort()).toEqual([
+      "acme",
+      "globex",
+    ]);
+
+    await agent().startTenantDeletion("acme");
+    await settled();
+    expect(await listRegisteredTenants(env, storage)).toEqual(["globex"]);
+  });
+
+  it("lists organizations from the metadata mirror with BRAIN_DB", async () => {
+    const { env, storage, agent, settled } = createTenants({
+      BRAIN_DB: createMemoryDatabase(),
+    });
+    await agent("globex").create({ id: "g", content: "x", type: "note" });
+    await agent("acme").create({ id: "a", content: "x", type: "note" });
+
+    expect(await listRegisteredTenants(env, storage)).toEqual([
+      "acme",
+      "globex",
+    ]);
+    expect((await storage.list({ prefix: "tenant:" })).keys).toEqual([]);
+
+    await agent().startTenantDeletion("acme");
+    await settled();
+    expect(await listRegisteredTenants(env, storage)).toEqual(["globex"]);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  JsonPatchOperation,
+  PatchError,
+} from "../src/utils/patch";
+import { createBrain } from "./helpers";
+
+/** The PatchError a patch throws, or undefined if it applies */
+function patchError(
+  document: any,
+  operations: JsonPatchOperation[]
+): PatchError | undefined {
+  try {
+    applyJsonPatch(document, operations);
+  } catch (error) {
+    if (error instanceof PatchError) return error;
+    throw error;
+  }
+}
+
+describe("applyMergePatch", () => {
+  it("merges objects recursively and deletes on null", () => {
+    const target = { a: 1, b: { c: 2, d: 3 }, e: [1, 2] };
+    const result = applyMergePatch(target, { a: null, b: { d: 4 }, e: [3] });
+    expect(result).toEqual({ b: { c: 2, d: 4 }, e: [3] });
+    expect(target).toEqual({ a: 1, b: { c: 2, d: 3 }, e: [1, 2] });
+  });
+
+  it("replaces the target when the patch is not an object", () => {
+    expect(applyMergePatch({ a: 1 }, "text")).toBe("text");
+    expect(applyMergePatch("text", { a: 1 })).toEqual({ a: 1 });
+  });
+
+  it("ignores __proto__ keys", () => {
+    const patch = JSON.parse('{"__proto__": {"polluted": true}, "a": 1}');
+    const result = applyMergePatch({}, patch);
+    expect(result).toEqual({ a: 1 });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
+
+describe("applyJsonPatch", () => {
+  it("applies every operation in order", () => {
+    const document = { a: 1, list: ["x", "z"], nested: { b: 2 } };
+    const result = applyJsonPatch(document, [
+      { op: "add", path: "/list/1", value: "y" },
+      { op: "add", path: "/list/-", value: "end" },
+      { op: "replace", path: "/a", value: 10 },
+      { op: "move", from: "/nested/b", path: "/b" },
+      { op: "copy", from: "/list/0", path: "/first" },
+      { op: "remove", path: "/nested" },
+      { op: "test", path: "/b", value: 2 },
+    ]);
+    expect(result).toEqual({
+      a: 10,
+      b: 2,
+      first: "x",
+      list: ["x", "y", "z", "end"],
+    });
+    expect(document).toEqual({ a: 1, list: ["x", "z"], nested: { b: 2 } });
+  });
+
+  it("unescapes ~0 and ~1 in pointers", () => {
+    const result = applyJsonPatch({ "a/b": 1, "c~d": 2 }, [
+      { op: "remove", path: "/a~1b" },
+      { op: "replace", path: "/c~0d", value: 3 },
+    ]);
+    expect(result).toEqual({ "c~d": 3 });
+  });
+
+  it("points errors at the failing operation and field", () => {
+    const document = { a: 1, list: [1] };
+    expect(
+      patchError(document, [
+        { op: "replace", path: "/a", value: 2 },
+        { op: "test", path: "/a", value: 1 },
+      ])?.path
+    ).toBe("/1/value");
+    expect(patchError(document, [{ op: "remove", path: "/b" }])?.path).toBe(
+      "/0/path"
+    );
+    expect(patchError(document, [{ op: "copy", path: "/b" }])?.path).toBe(
+      "/0/from"
+    );
+    expect(
+      patchError(document, [{ op: "add", path: "/list/5", value: 0 }])?.path
+    ).toBe("/0/path");
+    expect(
+      patchError(document, [{ op: "bogus", path: "/a" } as any])?.path
+    ).toBe("/0/op");
+  });
+
+  it("rejects moves into a value's own children", () => {
+    const error = patchError({ a: { b: {} } }, [
+      { op: "move", from: "/a", path: "/a/b/c" },
+    ]);
+    expect(error?.path).toBe("/0/path");
+  });
+
+  it("tests values structurally, ignoring member order", () => {
+    const document = { a: { x: 1, y: [1, { z: 2 }] } };
+    expect(
+      patchError(document, [
+        { op: "test", path: "/a", value: { y: [1, { z: 2 }], x: 1 } },
+      ])
+    ).toBeUndefined();
+    expect(
+      patchError(document, [
+        { op: "test", path: "/a", value: { x: 1, y: [{ z: 2 }, 1] } },
+      ])?.path
+    ).toBe("/0/value");
+    expect(
+      patchError(document, [{ op: "test", path: "/a", value: { x: 1 } }])?.path
+    ).toBe("/0/value");
+  });
+
+  it("doesn't resolve inherited properties", () => {
+    expect(
+      patchError({ a: 1 }, [{ op: "replace", path: "/toString", value: 1 }])
+        ?.path
+    ).toBe("/0/path");
+    expect(
+      patchError({ a: 1 }, [{ op: "test", path: "/constructor", value: {} }])
+        ?.path
+    ).toBe("/0/path");
+    expect(
+      patchError({ a: 1 }, [{ op: "remove", path: "/hasOwnProperty" }])?.path
+    ).toBe("/0/path");
+    expect(
+      patchError({ a: 1 }, [{ op: "add", path: "/valueOf/x", value: 1 }])?.path
+    ).toBe("/0/path");
+  });
+
+  it("rejects __proto__ and whole-document pointers", () => {
+    expect(
+      patchError({}, [{ op: "add", path: "/__proto__/x", value: 1 }])
+    ).toBeInstanceOf(PatchError);
+    expect(
+      patchError({}, [{ op: "replace", path: "", value: {} }])
+    ).toBeInstanceOf(PatchError);
+    expect(({} as any).x).toBeUndefined();
+  });
+});
+
+describe("brain.patch", () => {
+  it("applies merge patches to content and metadata", async () => {
+    const { brain } = createBrain();
+    await brain.create({
+      id: "p",
+      content: "hello",
+      type: "note",
+      metadata: { category: "a", tags: ["x"] },
+    });
+
+    const res = await brain.patch("p", "merge", {
+      metadata: { category: null, priority: "high" },
+    });
+    expect(res.success).toBe(true);
+    expect(res.data?.metadata.category).toBeUndefined();
+    expect(res.data?.metadata).toMatchObject({ priority: "high", version: 2 });
+  });
+
+  it("applies JSON Patch operations", async () => {
+    const { brain } = createBrain();
+    await brain.create({
+      id: "j",
+      content: "hello",
+      type: "note",
+      metadata: { tags: ["x"] },
+    });
+
+    const res = await brain.patch("j", "json", [
+      { op: "test", path: "/content", value: "hello" },
+      { op: "add", path: "/metadata/tags/-", value: "y" },
+      { op: "replace", path: "/content", value: "world" },
+    ]);
+    expect(res.success).toBe(true);
+    expect(res.data?.content).toBe("world");
+    expect(res.data?.metadata.tags).toEqual(["x", "y"]);
+  });
+
+  it("reports patches that fail or touch system metadata", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "bad", content: "hello", type: "note" });
+
+    const failed = await brain.patch("bad", "json", [
+      { op: "test", path: "/content", value: "nope" },
+    ]);
+    expect(failed.success).toBe(false);
+    expect(failed.metadata?.errors?.[0].path).toBe("/0/value");
+
+    const system = await brain.patch("bad", "merge", {
+      metadata: { version: 5 },
+    });
+    expect(system.success).toBe(false);
+    expect(system.metadata?.errors).toContainEqual(
+      expect.objectContaining({ path: "/metadata/version" })
+    );
+
+    const removed = await brain.patch("bad", "json", [
+      { op: "remove", path: "/content" },
+    ]);
+    expect(removed.success).toBe(false);
+    expect((await brain.getById("bad")).data?.metadata.version).toBe(1);
+  });
+
+  it("strips system metadata from updates", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "s1", content: "x", type: "note" });
+
+    const res = await brain.update("s1", {
+      metadata: { version: 99, createdBy: "someone", tag: "kept" } as any,
+    });
+    expect(res.data?.metadata).toMatchObject({
+      version: 2,
+      createdBy: "test",
+      tag: "kept",
+    });
+  });
+
+  it("refuses to trash an entity through a write", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "s2", content: "x", type: "note" });
+
+    const res = await brain.patch("s2", "merge", {
+      metadata: { status: "deleted" },
+    });
+    expect(res.success).toBe(false);
+    expect((await brain.getById("s2")).success).toBe(true);
+  });
+});
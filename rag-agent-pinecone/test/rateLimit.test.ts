@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { clientKey, RateLimiter, routePattern } from "../src/utils/rateLimit";
+import { AuthPrincipal } from "../src/types";
+import { testEnv } from "./helpers";
+
+/** A request from its own IP, so counters from other tests don't apply */
+function request(path: string, ip: string = crypto.randomUUID()): Request {
+  return new Request(`https://brain.test${path}`, {
+    headers: { "CF-Connecting-IP": ip },
+  });
+}
+
+describe("routePattern and clientKey", () => {
+  it("collapses ids and aliases into one bucket", () => {
+    expect(routePattern("/brain/entity/abc")).toBe("/brain/entity/:id");
+    expect(routePattern("/brain/jobs/123")).toBe("/brain/jobs/:id");
+    expect(routePattern("/brain/query")).toBe("/brain/read");
+    expect(routePattern("/brain/create")).toBe("/brain/create");
+  });
+
+  it("buckets by key id, falling back to the client IP", () => {
+    const req = request("/brain/get", "1.2.3.4");
+    const principal = { keyId: "k1" } as AuthPrincipal;
+    const disabled = { keyId: "auth-disabled" } as AuthPrincipal;
+    expect(clientKey(req, principal)).toBe("key:k1");
+    expect(clientKey(req, disabled)).toBe("ip:1.2.3.4");
+    expect(clientKey(req, null)).toBe("ip:1.2.3.4");
+  });
+});
+
+describe("RateLimiter", () => {
+  it("allows up to the limit, then blocks with Retry-After", async () => {
+    const limiter = new RateLimiter(testEnv(), {
+      "*": { windowMs: 60_000, maxRequests: 2 },
+    });
+    const req = request("/brain/get");
+
+    const first = await limiter.check(req, null);
+    expect(first).toMatchObject({ allowed: true, remaining: 1 });
+    expect((await limiter.check(req, null))?.allowed).toBe(true);
+
+    const blocked = (await limiter.check(req, null))!;
+    expect(blocked.allowed).toBe(false);
+    const headers = limiter.headers(blocked);
+    expect(headers["X-RateLimit-Remaining"]).toBe("0");
+    expect(Number(headers["Retry-After"])).toBeGreaterThan(0);
+
+    // Another client has its own bucket
+    expect((await limiter.check(request("/brain/get"), null))?.allowed).toBe(
+      true
+    );
+  });
+
+  it("limits routes separately and matches ids to their pattern", async () => {
+    const limiter = new RateLimiter(testEnv(), {
+      "/brain/entity/:id": { windowMs: 60_000, maxRequests: 1 },
+      "*": { windowMs: 60_000, maxRequests: 5 },
+    });
+    const ip = crypto.randomUUID();
+    const allowed = async (path: string) =>
+      (await limiter.check(request(path, ip), null))?.allowed;
+
+    expect(await allowed("/brain/entity/a")).toBe(true);
+    expect(await allowed("/brain/entity/b")).toBe(false);
+    expect(await allowed("/brain/list")).toBe(true);
+  });
+
+  it("charges only failures when skipping successful requests", async () => {
+    const limiter = new RateLimiter(testEnv(), {
+      "*": { windowMs: 60_000, maxRequests: 1, skipSuccessfulRequests: true },
+    });
+    const req = request("/auth/login");
+
+    const ok = (await limiter.check(req, null))!;
+    await limiter.record(ok, 200);
+    const failed = (await limiter.check(req, null))!;
+    expect(failed.allowed).toBe(true);
+    await limiter.record(failed, 401);
+
+    expect((await limiter.check(req, null))?.allowed).toBe(false);
+  });
+
+  it("is skipped when disabled and for preflights", async () => {
+    const disabled = new RateLimiter(testEnv({ RATE_LIMIT_DISABLED: "true" }));
+    expect(await disabled.check(request("/brain/get"), null)).toBeNull();
+
+    const limiter = new RateLimiter(testEnv());
+    const preflight = new Request("https://brain.test/brain/get", {
+      method: "OPTIONS",
+    });
+    expect(await limiter.check(preflight, null)).toBeNull();
+  });
+});
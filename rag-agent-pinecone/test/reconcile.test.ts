@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { ConsistencyReport } from "../src/types";
+import { apiClient, createBrain } from "./helpers";
+
+const longContent = Array.from(
+  { length: 200 },
+  (_, i) => `Sentence ${i} of a note long enough for several chunks.`
+).join(" ");
+
+/** A brain with one entity showing each kind of issue, and one healthy */
+async function inconsistentBrain() {
+  const created = createBrain();
+  const { brain, vectors, storage } = created;
+  await brain.create({ id: "ok", content: "all good", type: "note" });
+
+  await brain.create(
+    { id: "missing", content: "never embedded", type: "note" },
+    { skipIndexing: true }
+  );
+
+  await brain.create({ id: "partial", content: longContent, type: "note" });
+  await vectors.deleteById(["partial_chunk_1"]);
+
+  await brain.create({ id: "stale", content: "new text", type: "note" });
+  const { vectors: stored } = await vectors.fetch(["stale_chunk_0"]);
+  const vector = stored["stale_chunk_0"];
+  await vectors.upsert([
+    { ...vector, metadata: { ...vector.metadata, content: "old text" } },
+  ]);
+
+  await brain.create({ id: "unmarked", content: "indexed", type: "note" });
+  const raw = JSON.parse((await storage.get("brain:unmarked"))!);
+  raw.metadata.indexed = false;
+  await storage.put("brain:unmarked", JSON.stringify(raw));
+
+  await brain.create({ id: "orphan", content: "expired", type: "note" });
+  await storage.delete("brain:orphan");
+
+  return created;
+}
+
+async function reconcile(
+  created: ReturnType<typeof createBrain>,
+  fix: boolean
+): Promise<ConsistencyReport> {
+  const { job } = await created.brain.startReconcile({ fix });
+  await created.settled();
+  const done = await created.brain.getJob(job!.id);
+  expect(done?.status).toBe("completed");
+  return done?.metadata?.report;
+}
+
+describe("reconcile", () => {
+  it("reports each kind of inconsistency", async () => {
+    const created = await inconsistentBrain();
+    const report = await reconcile(created, false);
+
+    expect(report).toMatchObject({
+      fix: false,
+      entitiesChecked: 5,
+      orphanScan: "complete",
+      fixed: 0,
+      truncated: false,
+      counts: {
+        missing_vectors: 1,
+        chunk_mismatch: 1,
+        stale_content: 1,
+        not_marked_indexed: 1,
+        orphan_vectors: 1,
+      },
+    });
+    const kinds = Object.fromEntries(
+      report.issues.map((issue) => [issue.id, issue.kind])
+    );
+    expect(kinds).toEqual({
+      missing: "missing_vectors",
+      partial: "chunk_mismatch",
+      stale: "stale_content",
+      unmarked: "not_marked_indexed",
+      orphan: "orphan_vectors",
+    });
+    expect(
+      (await created.vectors.listIds({ prefix: "orphan_" })).ids
+    ).toHaveLength(1);
+  });
+
+  it("repairs what it finds with fix", async () => {
+    const created = await inconsistentBrain();
+    const fixed = await reconcile(created, true);
+    expect(fixed.fixed).toBe(5);
+    expect(fixed.issues.every((issue) => issue.fixed)).toBe(true);
+
+    const after = await reconcile(created, false);
+    expect(after.counts).toEqual({});
+    expect(after.issues).toEqual([]);
+    expect((await created.vectors.listIds({ prefix: "orphan_" })).ids).toEqual(
+      []
+    );
+    expect(
+      (await created.brain.getById("unmarked")).data?.metadata.indexed
+    ).toBe(true);
+  });
+
+  it("flags vectors left behind by a trashed entity", async () => {
+    const created = createBrain();
+    const { brain, vectors } = created;
+    await brain.create({ id: "t", content: "to the trash", type: "note" });
+    const { vectors: stored } = await vectors.fetch(["t_chunk_0"]);
+    await brain.delete("t", { softDelete: true });
+    await vectors.upsert([stored["t_chunk_0"]]);
+
+    const report = await reconcile(created, false);
+    expect(report.counts).toEqual({ orphan_vectors: 1 });
+    expect(report.issues[0]).toMatchObject({
+      id: "t",
+      vectorIds: ["t_chunk_0"],
+    });
+  });
+
+  it("starts from POST /admin/reconcile", async () => {
+    const call = apiClient();
+    const res = await call("/admin/reconcile?fix=true", { method: "POST" });
+    expect(res.status).toBe(202);
+    const body = (await res.json()) as any;
+    expect(body.job.metadata).toMatchObject({
+      task: "reconcile",
+      report: { fix: true },
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { BrainData } from "../src/types";
+import { createBrain } from "./helpers";
+import { createMemoryDatabase } from "./sqlite";
+
+/** Notes sharing one text; all archived and tagged but the first `active` */
+function notes(count: number, active: number): BrainData[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `n${String(i).padStart(4, "0")}`,
+    content: "quarterly planning notes for the search team",
+    type: "note",
+    metadata:
+      i < active
+        ? { status: "active" as const, tags: ["keep"] }
+        : { status: "archived" as const, tags: ["keep", "later"] },
+  }));
+}
+
+/** Ids a semantic read returns for the shared text */
+async function searchIds(
+  brain: ReturnType<typeof createBrain>["brain"],
+  options: Record<string, any>
+): Promise<string[]> {
+  const result = await brain.read("quarterly planning notes", {
+    threshold: 0,
+    limit: 2000,
+    ...options,
+  });
+  return result.sources.map((source) => source.id).sort();
+}
+
+describe("semantic search filters", () => {
+  it("prefilters candidates on the SQL side", async () => {
+    const { brain } = createBrain({ BRAIN_DB: createMemoryDatabase() });
+    await brain.bulkCreate(notes(5, 2));
+
+    expect(await searchIds(brain, { status: "active" })).toEqual([
+      "n0000",
+      "n0001",
+    ]);
+    expect(await searchIds(brain, { tags: ["keep", "later"] })).toEqual([
+      "n0002",
+      "n0003",
+      "n0004",
+    ]);
+  });
+
+  it("keeps status and tag filters when too many ids match", async () => {
+    const { brain } = createBrain({ BRAIN_DB: createMemoryDatabase() });
+    // More archived notes than the prefilter takes
+    await brain.bulkCreate(notes(1005, 3), { batchSize: 100 });
+    const archived = notes(1005, 3)
+      .slice(3)
+      .map((note) => note.id);
+
+    expect(await searchIds(brain, { status: "archived" })).toEqual(archived);
+    expect(await searchIds(brain, { tags: ["keep", "later"] })).toEqual(
+      archived
+    );
+  }, 60_000);
+});
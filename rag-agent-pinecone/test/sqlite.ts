@@ -0,0 +1,81 @@
+// test/sqlite.ts - In-memory SQLite (sql.js) behind the slice of the D1 API the stores use
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from "sql.js";
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/** A prepared statement; compiled when run, so it works before sql.js loads */
+class MemoryStatement {
+  constructor(
+    private database: Promise<Database>,
+    private sql: string,
+    private params: SqlValue[] = []
+  ) {}
+
+  bind(...params: unknown[]): MemoryStatement {
+    return new MemoryStatement(this.database, this.sql, params as SqlValue[]);
+  }
+
+  async all<T>(): Promise<{ success: true; results: T[] }> {
+    return this.execute<T>(await this.database);
+  }
+
+  async run<T>(): Promise<{ success: true; results: T[] }> {
+    return this.all<T>();
+  }
+
+  async first<T>(): Promise<T | null> {
+    const { results } = await this.all<T>();
+    return results[0] ?? null;
+  }
+
+  /** Synchronous, so a batch runs inside one transaction */
+  execute<T>(db: Database): { success: true; results: T[] } {
+    const statement = db.prepare(this.sql);
+    try {
+      statement.bind(this.params);
+      const results: T[] = [];
+      while (statement.step()) results.push(statement.getAsObject() as T);
+      return { success: true, results };
+    } finally {
+      statement.free();
+    }
+  }
+}
+
+class MemoryDatabase {
+  private database: Promise<Database>;
+
+  constructor() {
+    sqlJs ??= initSqlJs();
+    this.database = sqlJs.then((SQL) => new SQL.Database());
+  }
+
+  prepare(sql: string): MemoryStatement {
+    return new MemoryStatement(this.database, sql);
+  }
+
+  /** Like D1, all statements apply or none do */
+  async batch<T>(
+    statements: MemoryStatement[]
+  ): Promise<Array<{ success: true; results: T[] }>> {
+    const db = await this.database;
+    db.run("BEGIN");
+    try {
+      const results = statements.map((statement) => statement.execute<T>(db));
+      db.run("COMMIT");
+      return results;
+    } catch (error) {
+      db.run("ROLLBACK");
+      throw error;
+    }
+  }
+}
+
+/**
+ * A fresh in-memory SQLite database to pass as BRAIN_DB, so tests run the
+ * index, metadata and stats stores' D1 SQL. Only prepare/bind/all/run/first
+ * and batch are implemented.
+ */
+export function createMemoryDatabase(): D1Database {
+  return new MemoryDatabase() as unknown as D1Database;
+}
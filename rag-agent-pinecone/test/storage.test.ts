@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  MemoryStorageBackend,
+  createStorageBackend,
+} from "../src/rag/backends";
+import { createBrain, testEnv } from "./helpers";
+import { createMemoryDatabase } from "./sqlite";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("MemoryStorageBackend", () => {
+  it("gets, puts and deletes values", async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.put("a", "1");
+    expect(await backend.get("a")).toBe("1");
+    await backend.delete("a");
+    expect(await backend.get("a")).toBeNull();
+  });
+
+  it("expires keys after their TTL", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const backend = new MemoryStorageBackend();
+    await backend.put("short", "x", { expirationTtl: 60 });
+
+    vi.setSystemTime(Date.now() + 59_000);
+    expect(await backend.get("short")).toBe("x");
+    vi.setSystemTime(Date.now() + 2_000);
+    expect(await backend.get("short")).toBeNull();
+    expect((await backend.list({ prefix: "" })).keys).toEqual([]);
+  });
+
+  it("lists keys by prefix in order, a page at a time", async () => {
+    const backend = new MemoryStorageBackend();
+    for (const key of ["p:c", "p:a", "q:z", "p:b"]) {
+      await backend.put(key, key);
+    }
+
+    const first = await backend.list({ prefix: "p:", limit: 2 });
+    expect(first).toEqual({ keys: ["p:a", "p:b"], cursor: "p:b" });
+    const rest = await backend.list({
+      prefix: "p:",
+      limit: 2,
+      cursor: first.cursor,
+    });
+    expect(rest).toEqual({ keys: ["p:c"], cursor: undefined });
+  });
+});
+
+describe("createStorageBackend", () => {
+  it("shares one memory backend across agents", () => {
+    const env = testEnv();
+    expect(createStorageBackend(env)).toBe(createStorageBackend(env));
+  });
+
+  it("rejects d1 without BRAIN_DB and unknown kinds", () => {
+    expect(() =>
+      createStorageBackend(testEnv({ STORAGE_BACKEND: "d1" }))
+    ).toThrow(/BRAIN_DB/);
+    expect(() =>
+      createStorageBackend(testEnv({ STORAGE_BACKEND: "floppy" }))
+    ).toThrow(/Unknown STORAGE_BACKEND/);
+  });
+
+  it("needs BRAIN_DB for kv unless best-effort indexes are allowed", () => {
+    expect(() =>
+      createStorageBackend(testEnv({ STORAGE_BACKEND: "kv" }))
+    ).toThrow(/ALLOW_KV_INDEXES/);
+    const allowed = testEnv({
+      STORAGE_BACKEND: "kv",
+      ALLOW_KV_INDEXES: "true",
+    });
+    expect(createStorageBackend(allowed).kind).toBe("kv");
+    const bound = testEnv({
+      STORAGE_BACKEND: "kv",
+      BRAIN_DB: createMemoryDatabase(),
+    });
+    expect(createStorageBackend(bound).indexes("org", "org:").kind).toBe("d1");
+  });
+});
+
+describe("the brain on the memory backend", () => {
+  it("creates, reads, updates and deletes an entity", async () => {
+    const { brain } = createBrain();
+
+    const created = await brain.create({
+      id: "n1",
+      content: "The quick brown fox",
+      type: "note",
+      metadata: { category: "animals" },
+    });
+    expect(created.success).toBe(true);
+    expect(created.data?.metadata).toMatchObject({
+      version: 1,
+      category: "animals",
+      createdBy: "test",
+    });
+
+    const updated = await brain.update("n1", { content: "A lazy dog" });
+    expect(updated.success).toBe(true);
+    expect(updated.data?.content).toBe("A lazy dog");
+    expect(updated.data?.metadata.version).toBe(2);
+    expect(updated.data?.metadata.category).toBe("animals");
+
+    const read = await brain.getById("n1");
+    expect(read.data?.content).toBe("A lazy dog");
+
+    const deleted = await brain.delete("n1");
+    expect(deleted.success).toBe(true);
+    expect((await brain.getById("n1")).success).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import worker from "../src/index";
+import { AuthService } from "../src/utils/auth";
+import { createTenants, memoryKV, testEnv } from "./helpers";
+import { createMemoryDatabase } from "./sqlite";
+
+describe("tenant isolation", () => {
+  it("keeps each organization's entities, indexes and vectors apart", async () => {
+    const { agent } = createTenants();
+    const acme = agent("acme");
+    const globex = agent("globex");
+    await acme.create({ id: "plan", content: "acme roadmap", type: "note" });
+    await globex.create({ id: "plan", content: "globex budget", type: "doc" });
+    await agent().create({ id: "base", content: "platform", type: "note" });
+
+    expect((await acme.getById("plan")).data?.content).toBe("acme roadmap");
+    expect((await globex.getById("plan")).data?.content).toBe("globex budget");
+    expect((await acme.getById("base")).success).toBe(false);
+    expect((await agent().getById("plan")).success).toBe(false);
+
+    const listed = await acme.listEntities({ type: "doc" });
+    expect(listed.items).toEqual([]);
+    const contents = async (query: string) =>
+      (await globex.read(query, { threshold: 0 })).sources.map(
+        (source) => source.content
+      );
+    expect(await contents("globex budget")).toEqual(["globex budget"]);
+    expect(await contents("acme roadmap")).not.toContain("acme roadmap");
+  });
+});
+
+describe.each([
+  ["storage", () => ({})],
+  ["D1", () => ({ BRAIN_DB: createMemoryDatabase() })],
+])("tenant deletion with %s indexes", (_, overrides) => {
+  it("removes the organization's keys and vectors only", async () => {
+    const { agent, storage, vectors, settled } = createTenants(overrides());
+    for (let i = 0; i < 3; i++) {
+      await agent("acme").create({
+        id: `a${i}`,
+        content: `acme ${i}`,
+        type: "note",
+      });
+    }
+    await agent("globex").create({ id: "g", content: "kept", type: "note" });
+    expect(
+      (await storage.list({ prefix: "org:acme:" })).keys.length
+    ).toBeGreaterThan(0);
+    expect((await vectors.listIds({ namespace: "acme" })).ids).toHaveLength(3);
+
+    const job = await agent().startTenantDeletion("acme");
+    await settled();
+    const done = await agent().getJob(job.id);
+    expect(done?.status).toBe("completed");
+    expect(done?.metadata?.deletedKeys).toBeGreaterThan(0);
+
+    expect((await storage.list({ prefix: "org:acme:" })).keys).toEqual([]);
+    expect((await vectors.listIds({ namespace: "acme" })).ids).toEqual([]);
+    expect((await agent("acme").listEntities()).items).toEqual([]);
+    expect((await agent("globex").getById("g")).data?.content).toBe("kept");
+    expect((await vectors.listIds({ namespace: "globex" })).ids).toHaveLength(
+      1
+    );
+  });
+
+  it("is reserved for the platform agent", async () => {
+    const { agent } = createTenants(overrides());
+    await expect(agent("acme").startTenantDeletion("globex")).rejects.toThrow(
+      "platform"
+    );
+  });
+});
+
+describe("DELETE /admin/tenants", () => {
+  it("revokes the organization's keys and starts its deletion", async () => {
+    const env = testEnv({
+      RAG_CACHE: memoryKV(),
+      RATE_LIMIT_DISABLED: "true",
+      ADMIN_API_KEY: "bootstrap-secret",
+    });
+    const ctx = {
+      waitUntil() {},
+      passThroughOnException() {},
+    } as unknown as ExecutionContext;
+    const organizationId = `gone-${crypto.randomUUID()}`;
+    const { key, record } = await new AuthService(env).issueKey({
+      name: "doomed",
+      organizationId,
+      scopes: ["write"],
+    });
+    const call = (path: string, token: string, method = "GET") =>
+      worker.fetch(
+        new Request(`https://brain.test${path}`, {
+          method,
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        env,
+        ctx
+      );
+
+    const res = await call(
+      `/admin/tenants?organizationId=${organizationId}`,
+      "bootstrap-secret",
+      "DELETE"
+    );
+    expect(res.status).toBe(202);
+    const body = (await res.json()) as any;
+    expect(body.revokedKeys).toEqual([record.id]);
+    expect(body.job.metadata).toMatchObject({
+      task: "delete-tenant",
+      organizationId,
+    });
+    expect((await call("/brain/list", key)).status).toBe(401);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+import { apiClient, createBrain } from "./helpers";
+import { createMemoryDatabase } from "./sqlite";
+
+describe("trash", () => {
+  it("soft-deletes, lists and restores", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "t1", content: "keep me", type: "note" });
+
+    const trashed = await brain.delete("t1", { softDelete: true });
+    expect(trashed.data?.metadata.status).toBe("deleted");
+    expect((await brain.getById("t1")).success).toBe(false);
+
+    const trash = await brain.listTrash();
+    expect(trash.items.map((item) => item.id)).toEqual(["t1"]);
+    expect(trash.items[0].purgeAfter).toBeGreaterThan(Date.now());
+
+    const restored = await brain.restore("t1");
+    expect(restored.success).toBe(true);
+    expect((await brain.getById("t1")).data?.content).toBe("keep me");
+    expect((await brain.listTrash()).items).toEqual([]);
+  });
+
+  it("bumps the version on soft delete and restore", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "tv", content: "x", type: "note" });
+
+    const trashed = await brain.delete("tv", { softDelete: true });
+    expect(trashed.data?.metadata.version).toBe(2);
+    const stale = await brain.restore("tv", { expectedVersion: 1 });
+    expect(stale.metadata?.conflict).toBe(true);
+
+    const restored = await brain.restore("tv", { expectedVersion: 2 });
+    expect(restored.data?.metadata).toMatchObject({ version: 3 });
+    expect(restored.data?.metadata.deletedAt).toBeUndefined();
+    const update = await brain.update(
+      "tv",
+      { content: "y" },
+      { expectedVersion: 1 }
+    );
+    expect(update.metadata?.conflict).toBe(true);
+    expect((await brain.restore("tv")).success).toBe(false);
+  });
+
+  it("won't update or recreate a trashed entity", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "t2", content: "x", type: "note" });
+    await brain.delete("t2", { softDelete: true });
+
+    expect((await brain.update("t2", { content: "y" })).success).toBe(false);
+    const again = await brain.create({ id: "t2", content: "z", type: "note" });
+    expect(again.metadata?.conflict).toBe(true);
+  });
+
+  it("hides trashed entities from search and drops their vectors", async () => {
+    const { brain, vectors } = createBrain();
+    await brain.create({ id: "t3", content: "hidden fox", type: "note" });
+    await brain.delete("t3", { softDelete: true });
+
+    expect((await vectors.listIds({ prefix: "t3_" })).ids).toEqual([]);
+    expect(await brain.listEntities({ type: "note" })).toMatchObject({
+      items: [],
+    });
+  });
+
+  it("drops trashed entities from cached semantic results", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "fox", content: "quick brown fox", type: "note" });
+    const ids = async () =>
+      (await brain.read("quick brown fox", { threshold: 0 })).sources.map(
+        (source) => source.id
+      );
+
+    expect(await ids()).toEqual(["fox"]);
+    await brain.delete("fox", { softDelete: true });
+    expect(await ids()).toEqual([]);
+    await brain.restore("fox");
+    expect(await ids()).toEqual(["fox"]);
+  });
+
+  it("purges only what is past the retention window", async () => {
+    const { brain } = createBrain();
+    for (const id of ["old", "new"]) {
+      await brain.create({ id, content: id, type: "note" });
+      await brain.delete(id, { softDelete: true });
+    }
+
+    expect((await brain.purgeTrash(1)).summary.total).toBe(0);
+    const purged = await brain.purgeTrash(0);
+    expect(purged.summary.successful).toBe(2);
+    expect((await brain.listTrash()).items).toEqual([]);
+  });
+
+  it("purges one page per call", async () => {
+    const { brain } = createBrain();
+    const ids = Array.from({ length: 101 }, (_, i) => `p${i}`);
+    await brain.bulkCreate(
+      ids.map((id) => ({ id, content: id, type: "note" }))
+    );
+    await brain.bulkDelete(ids, { softDelete: true });
+
+    const first = await brain.purgeTrash(0);
+    expect(first.summary.successful).toBe(100);
+    expect(first.cursor).toBeDefined();
+    const rest = await brain.purgeTrash(0, first.cursor);
+    expect(rest.summary.successful).toBe(1);
+    expect(rest.cursor).toBeUndefined();
+  });
+
+  it("rejects a negative retention over HTTP", async () => {
+    const call = apiClient();
+    const res = await call("/brain/trash/purge?olderThanDays=-1", {
+      method: "POST",
+    });
+    expect(res.status).toBe(422);
+    const ok = await call("/brain/trash/purge?olderThanDays=0", {
+      method: "POST",
+    });
+    expect(await ok.json()).toMatchObject({ success: true });
+  });
+
+  it("pages the trash by deletion time with a metadata store", async () => {
+    const { brain } = createBrain({ BRAIN_DB: createMemoryDatabase() });
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      for (const [i, id] of ["c", "a", "b"].entries()) {
+        vi.setSystemTime(Date.UTC(2026, 0, 1 + i));
+        await brain.create({ id, content: id, type: "note" });
+        await brain.delete(id, { softDelete: true });
+      }
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const first = await brain.listTrash(2);
+    expect(first.total).toBe(3);
+    expect(first.items.map((item) => item.id)).toEqual(["c", "a"]);
+    const rest = await brain.listTrash(2, first.cursor);
+    expect(rest.items.map((item) => item.id)).toEqual(["b"]);
+    expect(rest.cursor).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { MemoryVectorStore } from "../src/rag/vectors";
+import { createBrain } from "./helpers";
+
+describe("MemoryVectorStore", () => {
+  it("queries by similarity within a namespace and filter", async () => {
+    const store = new MemoryVectorStore();
+    await store.upsert([
+      { id: "a", values: [1, 0], metadata: { type: "note" } },
+      { id: "b", values: [0.6, 0.8], metadata: { type: "task" } },
+    ]);
+    await store.upsert([{ id: "c", values: [1, 0] }], "other");
+
+    const all = await store.query([1, 0], { topK: 10 });
+    expect(all.matches.map((m) => m.id)).toEqual(["a", "b"]);
+    const tasks = await store.query([1, 0], {
+      topK: 10,
+      filter: { type: { $in: ["task"] } },
+    });
+    expect(tasks.matches.map((m) => m.id)).toEqual(["b"]);
+  });
+
+  it("deletes by filter and lists ids by prefix", async () => {
+    const store = new MemoryVectorStore();
+    await store.upsert([
+      { id: "x_chunk_0", values: [1], metadata: { originalId: "x" } },
+      { id: "x_chunk_1", values: [1], metadata: { originalId: "x" } },
+      { id: "y_chunk_0", values: [1], metadata: { originalId: "y" } },
+    ]);
+
+    expect((await store.listIds({ prefix: "x_" })).ids).toEqual([
+      "x_chunk_0",
+      "x_chunk_1",
+    ]);
+    const deleted = await store.deleteByFilter({ originalId: "x" });
+    expect(deleted).toMatchObject({ complete: true, deleted: 2 });
+    expect((await store.listIds()).ids).toEqual(["y_chunk_0"]);
+  });
+});
+
+describe("indexing", () => {
+  it("stores a vector per chunk and finds the entity by meaning", async () => {
+    const { brain, vectors } = createBrain({
+      CHUNKING: JSON.stringify({ note: { chunkSize: 12, overlapTokens: 4 } }),
+    });
+    const content =
+      "Foxes are small omnivorous mammals. They live in forests and cities. " +
+      "Otters swim in rivers and eat fish. Both are clever animals.";
+    await brain.create({ id: "animals", content, type: "note" });
+
+    const { ids } = await vectors.listIds({ prefix: "animals_chunk_" });
+    expect(ids.length).toBeGreaterThan(1);
+    expect((await brain.getById("animals")).data?.metadata.indexed).toBe(true);
+
+    const result = await brain.read("otters swim in rivers");
+    expect(result.sources[0]?.id).toBe("animals");
+  });
+
+  it("removes vectors with the entity", async () => {
+    const { brain, vectors } = createBrain();
+    await brain.create({ id: "gone", content: "short lived", type: "note" });
+    const before = await vectors.listIds({ prefix: "gone_chunk_" });
+    expect(before.ids).toHaveLength(1);
+
+    await brain.delete("gone");
+    expect((await vectors.listIds({ prefix: "gone_chunk_" })).ids).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { createBrain } from "./helpers";
+
+describe("version history", () => {
+  it("keeps past versions for history, diff and revert", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "doc", content: "one\ntwo", type: "document" });
+    await brain.update("doc", { content: "one\nthree" });
+
+    const history = await brain.getHistory("doc");
+    expect(history.versions.map((v) => v.version)).toEqual([1, 2]);
+    expect((await brain.getVersion("doc", 1)).data?.content).toBe("one\ntwo");
+
+    const diff = await brain.diffVersions("doc", 1);
+    expect(diff?.content).toEqual([
+      { op: "equal", text: "one" },
+      { op: "removed", text: "two" },
+      { op: "added", text: "three" },
+    ]);
+
+    const reverted = await brain.revert("doc", 1);
+    expect(reverted.success).toBe(true);
+    expect(reverted.data?.content).toBe("one\ntwo");
+    expect(reverted.data?.metadata).toMatchObject({
+      version: 3,
+      revertedFrom: 1,
+    });
+  });
+
+  it("rejects creating over an existing id", async () => {
+    const { brain } = createBrain();
+    await brain.create({ id: "dup", content: "first", type: "note" });
+
+    const again = await brain.create({
+      id: "dup",
+      content: "second",
+      type: "note",
+    });
+    expect(again.success).toBe(false);
+    expect(again.metadata?.conflict).toBe(true);
+    expect((await brain.getById("dup")).data?.content).toBe("first");
+    expect((await brain.getHistory("dup")).versions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // The brain logs every operation; only show it for failing tests
+    silent: "passed-only",
+  },
+});